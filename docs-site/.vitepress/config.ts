@@ -39,6 +39,10 @@ export default withMermaid(
               { text: 'Type Safety', link: '/guide/type-safety' },
               { text: 'Content Types', link: '/guide/content-types' },
               { text: 'Middleware', link: '/guide/middleware' },
+              { text: 'Security', link: '/guide/security' },
+              { text: 'Versioning', link: '/guide/versioning' },
+              { text: 'Webhooks', link: '/guide/webhooks' },
+              { text: 'Mocking', link: '/guide/mocking' },
               { text: 'Error Handling', link: '/guide/error-handling' },
               { text: 'OpenAPI Integration', link: '/guide/openapi' },
               { text: 'Schema Libraries', link: '/guide/schema-libraries' },
@@ -63,6 +67,7 @@ export default withMermaid(
               { text: 'createContract', link: '/api/create-contract' },
               { text: 'createRouter', link: '/api/create-router' },
               { text: 'createOpenApiSpecification', link: '/api/create-openapi-specification' },
+              { text: 'createClient', link: '/api/create-client' },
               { text: 'Types', link: '/api/types' },
               { text: 'Middleware API', link: '/api/middleware-api' },
             ],
@@ -1,17 +1,13 @@
-import { createContract } from '../../../src/index.ts';
+import { createContract, mergeContracts } from '../../../src/index.ts';
 import { z } from 'zod/v4';
 import { usersContract } from './users.contract';
 import { productsContract } from './products.contract';
 import { ordersContract } from './orders.contract';
 
 /**
- * Main contract combining all domain contracts
- * This allows for a single contract definition that can be used with the router
+ * Operations that do not belong to a domain
  */
-export const contract = createContract({
-  ...usersContract,
-  ...productsContract,
-  ...ordersContract,
+const miscContract = createContract({
   getSpec: {
     path: '/spec',
     method: 'GET',
@@ -66,4 +62,15 @@ export const contract = createContract({
   },
 });
 
+/**
+ * Main contract combining all domain contracts
+ * mergeContracts throws if two domains declare the same operation or route
+ */
+export const contract = mergeContracts(
+  usersContract,
+  productsContract,
+  ordersContract,
+  miscContract
+);
+
 export default contract;
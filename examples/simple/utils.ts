@@ -89,29 +89,3 @@ export const formatCalculateErrorHTML = (error: string) =>
     </div>
   </body>
 </html>`;
-
-/**
- * Get preferred content type from Accept header
- */
-export const getPreferredContentType = (
-  acceptHeader: string | null | undefined,
-  defaultType: string = 'application/json'
-): string => {
-  if (!acceptHeader) {
-    return defaultType;
-  }
-
-  const acceptTypes = acceptHeader.split(',').map((type) => type.split(';')[0].trim());
-
-  if (acceptTypes.some((type) => type.includes('text/html'))) {
-    return 'text/html';
-  }
-  if (acceptTypes.some((type) => type.includes('application/xml') || type.includes('text/xml'))) {
-    return 'application/xml';
-  }
-  if (acceptTypes.some((type) => type.includes('application/json'))) {
-    return 'application/json';
-  }
-
-  return defaultType;
-};
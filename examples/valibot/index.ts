@@ -9,7 +9,6 @@ import {
   formatCalculateErrorXML,
   formatCalculateResponseHTML,
   formatCalculateErrorHTML,
-  getPreferredContentType,
 } from './utils';
 
 /**
@@ -27,7 +26,8 @@ const router = createRouter({
   handlers: {
     getCalculate: async (request) => {
       const result = request.validatedQuery.a + request.validatedQuery.b;
-      const contentType = getPreferredContentType(request.headers.get('Accept'));
+      // Negotiated from the Accept header against the declared response content types
+      const contentType = request.preferredContentType;
 
       if (result > 100) {
         const errorMessage = 'Invalid request';
@@ -0,0 +1,274 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type { ContractDefinition } from './types';
+import { createOpenApiSpecification } from './openapi/index';
+import type { OpenApiSpecificationOptions } from './openapi/index';
+import { generateContractSource } from './openapi/import';
+import type { SchemaLibrary } from './openapi/import';
+import { lintOpenApiSpecification } from './openapi/lint';
+import { stringifyYaml } from './openapi/yaml';
+
+/**
+ * Output streams used by the CLI (process stdout/stderr by default)
+ */
+export type CliOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+const defaultOutput: CliOutput = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+const USAGE = `Usage: itty-spec <command> [options]
+
+Commands:
+  openapi <module>            Generate the OpenAPI document of a contract module
+    --out <file>              Write the document to a file instead of stdout
+    --format <json|yaml>      Output format (default: from the --out extension, else json)
+  check <module>              Fail when the document in --out differs from the generated one
+    --out <file>              The committed document
+  lint <module>               Report problems in the generated OpenAPI document
+    --strict                  Fail on warnings as well as errors
+  import <openapi.json>       Generate a contract from an OpenAPI 3.0/3.1 document
+    --schemas <zod|valibot>   Schema library for the generated schemas (default: zod)
+    --name <name>             Name of the exported contract (default: contract)
+    --out <file>              Write the source to a file instead of stdout
+
+Options for openapi, check and lint:
+  --export <name>             Contract export of the module (default: contract, then default)
+  --config <file>             OpenApiSpecificationOptions from a JSON file or a module's default export
+  --title <title>             Document title (overrides the config file)
+  --version <version>         Document version
+  --description <text>        Document description
+  --server <url>              Server URL (repeatable)
+  --errors <format>           Error format of the router: legacy or problem+json
+  --api-version <version>     API version to document (needs versioning in the config file)
+
+TypeScript modules need a runtime that can import them (e.g. tsx, Bun or Node.js with type stripping).
+`;
+
+/**
+ * Flags shared by the commands that load a contract module
+ */
+const SPECIFICATION_FLAGS = {
+  export: { type: 'string', default: 'contract' },
+  config: { type: 'string' },
+  title: { type: 'string' },
+  version: { type: 'string' },
+  description: { type: 'string' },
+  server: { type: 'string', multiple: true },
+  errors: { type: 'string' },
+  'api-version': { type: 'string' },
+  out: { type: 'string' },
+  format: { type: 'string' },
+  strict: { type: 'boolean', default: false },
+} as const;
+
+/**
+ * Run the itty-spec command line
+ *
+ * @param args - The command line arguments (without the node and script paths)
+ * @param output - Output streams
+ * @returns The process exit code
+ */
+export async function runCli(args: string[], output: CliOutput = defaultOutput): Promise<number> {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case 'openapi':
+        return await runOpenApi(rest, output);
+      case 'check':
+        return await runCheck(rest, output);
+      case 'lint':
+        return await runLint(rest, output);
+      case 'import':
+        return await runImport(rest, output);
+      case undefined:
+      case 'help':
+      case '--help':
+      case '-h':
+        output.stdout(USAGE);
+        return 0;
+      default:
+        output.stderr(`Unknown command "${command}"\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (error) {
+    output.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * `itty-spec openapi <module>`
+ */
+async function runOpenApi(args: string[], output: CliOutput): Promise<number> {
+  const { values, document } = await loadSpecification(args);
+  const source = formatSpecification(document, values.format, values.out);
+  if (values.out) {
+    await writeFile(values.out, source);
+    output.stderr(`Wrote ${values.out}\n`);
+  } else {
+    output.stdout(source);
+  }
+  return 0;
+}
+
+/**
+ * `itty-spec check <module> --out <file>`
+ */
+async function runCheck(args: string[], output: CliOutput): Promise<number> {
+  const { values, document } = await loadSpecification(args);
+  if (!values.out) throw new Error('Missing --out (the committed OpenAPI document)');
+
+  const expected = formatSpecification(document, values.format, values.out);
+  const committed = await readFile(values.out, 'utf8').catch(() => null);
+  if (committed === expected) {
+    output.stdout(`${values.out} is up to date\n`);
+    return 0;
+  }
+  output.stderr(
+    `${values.out} ${committed === null ? 'does not exist' : 'is out of date'} - run \`itty-spec openapi\` to regenerate it\n`
+  );
+  return 1;
+}
+
+/**
+ * `itty-spec lint <module>`
+ */
+async function runLint(args: string[], output: CliOutput): Promise<number> {
+  const { values, document } = await loadSpecification(args);
+  const issues = lintOpenApiSpecification(document);
+  for (const issue of issues) {
+    output.stdout(
+      `${issue.severity.padEnd(7)} ${issue.location}  ${issue.message}  (${issue.rule})\n`
+    );
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+  output.stdout(
+    issues.length === 0
+      ? 'No problems found\n'
+      : `${issues.length} problem(s) (${errors} error(s), ${warnings} warning(s))\n`
+  );
+  return errors > 0 || (values.strict && warnings > 0) ? 1 : 0;
+}
+
+/**
+ * `itty-spec import <openapi.json>`
+ */
+async function runImport(args: string[], output: CliOutput): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      schemas: { type: 'string', default: 'zod' },
+      name: { type: 'string', default: 'contract' },
+      out: { type: 'string' },
+    },
+  });
+  const [file] = positionals;
+  if (!file) {
+    output.stderr(`Missing OpenAPI document path\n\n${USAGE}`);
+    return 1;
+  }
+  if (values.schemas !== 'zod' && values.schemas !== 'valibot') {
+    output.stderr(`Unsupported schema library "${values.schemas}" (expected zod or valibot)\n`);
+    return 1;
+  }
+
+  const document = JSON.parse(await readFile(file, 'utf8'));
+  const source = generateContractSource(document, {
+    schemas: values.schemas as SchemaLibrary,
+    name: values.name,
+  });
+  if (values.out) {
+    await writeFile(values.out, source);
+    output.stderr(`Wrote ${values.out}\n`);
+  } else {
+    output.stdout(source);
+  }
+  return 0;
+}
+
+/**
+ * Parse the shared flags, load the contract module and generate its OpenAPI document
+ */
+async function loadSpecification(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: SPECIFICATION_FLAGS,
+  });
+  const [file] = positionals;
+  if (!file) throw new Error(`Missing contract module path\n\n${USAGE}`);
+
+  const module = await importModule(file);
+  const contract = (module[values.export] ??
+    (values.export === 'contract' ? module.default : undefined)) as ContractDefinition | undefined;
+  if (!isContract(contract)) {
+    throw new Error(`${file} does not export a contract named "${values.export}"`);
+  }
+
+  const config = values.config ? await loadConfig(values.config) : {};
+  const title = values.title ?? config.title;
+  if (!title) throw new Error('Missing --title (or a title in the config file)');
+  const options: OpenApiSpecificationOptions = {
+    ...config,
+    title,
+    version: values.version ?? config.version,
+    description: values.description ?? config.description,
+    servers: values.server ? values.server.map((url) => ({ url })) : config.servers,
+    errors: (values.errors as OpenApiSpecificationOptions['errors']) ?? config.errors,
+    apiVersion: values['api-version'] ?? config.apiVersion,
+  };
+
+  return { values, document: await createOpenApiSpecification(contract, options) };
+}
+
+/**
+ * Load OpenApiSpecificationOptions from a JSON file or the default export of a module
+ */
+async function loadConfig(file: string): Promise<Partial<OpenApiSpecificationOptions>> {
+  if (file.endsWith('.json')) return JSON.parse(await readFile(file, 'utf8'));
+  const module = await importModule(file);
+  return (module.default ?? module) as Partial<OpenApiSpecificationOptions>;
+}
+
+/**
+ * Import a module by path, relative to the working directory
+ */
+async function importModule(file: string): Promise<Record<string, unknown>> {
+  return import(pathToFileURL(resolve(file)).href);
+}
+
+/**
+ * Check whether a value looks like a contract (operations with a path and a method)
+ */
+function isContract(value: unknown): value is ContractDefinition {
+  if (!value || typeof value !== 'object') return false;
+  const operations = Object.values(value);
+  return (
+    operations.length > 0 &&
+    operations.every(
+      (operation) =>
+        operation && typeof operation.path === 'string' && typeof operation.method === 'string'
+    )
+  );
+}
+
+/**
+ * Serialize a document as JSON or YAML (`format`, else from the output file extension)
+ */
+function formatSpecification(document: unknown, format?: string, out?: string): string {
+  const yaml = format ? format === 'yaml' : /\.ya?ml$/.test(out ?? '');
+  if (format && format !== 'json' && format !== 'yaml') {
+    throw new Error(`Unsupported format "${format}" (expected json or yaml)`);
+  }
+  return yaml ? stringifyYaml(document) : `${JSON.stringify(document, null, 2)}\n`;
+}
@@ -0,0 +1,211 @@
+import type {
+  CodecRegistry,
+  ContractClient,
+  ContractClientOptions,
+  ContractDefinition,
+  ContractOperation,
+  ResponseByContentType,
+} from './types';
+import { parseBodyByContentType } from './middleware/utils';
+import { resolveCodec } from './codecs';
+import { buildPath } from './path';
+import { parseStream } from './streaming';
+
+/**
+ * Options accepted by a client operation at runtime (untyped view of ClientRequestOptions)
+ */
+type ClientCallOptions = {
+  pathParams?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: HeadersInit;
+  body?: unknown;
+  contentType?: string;
+  init?: Omit<RequestInit, 'method' | 'body' | 'headers'>;
+};
+
+/**
+ * Creates a type-safe fetch client from a contract definition
+ *
+ * The client exposes one method per contract operation (keyed by operation ID). Each method
+ * accepts typed path params, query, headers and body, and resolves to a discriminated union of
+ * `{ status, body, headers }` matching the operation's declared responses. Streamed responses
+ * resolve with an async iterable of parsed items as their body.
+ *
+ * @typeParam TContract - The contract definition type
+ *
+ * @param contract - The contract definition (the same object passed to createRouter)
+ * @param options - Client configuration options
+ * @param options.baseUrl - Base URL prepended to every operation path
+ * @param options.fetch - Optional fetch implementation (defaults to the global fetch)
+ * @param options.headers - Optional headers sent with every request
+ *
+ * @returns A client with one method per contract operation
+ *
+ * @example
+ * ```typescript
+ * const client = createClient(contract, { baseUrl: 'https://api.example.com' });
+ *
+ * const result = await client.getUser({ pathParams: { id: '123' } });
+ * if (result.status === 200) {
+ *   console.log(result.body.name);
+ * }
+ * ```
+ */
+export function createClient<TContract extends ContractDefinition>(
+  contract: TContract,
+  options: ContractClientOptions
+): ContractClient<TContract> {
+  const client: Record<string, (callOptions?: ClientCallOptions) => Promise<unknown>> = {};
+
+  for (const [operationId, operation] of Object.entries(contract)) {
+    client[operationId] = (callOptions: ClientCallOptions = {}) =>
+      callOperation(operation, options, callOptions);
+  }
+
+  return client as ContractClient<TContract>;
+}
+
+/**
+ * Execute a single contract operation and parse the response
+ */
+async function callOperation(
+  operation: ContractOperation,
+  options: ContractClientOptions,
+  callOptions: ClientCallOptions
+) {
+  const url = buildRequestUrl(
+    options.baseUrl,
+    operation.path,
+    callOptions.pathParams,
+    callOptions.query
+  );
+
+  const headers = new Headers(options.headers);
+  new Headers(callOptions.headers).forEach((value, key) => headers.set(key, value));
+
+  let body: BodyInit | undefined;
+  if (callOptions.body !== undefined) {
+    const contentType =
+      callOptions.contentType ||
+      Object.keys(operation.requests || {})[0] ||
+      headers.get('content-type') ||
+      'application/json';
+    body = await serializeRequestBody(callOptions.body, contentType, options.codecs);
+    // FormData bodies must let fetch set the multipart boundary
+    if (body instanceof FormData) {
+      headers.delete('content-type');
+    } else if (!headers.has('content-type')) {
+      headers.set('content-type', contentType);
+    }
+  }
+
+  const doFetch = options.fetch || ((request: Request) => fetch(request));
+  const response = await doFetch(
+    new Request(url, { ...callOptions.init, method: operation.method, headers, body })
+  );
+
+  return {
+    status: response.status,
+    body: isStreamedResponse(operation, response)
+      ? parseStream(response.body!, response.headers.get('content-type'))
+      : await parseResponseBody(response, options.codecs),
+    headers: response.headers,
+  };
+}
+
+/**
+ * Check whether the contract declares the response as streamed (`stream: true`)
+ */
+function isStreamedResponse(operation: ContractOperation, response: Response): boolean {
+  if (!response.body) return false;
+  const responses = operation.responses as Record<string, ResponseByContentType | undefined>;
+  const byContentType = responses[response.status] ?? responses.default;
+  const mediaType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  return Object.entries(byContentType ?? {}).some(
+    ([contentType, schema]) => contentType.toLowerCase() === mediaType && schema.stream === true
+  );
+}
+
+/**
+ * Build the full request URL from an operation path, path params and query params
+ */
+export function buildRequestUrl(
+  baseUrl: string,
+  pathPattern: string,
+  pathParams: Record<string, unknown> = {},
+  query: Record<string, unknown> = {}
+): string {
+  const path = buildPath(pathPattern, pathParams);
+
+  const url = new URL(baseUrl.replace(/\/+$/, '') + path);
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) url.searchParams.append(key, String(item));
+    } else {
+      url.searchParams.append(key, String(value));
+    }
+  }
+  return url.toString();
+}
+
+/**
+ * Serialize a request body - strings and native body types pass through, plain objects sent as
+ * multipart/form-data become FormData, codecs registered for the content type are applied,
+ * and everything else is JSON
+ */
+async function serializeRequestBody(
+  body: unknown,
+  contentType: string,
+  codecs: CodecRegistry | undefined
+): Promise<BodyInit> {
+  if (typeof body === 'string') return body;
+  if (body instanceof Blob || body instanceof FormData || body instanceof URLSearchParams) {
+    return body;
+  }
+  if (contentType.split(';')[0].trim().toLowerCase() === 'multipart/form-data') {
+    return objectToFormData(body as Record<string, unknown>);
+  }
+  const codec = resolveCodec(codecs, contentType);
+  if (codec?.serialize) return await codec.serialize(body);
+  return JSON.stringify(body);
+}
+
+/**
+ * Convert a plain object into FormData - Blob/File values are appended as file parts,
+ * arrays as repeated fields and everything else as strings
+ */
+function objectToFormData(body: Record<string, unknown>): FormData {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(body || {})) {
+    if (value === undefined || value === null) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      formData.append(key, item instanceof Blob ? item : String(item));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Parse a response body based on its content type
+ * Returns undefined for empty bodies (e.g., 204 No Content)
+ */
+async function parseResponseBody(
+  response: Response,
+  codecs: CodecRegistry | undefined
+): Promise<unknown> {
+  const contentType = response.headers.get('content-type');
+  const mediaType = contentType ? contentType.split(';')[0].trim() : null;
+  const codec = resolveCodec(codecs, mediaType);
+
+  if (codec?.binary) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.byteLength === 0) return undefined;
+    return codec.parse ? await codec.parse(bytes) : bytes;
+  }
+
+  const text = await response.text();
+  if (!text) return undefined;
+  if (codec?.parse) return await codec.parse(text);
+  return parseBodyByContentType(mediaType, text);
+}
@@ -0,0 +1,96 @@
+import type { BodyCodec, CodecRegistry } from './types';
+import { formEntriesToObject } from './middleware/utils';
+
+/**
+ * JSON codec - parses JSON (falling back to the raw text for malformed input; the router rejects
+ * malformed request bodies with 400) and serializes with JSON.stringify
+ */
+export const jsonCodec: BodyCodec = {
+  parse: (text: string) => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  },
+  serialize: (value: unknown) => JSON.stringify(value),
+};
+
+/**
+ * Text codec - passes strings through unchanged
+ */
+export const textCodec: BodyCodec = {
+  parse: (text: string) => text,
+  serialize: (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value)),
+};
+
+/**
+ * Form URL-encoded codec - parses into a plain object (repeated keys become arrays)
+ * and serializes plain objects into URLSearchParams
+ */
+export const formUrlEncodedCodec: BodyCodec = {
+  parse: (text: string) => formEntriesToObject(new URLSearchParams(text)),
+  serialize: (value: unknown) => {
+    if (typeof value === 'string' || value instanceof URLSearchParams) return value;
+    const params = new URLSearchParams();
+    for (const [key, item] of Object.entries((value as Record<string, unknown>) || {})) {
+      if (item === undefined || item === null) continue;
+      for (const entry of Array.isArray(item) ? item : [item]) params.append(key, String(entry));
+    }
+    return params;
+  },
+};
+
+/**
+ * Built-in codecs, used when no registered codec matches a media type
+ *
+ * `multipart/form-data` is not a codec: request bodies are read with `request.formData()`
+ * so that file parts arrive as File objects.
+ */
+export const defaultCodecs: CodecRegistry = {
+  'application/json': jsonCodec,
+  'application/*+json': jsonCodec,
+  'application/x-www-form-urlencoded': formUrlEncodedCodec,
+  'text/*': textCodec,
+};
+
+/**
+ * Check if a media type matches a registry key
+ * Supports exact keys and wildcards such as `text/*`, `application/*+json` and `*\/*`
+ */
+export function matchesMediaType(pattern: string, mediaType: string): boolean {
+  const normalizedPattern = pattern.toLowerCase();
+  const normalizedType = mediaType.split(';')[0].trim().toLowerCase();
+  if (normalizedPattern === normalizedType) return true;
+  if (!normalizedPattern.includes('*')) return false;
+
+  const regex = new RegExp(
+    '^' +
+      normalizedPattern
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+        .join('[^/]*') +
+      '$'
+  );
+  return regex.test(normalizedType);
+}
+
+/**
+ * Find the codec for a media type
+ *
+ * User codecs take precedence over the built-in ones. Within a registry, exact keys win over
+ * wildcard keys, and wildcard keys are tried in registration order.
+ */
+export function resolveCodec(
+  codecs: CodecRegistry | undefined,
+  mediaType: string | null
+): BodyCodec | undefined {
+  if (!mediaType) return undefined;
+  for (const registry of [codecs || {}, defaultCodecs]) {
+    const keys = Object.keys(registry);
+    const exact = keys.find((key) => matchesMediaType(key, mediaType) && !key.includes('*'));
+    const key = exact ?? keys.find((key) => matchesMediaType(key, mediaType));
+    if (key) return registry[key];
+  }
+  return undefined;
+}
@@ -3,8 +3,13 @@ import {
   ContractDefinition,
   ContractOperation,
   ContractOperationHandler,
+  ContractRequest,
   HandlersForContract,
+  MergedContract,
+  PrefixedContract,
+  TaggedContract,
 } from './types';
+import { getRouteSignatures } from './path';
 
 /**
  * Creates a contract from a contract definition
@@ -61,6 +66,182 @@ export function createContract<T extends ContractDefinition>(definition: T): T {
   return definition;
 }
 
+/**
+ * Merge contracts into one contract
+ *
+ * Unlike spreading contracts into one object, where later operations silently replace
+ * earlier ones, this throws when the merged operations collide.
+ *
+ * @param contracts - The contracts to merge
+ * @returns A contract with the operations of every contract
+ * @throws Error when an operation key or operationId is used twice, or two operations share a
+ *   method and an equivalent path (`/users/:id` and `/users/:userId`)
+ *
+ * @example
+ * ```typescript
+ * export const contract = mergeContracts(usersContract, productsContract, ordersContract);
+ * ```
+ */
+export function mergeContracts<T extends ContractDefinition[]>(...contracts: T): MergedContract<T> {
+  const merged: Record<string, ContractOperation> = {};
+  for (const contract of contracts) {
+    for (const [key, operation] of Object.entries(contract)) {
+      if (key in merged) throw new Error(`Duplicate operation "${key}" in merged contracts`);
+      merged[key] = operation as ContractOperation;
+    }
+  }
+  assertUniqueOperations(merged);
+  return merged as MergedContract<T>;
+}
+
+/**
+ * Prefix the path of every operation of a contract
+ *
+ * @param prefix - The path prefix, starting with `/` and without a trailing `/` (e.g. `/v1`)
+ * @param contract - The contract to prefix
+ * @returns A contract whose operation paths start with the prefix
+ *
+ * @example
+ * ```typescript
+ * const contract = mergeContracts(prefixContract('/v1', usersContract), healthContract);
+ * ```
+ */
+export function prefixContract<P extends string, T extends ContractDefinition>(
+  prefix: P,
+  contract: T
+): PrefixedContract<P, T> {
+  if (!/^\/.*[^/]$/.test(prefix)) {
+    throw new Error(`Contract prefix "${prefix}" must start with "/" and not end with "/"`);
+  }
+  return mapOperations(contract, (operation) => ({
+    ...operation,
+    path: `${prefix}${operation.path}`,
+  })) as PrefixedContract<P, T>;
+}
+
+/**
+ * Add tags to every operation of a contract (existing tags are kept)
+ *
+ * @param tags - The tag or tags to add
+ * @param contract - The contract to tag
+ * @returns The tagged contract
+ *
+ * @example
+ * ```typescript
+ * export const usersContract = tagContract('Users', createContract({ ... }));
+ * ```
+ */
+export function tagContract<T extends ContractDefinition>(
+  tags: string | string[],
+  contract: T
+): TaggedContract<T> {
+  const added = Array.isArray(tags) ? tags : [tags];
+  return mapOperations(contract, (operation) => ({
+    ...operation,
+    tags: [...new Set([...(operation.tags ?? []), ...added])],
+  })) as TaggedContract<T>;
+}
+
+/**
+ * Create a contract with only some operations of another
+ *
+ * @param contract - The source contract
+ * @param keys - The operations to keep
+ * @returns A contract with the picked operations
+ * @throws Error when a key is not an operation of the contract
+ *
+ * @example
+ * ```typescript
+ * const publicContract = pickOperations(contract, ['getProducts', 'getProductById']);
+ * ```
+ */
+export function pickOperations<T extends ContractDefinition, K extends keyof T & string>(
+  contract: T,
+  keys: readonly K[]
+): Pick<T, K> {
+  assertOperationKeys(contract, keys);
+  return Object.fromEntries(keys.map((key) => [key, contract[key]])) as Pick<T, K>;
+}
+
+/**
+ * Create a contract without some operations of another
+ *
+ * @param contract - The source contract
+ * @param keys - The operations to leave out
+ * @returns A contract without the omitted operations
+ * @throws Error when a key is not an operation of the contract
+ *
+ * @example
+ * ```typescript
+ * const publicContract = omitOperations(contract, ['deleteUser']);
+ * ```
+ */
+export function omitOperations<T extends ContractDefinition, K extends keyof T & string>(
+  contract: T,
+  keys: readonly K[]
+): Omit<T, K> {
+  assertOperationKeys(contract, keys);
+  return Object.fromEntries(
+    Object.entries(contract).filter(([key]) => !keys.includes(key as K))
+  ) as Omit<T, K>;
+}
+
+/**
+ * Apply a function to every operation of a contract
+ */
+function mapOperations(
+  contract: ContractDefinition,
+  fn: (operation: ContractOperation) => ContractOperation
+): ContractDefinition {
+  return Object.fromEntries(
+    Object.entries(contract).map(([key, operation]) => [key, fn(operation as ContractOperation)])
+  );
+}
+
+/**
+ * Throw when a key is not an operation of the contract
+ */
+function assertOperationKeys(contract: ContractDefinition, keys: readonly string[]): void {
+  for (const key of keys) {
+    if (!Object.prototype.hasOwnProperty.call(contract, key)) {
+      throw new Error(`Operation "${key}" does not exist in the contract`);
+    }
+  }
+}
+
+/**
+ * Throw when operations share an operationId, or a method and paths matching the same URLs
+ */
+function assertUniqueOperations(contract: Record<string, ContractOperation>): void {
+  const operationIds = new Map<string, string>();
+  const routes = new Map<string, string>();
+
+  for (const [key, operation] of Object.entries(contract)) {
+    const operationId = operation.operationId ?? key;
+    const sameId = operationIds.get(operationId);
+    if (sameId !== undefined) {
+      throw new Error(
+        `Duplicate operationId "${operationId}" (operations "${sameId}" and "${key}")`
+      );
+    }
+    operationIds.set(operationId, key);
+
+    // Operations serving different API versions may share a route - the router checks those
+    // against the versions it declares
+    if (operation.versions !== undefined) continue;
+    for (const signature of getRouteSignatures(operation.path)) {
+      const route = `${operation.method} ${signature}`;
+      const sameRoute = routes.get(route);
+      if (sameRoute !== undefined) {
+        throw new Error(
+          `Operations "${sameRoute}" and "${key}" both match ${operation.method} ${operation.path}`
+        );
+      }
+      routes.set(route, key);
+    }
+  }
+}
+
 /**
  * Define handlers for a contract with type safety
  * This function validates that handlers match the contract and can be used
@@ -130,3 +311,50 @@ export function defineHandlers<TContract extends ContractDefinition, Args extend
 ): HandlersForContract<TContract, Args> {
   return handlers as HandlersForContract<TContract, Args>;
 }
+
+/**
+ * Define a reusable per-operation middleware
+ *
+ * Middleware run after request validation and before the operation's handler. Return nothing
+ * to continue, an object of fields to add to the request, or a response to short-circuit the
+ * handler. Returned fields are typed on the handler's request when the middleware is declared
+ * on the contract operation, and short-circuit responses are checked against the responses
+ * of every operation the middleware is attached to.
+ *
+ * @param middleware - The middleware function
+ * @returns The same middleware with its result type preserved
+ *
+ * @example
+ * ```typescript
+ * const requireUser = defineOperationMiddleware(async (request) => {
+ *   const user = await findUser(request.headers.get('authorization'));
+ *   if (!user) {
+ *     return request.respond({
+ *       status: 401,
+ *       contentType: 'application/json',
+ *       body: { error: 'Unauthorized' },
+ *     });
+ *   }
+ *   return { user };
+ * });
+ *
+ * const contract = createContract({
+ *   getProfile: {
+ *     path: '/me',
+ *     method: 'GET',
+ *     middleware: [requireUser],
+ *     responses: {
+ *       200: { 'application/json': { body: UserSchema } },
+ *       401: { 'application/json': { body: ErrorSchema } },
+ *     },
+ *   },
+ * });
+ *
+ * // request.user is typed in the getProfile handler
+ * ```
+ */
+export function defineOperationMiddleware<TResult, Args extends any[] = any[]>(
+  middleware: (request: ContractRequest<any>, ...args: Args) => TResult | Promise<TResult>
+): (request: ContractRequest<any>, ...args: Args) => TResult | Promise<TResult> {
+  return middleware;
+}
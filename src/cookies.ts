@@ -0,0 +1,73 @@
+import type { CookieOptions, SetCookieValue } from './types';
+
+/**
+ * Parse a Cookie header into a name -> value record
+ * Values are URI-decoded; the first occurrence of a cookie name wins.
+ *
+ * @example
+ * ```typescript
+ * parseCookies('session=abc; theme=dark'); // { session: 'abc', theme: 'dark' }
+ * ```
+ */
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) continue;
+    const name = pair.slice(0, separator).trim();
+    if (!name || name in cookies) continue;
+    let value = pair.slice(separator + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Serialize a cookie into a Set-Cookie header value
+ *
+ * @param name - The cookie name
+ * @param cookie - The cookie value, or `{ value, ...attributes }`
+ *
+ * @example
+ * ```typescript
+ * serializeCookie('session', { value: 'abc', httpOnly: true, maxAge: 3600 });
+ * // 'session=abc; Max-Age=3600; HttpOnly'
+ * ```
+ */
+export function serializeCookie(name: string, cookie: SetCookieValue<unknown>): string {
+  const { value, ...options }: { value: unknown } & CookieOptions =
+    cookie !== null && typeof cookie === 'object' && 'value' in cookie
+      ? (cookie as { value: unknown } & CookieOptions)
+      : { value: cookie };
+
+  let header = `${name}=${encodeURIComponent(String(value ?? ''))}`;
+  if (options.maxAge !== undefined) header += `; Max-Age=${Math.floor(options.maxAge)}`;
+  if (options.expires) header += `; Expires=${options.expires.toUTCString()}`;
+  if (options.domain) header += `; Domain=${options.domain}`;
+  if (options.path) header += `; Path=${options.path}`;
+  if (options.httpOnly) header += '; HttpOnly';
+  if (options.secure) header += '; Secure';
+  if (options.sameSite) header += `; SameSite=${options.sameSite}`;
+  if (options.partitioned) header += '; Partitioned';
+  return header;
+}
+
+/**
+ * Read the name -> value pairs from a response's Set-Cookie headers
+ */
+export function getSetCookies(headers: Headers): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const header of headers.getSetCookie()) {
+    Object.assign(cookies, parseCookies(header.split(';')[0]));
+  }
+  return cookies;
+}
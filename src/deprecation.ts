@@ -0,0 +1,84 @@
+import type { IRequest } from 'itty-router';
+import type { ContractOperation } from './types';
+
+/**
+ * Deprecation and sunset dates of an API version or operation
+ */
+export type Lifecycle = {
+  /** Deprecation date, or `true` when undated */
+  deprecated?: true | Date | string;
+  sunset?: Date | string;
+};
+
+/**
+ * Parse a lifecycle date, throwing for invalid dates
+ *
+ * @param value - A Date or a date string
+ * @param subject - What the date belongs to, for the error message (e.g. `API version "v1"`)
+ * @returns The parsed date
+ */
+export function parseLifecycleDate(value: Date | string, subject: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${String(value)}" for ${subject}`);
+  }
+  return date;
+}
+
+/**
+ * Build the `Deprecation` (RFC 9745, `true` when undated) and `Sunset` (RFC 8594) headers of a
+ * lifecycle
+ *
+ * @param lifecycle - The deprecation and sunset dates
+ * @param subject - What the dates belong to, for error messages
+ * @returns The headers to add to responses (empty when neither date is set)
+ */
+export function createDeprecationHeaders(
+  lifecycle: Lifecycle,
+  subject: string
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (lifecycle.deprecated === true) {
+    headers.deprecation = 'true';
+  } else if (lifecycle.deprecated !== undefined) {
+    const date = parseLifecycleDate(lifecycle.deprecated, subject);
+    headers.deprecation = `@${Math.floor(date.getTime() / 1000)}`;
+  }
+  if (lifecycle.sunset !== undefined) {
+    headers.sunset = parseLifecycleDate(lifecycle.sunset, subject).toUTCString();
+  }
+  return headers;
+}
+
+/**
+ * Get the lifecycle of a deprecated operation (an undated deprecation counts as `true`)
+ *
+ * @param operation - The contract operation
+ * @returns The lifecycle, or null when the operation is not deprecated
+ */
+export function getOperationLifecycle(operation: ContractOperation): Lifecycle | null {
+  if (!operation.deprecated) return null;
+  if (operation.deprecated === true) return { deprecated: true };
+  return { deprecated: operation.deprecated.since ?? true, sunset: operation.deprecated.sunset };
+}
+
+/**
+ * Get the deprecated parameters a request sends
+ * Query parameters match by name, including deep object keys (`filter[status]` for `filter`).
+ *
+ * @param operation - The contract operation
+ * @param request - The incoming request
+ * @returns The parameters, as `query.<name>` and `headers.<name>`
+ */
+export function getDeprecatedParameters(operation: ContractOperation, request: IRequest): string[] {
+  const { query = [], headers = [] } = operation.deprecatedParams ?? {};
+  if (query.length === 0 && headers.length === 0) return [];
+
+  const keys = [...new URL(request.url).searchParams.keys()];
+  return [
+    ...query
+      .filter((name) => keys.some((key) => key === name || key.startsWith(`${name}[`)))
+      .map((name) => `query.${name}`),
+    ...headers.filter((name) => request.headers.has(name)).map((name) => `headers.${name}`),
+  ];
+}
@@ -0,0 +1,185 @@
+import type { IRequest } from 'itty-router';
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { ContractError, ContractErrorLocation, ErrorFormat, ErrorFormatter } from './types';
+
+/**
+ * Reason phrases used as problem+json titles and default OpenAPI response descriptions
+ */
+const STATUS_TITLES: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  206: 'Partial Content',
+  301: 'Moved Permanently',
+  302: 'Found',
+  303: 'See Other',
+  304: 'Not Modified',
+  307: 'Temporary Redirect',
+  308: 'Permanent Redirect',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  406: 'Not Acceptable',
+  409: 'Conflict',
+  410: 'Gone',
+  413: 'Content Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+/**
+ * Get the reason phrase for an HTTP status code
+ */
+export function getStatusTitle(status: number): string {
+  if (STATUS_TITLES[status]) return STATUS_TITLES[status];
+  if (status >= 500) return 'Server Error';
+  if (status >= 400) return 'Client Error';
+  return status >= 300 ? 'Redirection' : 'Success';
+}
+
+/**
+ * Normalize a thrown value into a ContractError
+ *
+ * Validation errors (errors with an `issues` array) default to 400, other errors use their
+ * `status` property or 500.
+ */
+export function toContractError(err: unknown): ContractError {
+  const status =
+    err && typeof err === 'object' && 'status' in err && typeof err.status === 'number'
+      ? err.status
+      : undefined;
+
+  if (err instanceof Error && 'issues' in err) {
+    const issues = (err as Error & { issues: unknown }).issues;
+    const location = (err as Error & { location?: ContractErrorLocation }).location;
+    return {
+      status: status ?? 400,
+      message: err.message || 'Validation failed',
+      issues: (Array.isArray(issues) ? issues : [issues]) as StandardSchemaV1.Issue[],
+      ...(location && { location }),
+      cause: err,
+    };
+  }
+
+  const headers =
+    err && typeof err === 'object' && 'headers' in err && !(err instanceof Response)
+      ? (err.headers as HeadersInit)
+      : undefined;
+  return {
+    status: status ?? 500,
+    message: err instanceof Error ? err.message : 'Internal server error',
+    ...(headers && { headers }),
+    cause: err,
+  };
+}
+
+/**
+ * Build an RFC 6901 JSON pointer (as a URI fragment) for a validation issue
+ * e.g. `{ path: ['items', 0, 'name'] }` in the body -> `#/body/items/0/name`
+ */
+export function getIssuePointer(
+  issue: StandardSchemaV1.Issue,
+  location?: ContractErrorLocation
+): string {
+  const segments = (issue.path ?? []).map((segment) =>
+    typeof segment === 'object' && segment !== null ? segment.key : segment
+  );
+  const path = [...(location ? [location] : []), ...segments];
+  return (
+    '#' +
+    path.map((segment) => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('')
+  );
+}
+
+/**
+ * Legacy error formatter - `{ error, details }` JSON
+ * Validation errors list the raw Standard Schema issues, other errors a single `{ message }`.
+ */
+export const legacyErrorFormatter: ErrorFormatter = {
+  contentType: 'application/json',
+  name: 'Error',
+  format: (error) => ({
+    error: error.message,
+    details: error.issues ?? [{ message: error.message }],
+  }),
+  schema: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      details: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            path: { type: 'array', items: {} },
+          },
+          required: ['message'],
+        },
+      },
+    },
+    required: ['error', 'details'],
+  },
+};
+
+/**
+ * RFC 9457 problem details formatter (`application/problem+json`)
+ * Validation issues are listed in an `errors` extension member with JSON pointers.
+ */
+export const problemJsonErrorFormatter: ErrorFormatter = {
+  contentType: 'application/problem+json',
+  name: 'ProblemDetails',
+  format: (error, request: IRequest) => ({
+    type: 'about:blank',
+    title: getStatusTitle(error.status),
+    status: error.status,
+    detail: error.message,
+    instance: new URL(request.url).pathname,
+    ...(error.issues && {
+      errors: error.issues.map((issue) => ({
+        detail: issue.message,
+        pointer: getIssuePointer(issue, error.location),
+      })),
+    }),
+  }),
+  schema: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', format: 'uri-reference' },
+      title: { type: 'string' },
+      status: { type: 'integer' },
+      detail: { type: 'string' },
+      instance: { type: 'string', format: 'uri-reference' },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            detail: { type: 'string' },
+            pointer: { type: 'string' },
+          },
+          required: ['detail'],
+        },
+      },
+    },
+    required: ['type', 'title', 'status'],
+  },
+};
+
+/**
+ * Resolve an error format option to its formatter
+ */
+export function resolveErrorFormatter(format: ErrorFormat = 'legacy'): ErrorFormatter {
+  if (format === 'legacy') return legacyErrorFormatter;
+  if (format === 'problem+json') return problemJsonErrorFormatter;
+  return format;
+}
@@ -1,4 +1,14 @@
 export * from './types';
 export * from './router';
 export * from './contract';
+export * from './client';
+export * from './codecs';
+export * from './errors';
+export * from './security';
+export * from './versioning';
+export * from './webhooks';
+export * from './cookies';
+export * from './streaming';
+export * from './mock';
+export * from './testing';
 export * from './openapi';
@@ -0,0 +1,245 @@
+import { compileParamSegment, expandOptionalSegments, parsePathPattern } from './path';
+import type { PathSegment } from './path';
+
+/**
+ * Result of matching a request path against the registered routes
+ */
+export type RouteMatch<T> = {
+  value: T;
+  params: Record<string, string>;
+};
+
+/**
+ * A route registered on a trie node for one HTTP method
+ */
+type RouteEntry<T> = {
+  value: T;
+  /** Registration order - the earliest registered matching route wins */
+  order: number;
+  /**
+   * One slot per dynamic segment on the route's path: the param name for captured segments,
+   * null for segments whose params come from named regex groups or that are not captured
+   */
+  captures: (string | null)[];
+};
+
+/**
+ * Value captured by a dynamic segment while walking the trie
+ */
+type Capture = string | Record<string, string>;
+
+/**
+ * Trie node - one per path segment
+ */
+type RouteNode<T> = {
+  children: Map<string, RouteNode<T>>;
+  /** Plain `:name` segments (shared whatever the param is called) */
+  param?: RouteNode<T>;
+  /** Constrained or mixed segments (`:id(\\d+)`, `v:version`) keyed by their source */
+  patterns: Map<string, { regex: RegExp; node: RouteNode<T> }>;
+  /** Wildcards (`*`, `:name+`) keyed by the minimum number of segments they match */
+  rest: Map<number, RouteNode<T>>;
+  routes: Map<string, RouteEntry<T>>;
+};
+
+function createNode<T>(): RouteNode<T> {
+  return { children: new Map(), patterns: new Map(), rest: new Map(), routes: new Map() };
+}
+
+/**
+ * Split a path into its non-empty segments
+ */
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/**
+ * Precompiled path matcher
+ *
+ * Routes are stored in a segment trie, so a request path is split once and resolved - together
+ * with its params - in a single walk instead of testing every route in turn. The full contract
+ * path grammar is supported (see parsePathPattern): optional segments are registered as one
+ * route per variant, constrained and mixed segments are tested with a compiled regex, and
+ * wildcards match the rest of the path. When several routes match, the one registered first
+ * wins, which keeps the behaviour of a linear scan over the contract.
+ *
+ * @example
+ * ```typescript
+ * const matcher = new RouteMatcher<string>();
+ * matcher.add('GET', '/users/:id', 'getUser');
+ * matcher.match('GET', '/users/42'); // { value: 'getUser', params: { id: '42' } }
+ * ```
+ */
+export class RouteMatcher<T> {
+  private root: RouteNode<T> = createNode();
+  private size = 0;
+
+  /**
+   * Register a route
+   * A route registered again for the same method and path shape is ignored.
+   */
+  add(method: string, pattern: string, value: T): this {
+    const order = this.size++;
+    for (const segments of expandOptionalSegments(parsePathPattern(pattern))) {
+      this.addVariant(method.toUpperCase(), segments, value, order);
+    }
+    return this;
+  }
+
+  private addVariant(method: string, segments: PathSegment[], value: T, order: number): void {
+    let node = this.root;
+    const captures: (string | null)[] = [];
+    for (const segment of segments) {
+      if (segment.type === 'static') {
+        let child = node.children.get(segment.value);
+        if (!child) {
+          child = createNode();
+          node.children.set(segment.value, child);
+        }
+        node = child;
+      } else if (segment.type === 'rest') {
+        const min = segment.name ? 1 : 0;
+        let child = node.rest.get(min);
+        if (!child) {
+          child = createNode();
+          node.rest.set(min, child);
+        }
+        captures.push(segment.name ?? null);
+        node = child;
+      } else if (
+        segment.parts.length === 1 &&
+        typeof segment.parts[0] !== 'string' &&
+        segment.parts[0].pattern === undefined
+      ) {
+        captures.push(segment.parts[0].name);
+        node = node.param ??= createNode();
+      } else {
+        node = this.addPattern(node, segment, captures);
+      }
+    }
+
+    if (!node.routes.has(method)) {
+      node.routes.set(method, { value, order, captures });
+    }
+  }
+
+  private addPattern(
+    node: RouteNode<T>,
+    segment: Extract<PathSegment, { type: 'param' }>,
+    captures: (string | null)[]
+  ): RouteNode<T> {
+    const regex = compileParamSegment(segment);
+    let edge = node.patterns.get(regex.source);
+    if (!edge) {
+      edge = { regex, node: createNode() };
+      node.patterns.set(regex.source, edge);
+    }
+    captures.push(null);
+    return edge.node;
+  }
+
+  /**
+   * Find the route for a method and pathname, extracting its params
+   * Returns null when no route matches.
+   */
+  match(method: string, pathname: string): RouteMatch<T> | null {
+    const key = method.toUpperCase();
+    let best: { entry: RouteEntry<T>; values: Capture[] } | undefined;
+    this.walk(pathname, (node, values) => {
+      const entry = node.routes.get(key);
+      if (entry && (!best || entry.order < best.entry.order)) {
+        best = { entry, values: [...values] };
+      }
+    });
+
+    if (!best) return null;
+    const params: Record<string, string> = {};
+    best.entry.captures.forEach((name, i) => {
+      const value = best!.values[i];
+      if (typeof value === 'string') {
+        if (name) params[name] = value;
+      } else {
+        for (const [groupName, groupValue] of Object.entries(value)) {
+          if (groupValue !== undefined) params[groupName] = groupValue;
+        }
+      }
+    });
+    return { value: best.entry.value, params };
+  }
+
+  /**
+   * Get the methods of every route matching a pathname, in registration order
+   * Returns an empty list when no route matches the path.
+   */
+  methods(pathname: string): string[] {
+    const entries: [method: string, order: number][] = [];
+    this.walk(pathname, (node) => {
+      for (const [method, entry] of node.routes) entries.push([method, entry.order]);
+    });
+    return [...new Set(entries.sort((a, b) => a[1] - b[1]).map(([method]) => method))];
+  }
+
+  /**
+   * Walk the trie along a pathname, visiting every node that completes a match
+   * with the values captured on the way
+   */
+  private walk(pathname: string, visit: (node: RouteNode<T>, values: Capture[]) => void): void {
+    const segments = splitPath(pathname);
+    const values: Capture[] = [];
+    const accept = (node: RouteNode<T>): void => visit(node, values);
+
+    const step = (node: RouteNode<T>, index: number): void => {
+      for (const [min, child] of node.rest) {
+        if (segments.length - index >= min) {
+          values.push(segments.slice(index).join('/'));
+          accept(child);
+          values.pop();
+        }
+      }
+
+      if (index === segments.length) {
+        accept(node);
+        return;
+      }
+
+      const segment = segments[index];
+      const child = node.children.get(segment);
+      if (child) step(child, index + 1);
+
+      for (const { regex, node: patternNode } of node.patterns.values()) {
+        const groups = regex.exec(segment)?.groups;
+        if (groups) {
+          values.push(groups);
+          step(patternNode, index + 1);
+          values.pop();
+        }
+      }
+
+      if (node.param) {
+        values.push(segment);
+        step(node.param, index + 1);
+        values.pop();
+      }
+    };
+    step(this.root, 0);
+  }
+}
+
+/**
+ * Single-route matchers, compiled once per path pattern
+ */
+const patternMatchers = new Map<string, RouteMatcher<string>>();
+
+/**
+ * Match a pathname against a single path pattern (e.g. "/users/:id", "/files/:path+")
+ *
+ * @returns The extracted params, or null when the pathname does not match
+ */
+export function matchPathPattern(pattern: string, pathname: string): Record<string, string> | null {
+  let matcher = patternMatchers.get(pattern);
+  if (!matcher) {
+    matcher = new RouteMatcher<string>().add('*', pattern, pattern);
+    patternMatchers.set(pattern, matcher);
+  }
+  return matcher.match('*', pathname)?.params ?? null;
+}
@@ -1,6 +1,14 @@
 export * from './withMatchingContractOperation.js';
+export * from './withContentNegotiation.js';
 export * from './withSpecValidation.js';
 export * from './withResponseHelpers.js';
 export * from './withContractFormat.js';
 export * from './withContractErrorHandler.js';
 export * from './withMissingHandler.js';
+export * from './withResponseValidation.js';
+export * from './withSecurity.js';
+export * from './withAllowedMethods.js';
+export * from './withCors.js';
+export * from './withHeadResponse.js';
+export * from './withVersionHeaders.js';
+export * from './withDeprecation.js';
@@ -1,6 +1,7 @@
 import type { IRequest } from 'itty-router';
 import type { StandardSchemaV1 } from '@standard-schema/spec';
 import { validateSchema } from '../utils.js';
+import { matchPathPattern } from '../matcher.js';
 
 /**
  * Normalize headers to Record<string, string> with lowercase keys
@@ -34,58 +35,27 @@ export function normalizeHeaders(headers: unknown): Record<string, string> {
  * Supports patterns like "/users/:id" matching "/users/123"
  */
 export function matchesPathPattern(pattern: string, pathname: string): boolean {
-  const patternSegments = pattern.split('/').filter(Boolean);
-  const pathSegments = pathname.split('/').filter(Boolean);
-
-  if (patternSegments.length !== pathSegments.length) {
-    return false;
-  }
-
-  for (let i = 0; i < patternSegments.length; i++) {
-    const patternSegment = patternSegments[i];
-    const pathSegment = pathSegments[i];
-
-    // If pattern segment is a param (starts with :), it matches any value
-    if (patternSegment.startsWith(':')) {
-      continue;
-    }
-
-    // Otherwise, segments must match exactly
-    if (patternSegment !== pathSegment) {
-      return false;
-    }
-  }
-
-  return true;
+  return matchPathPattern(pattern, pathname) !== null;
 }
 
 /**
  * Extract path parameters from URL path using the operation's path pattern
+ * Returns an empty object when the URL does not match the pattern.
  */
 export function extractPathParamsFromUrl(pathPattern: string, url: string): Record<string, string> {
-  const params: Record<string, string> = {};
-  const patternSegments = pathPattern.split('/').filter(Boolean);
-  const pathSegments = new URL(url).pathname.split('/').filter(Boolean);
-  for (let i = 0; i < patternSegments.length; i++) {
-    const segment = patternSegments[i];
-    if (segment.startsWith(':') && i < pathSegments.length) {
-      params[segment.slice(1)] = pathSegments[i];
-    }
-  }
-  return params;
+  return matchPathPattern(pathPattern, new URL(url).pathname) ?? {};
 }
 
 /**
  * Extract query parameters from URL query string
+ * Repeated keys are collected into arrays, e.g. "?tag=a&tag=b" -> { tag: ['a', 'b'] }
  */
-export function extractQueryParamsFromUrl(url: string): Record<string, unknown> {
-  const query: Record<string, unknown> = {};
+export function extractQueryParamsFromUrl(url: string): Record<string, string | string[]> {
   try {
-    new URL(url).searchParams.forEach((value, key) => {
-      query[key] = value;
-    });
-  } catch {}
-  return query;
+    return formEntriesToObject(new URL(url).searchParams);
+  } catch {
+    return {};
+  }
 }
 
 /**
@@ -98,6 +68,104 @@ export function getContentType(request: IRequest): string | null {
   return contentType.split(';')[0].trim().toLowerCase();
 }
 
+/**
+ * Parsed media range from an Accept header
+ */
+export type AcceptMediaRange = {
+  type: string;
+  subtype: string;
+  q: number;
+};
+
+/**
+ * Parse an Accept header into media ranges with their q-values
+ * e.g., "text/html, application/json;q=0.9" -> [{ type: 'text', subtype: 'html', q: 1 }, ...]
+ * Malformed ranges are ignored.
+ */
+export function parseAcceptHeader(accept: string): AcceptMediaRange[] {
+  const ranges: AcceptMediaRange[] = [];
+  for (const part of accept.split(',')) {
+    const [mediaType, ...params] = part.split(';').map((p) => p.trim());
+    const [type, subtype] = mediaType.toLowerCase().split('/');
+    if (!type || !subtype) continue;
+
+    let q = 1;
+    for (const param of params) {
+      const [name, value] = param.split('=').map((p) => p.trim());
+      if (name.toLowerCase() === 'q') {
+        const parsed = Number(value);
+        q = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      }
+    }
+    ranges.push({ type, subtype, q });
+  }
+  return ranges;
+}
+
+/**
+ * Pick the best content type from a list of candidates given an Accept header
+ *
+ * Each candidate is scored with the q-value of the most specific matching media range
+ * (exact match > type/* > *\/*). The highest score wins; ties keep candidate order.
+ * Returns null when no candidate is acceptable.
+ */
+export function negotiateContentType(
+  accept: string | null | undefined,
+  candidates: string[]
+): string | null {
+  if (candidates.length === 0) return null;
+  if (!accept || !accept.trim()) return candidates[0];
+
+  const ranges = parseAcceptHeader(accept);
+  if (ranges.length === 0) return candidates[0];
+
+  let best: string | null = null;
+  let bestQ = 0;
+  for (const candidate of candidates) {
+    const [type, subtype] = candidate.split(';')[0].trim().toLowerCase().split('/');
+    let specificity = -1;
+    let q = 0;
+    for (const range of ranges) {
+      const rangeSpecificity =
+        range.type === type && range.subtype === subtype
+          ? 2
+          : range.type === type && range.subtype === '*'
+            ? 1
+            : range.type === '*' && range.subtype === '*'
+              ? 0
+              : -1;
+      if (rangeSpecificity > specificity) {
+        specificity = rangeSpecificity;
+        q = range.q;
+      }
+    }
+    if (specificity >= 0 && q > bestQ) {
+      best = candidate;
+      bestQ = q;
+    }
+  }
+  return best;
+}
+
+/**
+ * Convert form entries (FormData or URLSearchParams) into a plain object
+ * Repeated keys are collected into arrays, e.g. "tag=a&tag=b" -> { tag: ['a', 'b'] }
+ */
+export function formEntriesToObject<T extends FormDataEntryValue>(
+  entries: Iterable<[string, T]>
+): Record<string, T | T[]> {
+  const result: Record<string, T | T[]> = {};
+  for (const [key, value] of entries) {
+    const existing = result[key];
+    if (existing === undefined) {
+      result[key] = value;
+    } else {
+      result[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+  return result;
+}
+
 /**
  * Parse body data based on content type
  */
@@ -0,0 +1,82 @@
+import type { IRequest, RequestHandler } from 'itty-router';
+import { StatusError } from 'itty-router';
+import type {
+  ContractAugmentedRequest,
+  ContractOperation,
+  CorsOptions,
+  SecuritySchemeRegistry,
+  VersioningOptions,
+} from '../types.js';
+import { createContractMatcherResolver } from './withMatchingContractOperation.js';
+import {
+  createPreflightHeaders,
+  getAllowedRequestHeaders,
+  resolveCorsOptions,
+} from './withCors.js';
+
+/**
+ * Middleware factory: Answers requests whose path is declared but whose method is not
+ *
+ * Runs after withMatchingContractOperation, for requests without a matched operation:
+ * - OPTIONS is answered with 204 and an `Allow` header computed from the contract (HEAD is
+ *   allowed wherever GET is, OPTIONS everywhere). CORS preflights (with an Origin and an
+ *   Access-Control-Request-Method header) also get the CORS headers when `cors` is enabled.
+ * - Any other method is rejected with 405 Method Not Allowed and an `Allow` header.
+ *
+ * Requests whose path matches no operation are left to the missing handler (404). With
+ * versioning, only the operations of the version the request asks for are considered.
+ *
+ * @param contract - The contract definition containing all operations
+ * @param base - Optional base path to strip from the URL
+ * @param cors - Optional CORS configuration used to answer preflight requests
+ * @param versioning - Optional versioning configuration
+ * @param securitySchemes - Security schemes whose headers preflights allow
+ * @returns A middleware function answering OPTIONS and rejecting undeclared methods
+ */
+export function withAllowedMethods<TContract extends Record<string, ContractOperation>>(
+  contract: TContract,
+  base?: string,
+  cors?: boolean | CorsOptions,
+  versioning?: VersioningOptions,
+  securitySchemes?: SecuritySchemeRegistry
+): RequestHandler<IRequest> {
+  const resolveMatcher = createContractMatcherResolver(contract, versioning);
+  const corsOptions = resolveCorsOptions(cors);
+
+  return async (request: IRequest) => {
+    if ((request as ContractAugmentedRequest).__contractOperation) return;
+
+    const { matcher, pathname } = resolveMatcher(
+      request,
+      new URL(request.url).pathname.slice(base?.length || 0)
+    );
+    const declared = matcher.methods(pathname);
+    if (declared.length === 0) return;
+
+    const allowed = [...declared];
+    if (declared.includes('GET') && !declared.includes('HEAD')) allowed.push('HEAD');
+    if (!declared.includes('OPTIONS')) allowed.push('OPTIONS');
+    const allow = allowed.join(', ');
+
+    if (request.method !== 'OPTIONS') {
+      const error = new StatusError(405, 'Method Not Allowed');
+      (error as any).headers = { allow };
+      throw error;
+    }
+
+    const headers = new Headers({ allow });
+    const origin = request.headers.get('origin');
+    const requestedMethod = request.headers.get('access-control-request-method');
+    if (corsOptions && origin && requestedMethod) {
+      const operation = matcher.match(requestedMethod, pathname)?.value;
+      const preflight = createPreflightHeaders(
+        corsOptions,
+        origin,
+        allowed,
+        operation ? await getAllowedRequestHeaders(operation, securitySchemes) : []
+      );
+      preflight?.forEach((value, key) => headers.set(key, value));
+    }
+    return new Response(null, { status: 204, headers });
+  };
+}
@@ -0,0 +1,49 @@
+import type { IRequest, RequestHandler } from 'itty-router';
+import { StatusError } from 'itty-router';
+import type { ContractAugmentedRequest, ContractOperation } from '../types.js';
+import { defineProp } from '../utils.js';
+import { negotiateContentType } from './utils.js';
+
+/**
+ * Global middleware: Negotiates the response content type from the Accept header
+ *
+ * Picks the best match among the operation's declared response content types and exposes
+ * it as `request.preferredContentType`. When the request accepts none of them, a 406 error
+ * is thrown. This reads from __contractOperation set by withMatchingContractOperation.
+ */
+export const withContentNegotiation: RequestHandler<IRequest> = (request: IRequest) => {
+  const operation = (request as ContractAugmentedRequest).__contractOperation;
+  if (!operation) return;
+
+  const candidates = getResponseContentTypes(operation);
+  if (candidates.length === 0) return;
+
+  const preferred = negotiateContentType(request.headers.get('accept'), candidates);
+  if (!preferred) {
+    throw new StatusError(406, `Not Acceptable. Supported types: ${candidates.join(', ')}`);
+  }
+
+  defineProp(request, 'preferredContentType', preferred);
+};
+
+/**
+ * Collect the response content types declared by an operation, in declaration order.
+ * Status codes are visited in ascending order so success responses are preferred,
+ * with `default` last.
+ */
+export function getResponseContentTypes(operation: ContractOperation): string[] {
+  const responses = operation.responses as Record<string, Record<string, unknown> | undefined>;
+  const statuses = Object.keys(responses).sort((a, b) => {
+    if (a === 'default') return 1;
+    if (b === 'default') return -1;
+    return Number(a) - Number(b);
+  });
+
+  const contentTypes = new Set<string>();
+  for (const status of statuses) {
+    const byContentType = responses[status];
+    if (!byContentType || typeof byContentType !== 'object') continue;
+    for (const contentType of Object.keys(byContentType)) contentTypes.add(contentType);
+  }
+  return [...contentTypes];
+}
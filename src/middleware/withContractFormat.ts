@@ -1,5 +1,8 @@
 import type { IRequest, ResponseHandler } from 'itty-router';
 import { json } from 'itty-router';
+import type { CodecRegistry } from '../types.js';
+import { resolveCodec } from '../codecs.js';
+import { isAsyncIterable, isEventStream, serializeStream } from '../streaming.js';
 
 /**
  * Contract-aware response formatter middleware
@@ -9,10 +12,13 @@ import { json } from 'itty-router';
  *
  * Handles three response types:
  * 1. Already a Response object - returns as-is
- * 2. Contract response object ({ status, body?, headers? }) - converts to Response
+ * 2. Contract response object ({ status, body?, headers? }) - converts to Response,
+ *    serializing the body with the codec registered for its content type (ReadableStream
+ *    bodies are sent as-is, async iterables are streamed as SSE events or NDJSON lines)
  * 3. Other values - falls back to default JSON formatter
  *
  * @param customFormatter - Optional custom formatter to use as fallback instead of default JSON formatter
+ * @param codecs - Optional body codecs keyed by media type
  * @returns A ResponseHandler that formats contract responses
  *
  * @example
@@ -24,8 +30,11 @@ import { json } from 'itty-router';
  * });
  * ```
  */
-export function withContractFormat(customFormatter?: ResponseHandler): ResponseHandler {
-  return (response: unknown, request: unknown): Response => {
+export function withContractFormat(
+  customFormatter?: ResponseHandler,
+  codecs?: CodecRegistry
+): ResponseHandler {
+  return (response: unknown, request: unknown): Response | Promise<Response> => {
     if (response instanceof Response) return response;
     if (response && typeof response === 'object' && 'status' in response) {
       const { status, body, headers } = response as {
@@ -43,11 +52,31 @@ export function withContractFormat(customFormatter?: ResponseHandler): ResponseH
       // Get content-type after potentially setting default
       const contentType = responseHeaders.get('content-type') || '';
 
-      // Serialize body appropriately based on content type
-      let responseBody: BodyInit | null = null;
       if (body === undefined || body === null || status === 204) {
-        responseBody = null;
-      } else if (
+        return new Response(null, { status, headers: responseHeaders });
+      }
+
+      // Streamed bodies: raw streams pass through, async iterables are serialized item by item
+      if (body instanceof ReadableStream || isAsyncIterable(body)) {
+        if (isEventStream(contentType) && !responseHeaders.has('cache-control')) {
+          responseHeaders.set('cache-control', 'no-cache');
+        }
+        const stream = body instanceof ReadableStream ? body : serializeStream(body, contentType);
+        return new Response(stream, { status, headers: responseHeaders });
+      }
+
+      // Serialize with a registered codec when one matches the content type
+      const codec = resolveCodec(codecs, contentType);
+      if (codec?.serialize) {
+        const serialized = codec.serialize(body);
+        return serialized instanceof Promise
+          ? serialized.then((b) => new Response(b, { status, headers: responseHeaders }))
+          : new Response(serialized, { status, headers: responseHeaders });
+      }
+
+      // Serialize body appropriately based on content type
+      let responseBody: BodyInit;
+      if (
         typeof body === 'string' &&
         (contentType.startsWith('text/') || contentType.includes('html'))
       ) {
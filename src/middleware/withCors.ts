@@ -0,0 +1,142 @@
+import type { IRequest, ResponseHandler } from 'itty-router';
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { ContractOperation, CorsOptions, SecuritySchemeRegistry } from '../types.js';
+import { extractSchemaAsync } from '../openapi/vendors/index.js';
+
+/**
+ * Header names declared by headers schemas, extracted once per schema
+ */
+const declaredHeaderNames = new WeakMap<StandardSchemaV1, Promise<string[]>>();
+
+/**
+ * Normalize the `cors` router option - `true` allows any origin, `false`/undefined disables CORS
+ */
+export function resolveCorsOptions(cors: boolean | CorsOptions | undefined): CorsOptions | null {
+  if (!cors) return null;
+  return cors === true ? {} : cors;
+}
+
+/**
+ * Resolve the Access-Control-Allow-Origin value for a request origin
+ * Returns null when the origin is not allowed.
+ */
+export function resolveAllowedOrigin(cors: CorsOptions, origin: string): string | null {
+  const { origin: allowed = '*' } = cors;
+  const isAllowed =
+    typeof allowed === 'function'
+      ? allowed(origin)
+      : allowed === '*' || (Array.isArray(allowed) ? allowed : [allowed]).includes(origin);
+  if (!isAllowed) return null;
+  return allowed === '*' && !cors.credentials ? '*' : origin;
+}
+
+/**
+ * Get the request headers a browser may send for an operation: the keys of its headers schema,
+ * `content-type` when it accepts a body and the headers of the security schemes it requires
+ * (`authorization` for http schemes, the header name for header API keys)
+ */
+export async function getAllowedRequestHeaders(
+  operation: ContractOperation,
+  securitySchemes: SecuritySchemeRegistry = {}
+): Promise<string[]> {
+  const names = new Set<string>();
+  if (operation.requests && Object.keys(operation.requests).length > 0) names.add('content-type');
+  for (const requirement of operation.security ?? []) {
+    for (const schemeName of Object.keys(requirement)) {
+      const scheme = securitySchemes[schemeName];
+      if (!scheme) continue;
+      if (scheme.type !== 'apiKey') names.add('authorization');
+      else if (scheme.in === 'header') names.add(scheme.name.toLowerCase());
+    }
+  }
+
+  if (operation.headers) {
+    let declared = declaredHeaderNames.get(operation.headers);
+    if (!declared) {
+      declared = extractSchemaAsync(operation.headers)
+        .then(({ schema }) =>
+          Object.keys(schema.properties ?? {}).map((name) => name.toLowerCase())
+        )
+        .catch(() => []);
+      declaredHeaderNames.set(operation.headers, declared);
+    }
+    for (const name of await declared) names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Build the CORS headers of a preflight response
+ * Returns null when the request origin is not allowed.
+ *
+ * @param cors - The CORS options
+ * @param origin - The request's Origin header
+ * @param methods - The methods allowed for the path
+ * @param headers - The request headers allowed for the operation
+ */
+export function createPreflightHeaders(
+  cors: CorsOptions,
+  origin: string,
+  methods: string[],
+  headers: string[]
+): Headers | null {
+  const allowedOrigin = resolveAllowedOrigin(cors, origin);
+  if (!allowedOrigin) return null;
+
+  const preflight = new Headers({
+    'access-control-allow-origin': allowedOrigin,
+    'access-control-allow-methods': methods.join(', '),
+  });
+  const allowHeaders = [...new Set([...headers, ...(cors.allowHeaders ?? [])])];
+  if (allowHeaders.length > 0) {
+    preflight.set('access-control-allow-headers', allowHeaders.join(', '));
+  }
+  if (cors.credentials) preflight.set('access-control-allow-credentials', 'true');
+  if (cors.maxAge !== undefined) preflight.set('access-control-max-age', String(cors.maxAge));
+  if (allowedOrigin !== '*') preflight.set('vary', 'Origin');
+  return preflight;
+}
+
+/**
+ * CORS response middleware factory
+ *
+ * Adds Access-Control-Allow-Origin (and the credentials and expose headers) to responses for
+ * cross-origin requests from allowed origins, including error responses. Preflight requests
+ * are answered by withAllowedMethods. This middleware should be used in the `finally` array
+ * after `withContractFormat`.
+ *
+ * @param cors - `true` to allow any origin, CorsOptions, or false/undefined to disable CORS
+ * @returns A ResponseHandler that adds CORS headers
+ *
+ * @example
+ * ```typescript
+ * const router = Router({
+ *   finally: [withContractFormat(), withCors({ origin: ['https://app.example.com'] })],
+ * });
+ * ```
+ */
+export function withCors(cors?: boolean | CorsOptions): ResponseHandler {
+  const options = resolveCorsOptions(cors);
+
+  return (response: unknown, request: IRequest) => {
+    if (!options || !(response instanceof Response)) return;
+    const origin = request.headers.get('origin');
+    if (!origin || response.headers.has('access-control-allow-origin')) return;
+
+    const allowedOrigin = resolveAllowedOrigin(options, origin);
+    if (!allowedOrigin) return;
+
+    const headers = new Headers(response.headers);
+    headers.set('access-control-allow-origin', allowedOrigin);
+    if (options.credentials) headers.set('access-control-allow-credentials', 'true');
+    if (options.exposeHeaders?.length) {
+      headers.set('access-control-expose-headers', options.exposeHeaders.join(', '));
+    }
+    if (allowedOrigin !== '*') headers.append('vary', 'Origin');
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
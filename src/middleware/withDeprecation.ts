@@ -0,0 +1,153 @@
+import type { IRequest, RequestHandler, ResponseHandler } from 'itty-router';
+import type {
+  ContractAugmentedRequest,
+  ContractOperation,
+  DeprecatedUsage,
+  VersioningOptions,
+} from '../types.js';
+import {
+  createDeprecationHeaders,
+  getDeprecatedParameters,
+  getOperationLifecycle,
+} from '../deprecation.js';
+import { buildPath } from '../path.js';
+import { getVersionNames, resolveVersioning } from '../versioning.js';
+
+/**
+ * Middleware factory: Reports requests using deprecated operations or parameters
+ * This should be added to the router's `before` array after withMatchingContractOperation.
+ *
+ * @param contract - The contract definition containing all operations
+ * @param onDeprecated - Hook called with the usage (e.g. to log a warning)
+ * @returns A middleware function calling the hook for deprecated usage
+ */
+export function withDeprecationWarnings<TContract extends Record<string, ContractOperation>>(
+  contract: TContract,
+  onDeprecated?: (usage: DeprecatedUsage) => void
+): RequestHandler<IRequest> {
+  const keys = new Map<ContractOperation, string>(
+    Object.entries(contract).map(([key, operation]) => [operation, key])
+  );
+
+  return (request: IRequest) => {
+    const operation = (request as ContractAugmentedRequest).__contractOperation;
+    if (!onDeprecated || !operation) return;
+
+    const parameters = getDeprecatedParameters(operation, request);
+    if (!operation.deprecated && parameters.length === 0) return;
+    onDeprecated({
+      operation: keys.get(operation) ?? operation.operationId ?? operation.path,
+      deprecated: !!operation.deprecated,
+      parameters,
+      request,
+    });
+  };
+}
+
+/**
+ * Deprecated operation response middleware factory
+ *
+ * Adds `Deprecation` and `Sunset` headers to the responses of deprecated operations (taking
+ * precedence over those of a deprecated API version), and a `Link` header with
+ * `rel="successor-version"` pointing at the replacement operation when its path params can be
+ * filled from the request. With the `path` versioning strategy, the link carries the version
+ * prefix: the version of the request when the replacement is served in it, otherwise the latest
+ * version serving the replacement. Throws when an operation is replaced by an unknown operation.
+ * This middleware should be used in the `finally` array after `withContractFormat`.
+ *
+ * @param contract - The contract definition containing all operations
+ * @param base - Optional base path prepended to replacement links
+ * @param versioning - Optional versioning configuration
+ * @returns A ResponseHandler that adds deprecation headers
+ */
+export function withDeprecationHeaders<TContract extends Record<string, ContractOperation>>(
+  contract: TContract,
+  base?: string,
+  versioning?: VersioningOptions
+): ResponseHandler {
+  const resolved = versioning && resolveVersioning(versioning);
+  const pathVersioning = !!resolved?.strategies.includes('path');
+  const deprecated = new Map<
+    ContractOperation,
+    {
+      headers: Record<string, string>;
+      replacement?: ContractOperation;
+      /** Versions serving the replacement, when links carry a version prefix */
+      replacementVersions?: string[];
+    }
+  >();
+  for (const [key, operation] of Object.entries(contract)) {
+    const lifecycle = getOperationLifecycle(operation);
+    if (!lifecycle) continue;
+
+    const subject = `operation "${key}"`;
+    const replacementKey =
+      operation.deprecated === true ? undefined : operation.deprecated?.replacement;
+    const replacement = replacementKey === undefined ? undefined : contract[replacementKey];
+    if (replacementKey !== undefined && !replacement) {
+      throw new Error(`Operation "${key}" is replaced by unknown operation "${replacementKey}"`);
+    }
+    deprecated.set(operation, {
+      headers: createDeprecationHeaders(lifecycle, subject),
+      replacement,
+      replacementVersions:
+        replacement && pathVersioning
+          ? getVersionNames(replacement.versions, resolved!)
+          : undefined,
+    });
+  }
+
+  return (response: unknown, request: IRequest) => {
+    const operation = (request as ContractAugmentedRequest).__contractOperation;
+    const entry = operation && deprecated.get(operation);
+    if (!entry || !(response instanceof Response)) return;
+
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(entry.headers)) headers.set(name, value);
+    const prefix = getVersionPrefix(entry.replacementVersions, request);
+    if (entry.replacement && prefix !== null) {
+      try {
+        const path = buildPath(
+          entry.replacement.path,
+          decodeParams((request as ContractAugmentedRequest).__contractParams ?? {})
+        );
+        headers.append('link', `<${base || ''}${prefix}${path}>; rel="successor-version"`);
+      } catch {
+        // The replacement needs path params the request does not have - leave the link out
+      }
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Get the version prefix of a replacement link
+ * Returns null when the replacement is served in no version.
+ */
+function getVersionPrefix(versions: string[] | undefined, request: IRequest): string | null {
+  if (!versions) return '';
+  const current = (request as ContractAugmentedRequest).__contractVersion?.name;
+  const version =
+    current !== undefined && versions.includes(current) ? current : versions[versions.length - 1];
+  return version === undefined ? null : `/${version}`;
+}
+
+/**
+ * Decode the path params matched from the URL (buildPath encodes them again)
+ * Values that are not valid percent-encoding are kept as-is.
+ */
+function decodeParams(params: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => {
+      try {
+        return [name, decodeURIComponent(value)];
+      } catch {
+        return [name, value];
+      }
+    })
+  );
+}
@@ -0,0 +1,18 @@
+import type { IRequest, ResponseHandler } from 'itty-router';
+
+/**
+ * HEAD response middleware
+ *
+ * HEAD requests are dispatched to the path's GET operation (see withMatchingContractOperation);
+ * this drops the body of the formatted response while keeping its status and headers.
+ * This middleware should be used in the `finally` array after `withContractFormat`.
+ */
+export const withHeadResponse: ResponseHandler = (response: unknown, request: IRequest) => {
+  if (request.method !== 'HEAD' || !(response instanceof Response) || !response.body) return;
+  void response.body.cancel();
+  return new Response(null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
@@ -1,37 +1,140 @@
 import type { IRequest, RequestHandler } from 'itty-router';
-import type { ContractOperation, ContractAugmentedRequest } from '../types.js';
-import { matchesPathPattern } from './utils.js';
+import type {
+  ApiVersion,
+  ContractOperation,
+  ContractAugmentedRequest,
+  VersioningOptions,
+} from '../types.js';
+import { RouteMatcher } from '../matcher.js';
+import { getRouteSignatures } from '../path.js';
+import {
+  resolveRequestVersion,
+  resolveVersioning,
+  selectVersionOperations,
+} from '../versioning.js';
+
+/**
+ * Resolves the route matcher of a request and the pathname to match against it
+ */
+export type ContractMatcherResolver<T> = (
+  request: IRequest,
+  pathname: string
+) => { matcher: RouteMatcher<T>; pathname: string; version?: ApiVersion };
+
+/**
+ * Build a route matcher for the operations of a contract
+ *
+ * @param contract - The contract definition containing all operations
+ * @returns A matcher resolving a method and pathname to the operation and its path params
+ */
+export function createContractMatcher<TContract extends Record<string, ContractOperation>>(
+  contract: TContract
+): RouteMatcher<TContract[keyof TContract]> {
+  const matcher = new RouteMatcher<TContract[keyof TContract]>();
+  for (const operation of Object.values(contract) as TContract[keyof TContract][]) {
+    // Method is required, so skip operations without it (should not happen in valid contracts)
+    if (!operation.method) continue;
+    matcher.add(operation.method, operation.path, operation);
+  }
+  return matcher;
+}
+
+/**
+ * Build the matcher resolver of a contract
+ *
+ * Without versioning every request uses the contract matcher. With versioning, each version gets
+ * a matcher for the operations it serves, and requests use the matcher of the version they ask
+ * for (see resolveRequestVersion). Throws when operations declare versions without versioning,
+ * or when two operations of a version match the same route.
+ *
+ * @param contract - The contract definition containing all operations
+ * @param versioning - Optional versioning configuration
+ * @returns A function resolving the matcher, pathname and version of a request
+ */
+export function createContractMatcherResolver<TContract extends Record<string, ContractOperation>>(
+  contract: TContract,
+  versioning?: VersioningOptions
+): ContractMatcherResolver<TContract[keyof TContract]> {
+  if (!versioning) {
+    const versioned = Object.keys(contract).find((key) => contract[key]!.versions !== undefined);
+    if (versioned !== undefined) {
+      throw new Error(
+        `Operation "${versioned}" declares versions but the router has no versioning option`
+      );
+    }
+    const matcher = createContractMatcher(contract);
+    return (_request, pathname) => ({ matcher, pathname });
+  }
+
+  const resolved = resolveVersioning(versioning);
+  const matchers = new Map<string, RouteMatcher<TContract[keyof TContract]>>();
+  for (const version of resolved.versions) {
+    const operations = selectVersionOperations(contract, resolved, version.name);
+    const routes = new Map<string, string>();
+    for (const [key, operation] of Object.entries(operations) as [string, ContractOperation][]) {
+      for (const signature of getRouteSignatures(operation.path)) {
+        const route = `${operation.method} ${signature}`;
+        const sameRoute = routes.get(route);
+        if (sameRoute !== undefined) {
+          throw new Error(
+            `Operations "${sameRoute}" and "${key}" both match ${operation.method} ${operation.path} in API version "${version.name}"`
+          );
+        }
+        routes.set(route, key);
+      }
+    }
+    matchers.set(version.name, createContractMatcher(operations as TContract));
+  }
+
+  return (request, pathname) => {
+    const selected = resolveRequestVersion(request, pathname, resolved);
+    return {
+      matcher: matchers.get(selected.version.name)!,
+      pathname: selected.pathname,
+      version: selected.version,
+    };
+  };
+}
 
 /**
  * Middleware factory: Finds and sets the matching contract operation from a contract
  * This should be added to the router's `before` array to run for all routes
  *
+ * The contract is compiled into a route matcher once, so each request resolves its operation
+ * and path params (stored as `__contractParams`) in a single pass. With versioning, the
+ * operation is looked up among those of the version the request asks for (stored as
+ * `__contractVersion`).
+ *
  * @param contract - The contract definition containing all operations
  * @param base - Optional base path to strip from the URL
+ * @param versioning - Optional versioning configuration
  * @returns A middleware function that finds and sets the matching operation
  */
 export function withMatchingContractOperation<TContract extends Record<string, ContractOperation>>(
   contract: TContract,
-  base?: string
+  base?: string,
+  versioning?: VersioningOptions
 ): RequestHandler<IRequest> {
+  const resolveMatcher = createContractMatcherResolver(contract, versioning);
+
   return (request: IRequest) => {
     // If operation already set (e.g., by route-specific middleware), skip
     if ((request as ContractAugmentedRequest).__contractOperation) {
       return;
     }
 
-    const method = request.method.toLowerCase();
-    const pathname = new URL(request.url).pathname.slice(base?.length || 0);
-
-    // Find matching operation by method and path pattern
-    for (const operation of Object.values(contract)) {
-      // Method is required, so skip operations without it (should not happen in valid contracts)
-      if (!operation.method) continue;
-      const operationMethod = operation.method.toLowerCase();
-      if (operationMethod === method && matchesPathPattern(operation.path, pathname)) {
-        (request as ContractAugmentedRequest).__contractOperation = operation;
-        return;
-      }
+    const { matcher, pathname, version } = resolveMatcher(
+      request,
+      new URL(request.url).pathname.slice(base?.length || 0)
+    );
+    if (version) (request as ContractAugmentedRequest).__contractVersion = version;
+    // HEAD falls back to the GET operation of the path (the body is dropped by withHeadResponse)
+    const match =
+      matcher.match(request.method, pathname) ??
+      (request.method === 'HEAD' ? matcher.match('GET', pathname) : null);
+    if (match) {
+      (request as ContractAugmentedRequest).__contractOperation = match.value;
+      (request as ContractAugmentedRequest).__contractParams = match.params;
     }
   };
 }
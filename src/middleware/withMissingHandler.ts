@@ -1,18 +1,22 @@
 import type { IRequest, ResponseHandler } from 'itty-router';
-import { error } from 'itty-router';
+import { StatusError, error } from 'itty-router';
+import type { ErrorFormat } from '../types.js';
 import { createBasicResponseHelpers } from '../utils';
+import { withContractErrorHandler } from './withContractErrorHandler.js';
 
 /**
  * Middleware for handling missing routes
  *
  * This middleware checks if a response has been set. If not, it calls the provided
- * missing handler (if available) or returns a 404 error. The missing handler receives
- * the request with basic response helpers attached.
+ * missing handler (if available) or returns a 404 error - itty's `error(404)`, or rendered with
+ * the error format when one is given. The missing handler receives the request with basic
+ * response helpers attached.
  *
  * @typeParam RequestType - The request type (extends IRequest)
  * @typeParam Args - Additional arguments passed to handlers
  *
  * @param missing - Optional handler for missing routes
+ * @param errors - Optional error format of the default 404 response
  * @returns A ResponseHandler function that handles missing routes
  *
  * @example
@@ -31,8 +35,11 @@ export function withMissingHandler<
   missing?: (
     request: RequestType & ReturnType<typeof createBasicResponseHelpers>,
     ...args: Args
-  ) => Response | Promise<Response>
+  ) => Response | Promise<Response>,
+  errors?: ErrorFormat
 ): ResponseHandler {
+  const renderError = errors === undefined ? undefined : withContractErrorHandler(errors);
+
   return (response: Response, request: IRequest, ...args: Args) => {
     if (response != null) return response as Response;
     if (missing) {
@@ -42,6 +49,6 @@ export function withMissingHandler<
         ...(args as Args)
       );
     }
-    return error(404);
+    return renderError ? renderError(new StatusError(404, 'Not Found'), request) : error(404);
   };
 }
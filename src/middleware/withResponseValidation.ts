@@ -0,0 +1,170 @@
+import type { IRequest, ResponseHandler } from 'itty-router';
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type {
+  ContractAugmentedRequest,
+  ErrorFormat,
+  ResponseByContentType,
+  ResponseSchema,
+  ResponseValidationMode,
+} from '../types.js';
+import { getResponseSchemaForContentType } from '../utils.js';
+import { normalizeHeaders } from './utils.js';
+import { getSetCookies } from '../cookies.js';
+import { isAsyncIterable, validateStream } from '../streaming.js';
+import { withContractErrorHandler } from './withContractErrorHandler.js';
+
+/**
+ * Response validation middleware factory
+ *
+ * Validates contract response objects ({ status, body, headers }) returned by handlers against
+ * the operation's declared responses before they are formatted. Rejects undeclared status codes
+ * and content types, and validates the body, headers and cookies (Set-Cookie) schemas.
+ * Streamed bodies (async iterables) are validated item by item as they are sent.
+ *
+ * Raw Response objects and requests without a matched contract operation are passed through.
+ * This middleware should be used in the `finally` array before `withContractFormat`.
+ *
+ * In 'throw' mode, an invalid response is replaced by a 500 error response rendered with the
+ * error format, so the rest of the `finally` chain (CORS, lifecycle headers, user handlers) still
+ * runs. Invalid stream items abort the stream, since the status and headers are already sent.
+ *
+ * @param mode - 'off' disables validation, 'warn' logs failures, 'throw' turns them into a 500 error
+ * @param errors - Error format of the 500 error response (defaults to 'legacy')
+ * @returns A ResponseHandler that validates contract responses
+ *
+ * @example
+ * ```typescript
+ * const router = Router({
+ *   finally: [withResponseValidation('throw'), withContractFormat()],
+ * });
+ * ```
+ */
+export function withResponseValidation(
+  mode: ResponseValidationMode = 'off',
+  errors?: ErrorFormat
+): ResponseHandler {
+  const renderError = withContractErrorHandler(errors);
+
+  return async (response: unknown, request: IRequest) => {
+    if (mode === 'off') return;
+    if (response instanceof Response || !response || typeof response !== 'object') return;
+    if (!('status' in response)) return;
+
+    const operation = (request as ContractAugmentedRequest).__contractOperation;
+    if (!operation) return;
+
+    const contractResponse = response as { status: number; body?: unknown; headers?: HeadersInit };
+    const label = `${operation.method} ${operation.path}`;
+    const report = (issues: readonly StandardSchemaV1.Issue[]): Error | undefined => {
+      if (mode === 'warn') {
+        console.warn(`[itty-spec] Response validation failed for ${label}`, issues);
+        return undefined;
+      }
+
+      const error = new Error('Response validation failed');
+      (error as any).status = 500;
+      (error as any).issues = issues;
+      return error;
+    };
+
+    const issues = await collectResponseIssues(operation.responses, contractResponse);
+    const error = issues.length > 0 ? report(issues) : undefined;
+    if (error) return renderError(error, request);
+
+    // Streamed items are validated as they are produced - a failure in 'throw' mode aborts
+    // the stream, since the status and headers have already been sent
+    const { body } = contractResponse;
+    if (isAsyncIterable(body)) {
+      const contentType = new Headers(contractResponse.headers).get('content-type') || '';
+      const schema = findResponseSchema(operation.responses, contractResponse.status, contentType);
+      if (schema?.stream) {
+        contractResponse.body = validateStream(body, schema.body, contentType, (itemIssues) => {
+          const itemError = report(
+            itemIssues.map((issue) => ({ ...issue, path: ['body', ...(issue.path ?? [])] }))
+          );
+          if (itemError) throw itemError;
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Find the declared response schema for a status and content type
+ */
+function findResponseSchema(
+  responses: Record<string | number, ResponseByContentType | undefined>,
+  status: number,
+  contentType: string
+): ResponseSchema | null {
+  const byContentType = responses[status] ?? responses.default;
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  const declaredContentType =
+    byContentType && Object.keys(byContentType).find((key) => key.toLowerCase() === mediaType);
+  return declaredContentType
+    ? getResponseSchemaForContentType(byContentType, declaredContentType)
+    : null;
+}
+
+/**
+ * Validate a contract response object against the declared responses
+ * Returns the list of issues (empty when the response matches the contract)
+ */
+export async function collectResponseIssues(
+  responses: Record<string | number, ResponseByContentType | undefined>,
+  response: { status: number; body?: unknown; headers?: HeadersInit }
+): Promise<StandardSchemaV1.Issue[]> {
+  const byContentType = responses[response.status] ?? responses.default;
+  if (!byContentType) {
+    return [{ message: `Undeclared response status: ${response.status}` }];
+  }
+
+  const headers = normalizeHeaders(new Headers(response.headers));
+  const contentType = (headers['content-type'] || 'application/json')
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+  const schema = findResponseSchema(responses, response.status, contentType);
+  if (!schema) {
+    return [
+      {
+        message: `Undeclared content type for status ${response.status}: ${contentType}. Declared types: ${Object.keys(byContentType).join(', ')}`,
+      },
+    ];
+  }
+
+  const issues: StandardSchemaV1.Issue[] = [];
+
+  // Bodies are only validated when present - an omitted body is never sent. Streamed bodies
+  // are validated item by item (see withResponseValidation)
+  if (response.body !== undefined && !schema.stream) {
+    issues.push(...(await runSchema(schema.body, response.body, 'body')));
+  }
+
+  if (schema.headers) {
+    issues.push(...(await runSchema(schema.headers, headers, 'headers')));
+  }
+
+  if (schema.cookies) {
+    const cookies = getSetCookies(new Headers(response.headers));
+    issues.push(...(await runSchema(schema.cookies, cookies, 'cookies')));
+  }
+
+  return issues;
+}
+
+/**
+ * Run a schema and prefix resulting issue paths with the response part they belong to
+ */
+async function runSchema(
+  schema: StandardSchemaV1,
+  value: unknown,
+  part: 'body' | 'headers' | 'cookies'
+): Promise<StandardSchemaV1.Issue[]> {
+  const result = await schema['~standard'].validate(value);
+  if (!result.issues) return [];
+  return result.issues.map((issue) => ({
+    ...issue,
+    path: [part, ...(issue.path ?? [])],
+  }));
+}
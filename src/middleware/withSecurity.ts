@@ -0,0 +1,47 @@
+import type { IRequest, RequestHandler } from 'itty-router';
+import type {
+  ContractAugmentedRequest,
+  ContractOperation,
+  SecuritySchemeRegistry,
+} from '../types.js';
+import { defineProp } from '../utils.js';
+import { authenticateRequest } from '../security.js';
+
+/**
+ * Middleware factory: Enforces the security requirements of the matched operation
+ *
+ * Operations without `security` (or with `security: []`) are not checked. Otherwise the
+ * credentials are verified with the registered schemes and the principal is attached as
+ * `request.auth`. Failures are thrown as 401 (missing or rejected credentials) or 403
+ * (missing scopes) errors.
+ *
+ * This reads from __contractOperation set by withMatchingContractOperation and should run
+ * before withSpecValidation. When the contract is given, requirements referencing schemes
+ * missing from the registry throw when the middleware is created.
+ *
+ * @param schemes - The security schemes referenced by operation requirements
+ * @param contract - Optional contract whose scheme references are checked upfront
+ * @returns A middleware function that authenticates the request
+ */
+export function withSecurity(
+  schemes: SecuritySchemeRegistry = {},
+  contract?: Record<string, ContractOperation>
+): RequestHandler<IRequest> {
+  for (const [key, operation] of Object.entries(contract ?? {})) {
+    for (const requirement of operation.security ?? []) {
+      for (const name of Object.keys(requirement)) {
+        if (!schemes[name]) {
+          throw new Error(`Operation "${key}" references unknown security scheme "${name}"`);
+        }
+      }
+    }
+  }
+
+  return async (request: IRequest) => {
+    const operation = (request as ContractAugmentedRequest).__contractOperation;
+    if (!operation?.security || operation.security.length === 0) return;
+
+    const principal = await authenticateRequest(operation.security, schemes, request);
+    defineProp(request, 'auth', principal);
+  };
+}
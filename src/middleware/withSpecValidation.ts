@@ -1,14 +1,22 @@
 import type { IRequest, RequestHandler } from 'itty-router';
-import { error } from 'itty-router';
+import { StatusError } from 'itty-router';
 import type { StandardSchemaV1 } from '@standard-schema/spec';
 import type {
+  BodyCodec,
+  CodecRegistry,
   ContractAugmentedRequest,
+  ContractErrorLocation,
   ContractOperationParameters,
   ContractOperationQuery,
 } from '../types.js';
 import { validateSchema, defineProp } from '../utils.js';
+import { jsonCodec, resolveCodec } from '../codecs.js';
+import { coerceQuery } from '../query.js';
+import { parseCookies } from '../cookies.js';
 import {
   extractPathParamsFromUrl,
+  extractQueryParamsFromUrl,
+  formEntriesToObject,
   getContentType,
   parseBodyByContentType,
   normalizeHeaders,
@@ -17,29 +25,93 @@ import {
 
 type ContractOperation = NonNullable<ContractAugmentedRequest['__contractOperation']>;
 
-export const withSpecValidation: RequestHandler<IRequest> = async (request: IRequest) => {
-  const operation = (request as ContractAugmentedRequest).__contractOperation;
-  if (!operation) return;
+/**
+ * Options for the spec validation middleware
+ */
+export type SpecValidationOptions = {
+  /** Body codecs keyed by media type, used to parse request bodies */
+  codecs?: CodecRegistry;
+  /** Maximum request body size in bytes, unless the operation sets its own `maxBodySize` */
+  maxBodySize?: number;
+};
+
+/**
+ * Middleware factory: Validates path params, query, headers, cookies and body against the operation
+ * This reads from __contractOperation set by withMatchingContractOperation
+ *
+ * @param options - Validation options (e.g. body codecs)
+ * @returns A middleware function that validates the request and attaches validated values
+ */
+export function createSpecValidation(
+  options: SpecValidationOptions = {}
+): RequestHandler<IRequest> {
+  if (
+    options.maxBodySize !== undefined &&
+    !(Number.isInteger(options.maxBodySize) && options.maxBodySize >= 0)
+  ) {
+    throw new Error('maxBodySize must be a non-negative integer');
+  }
 
-  // Path params
-  const params = await resolveAndValidatePathParams(request, operation);
-  defineProp(request, 'validatedParams', params);
+  return async (request: IRequest) => {
+    const operation = (request as ContractAugmentedRequest).__contractOperation;
+    if (!operation) return;
 
-  // Query params
-  const query = await resolveAndValidateQuery(request, operation);
-  defineProp(request, 'validatedQuery', query);
+    // Path params
+    const params = await atLocation('params', () =>
+      resolveAndValidatePathParams(request, operation)
+    );
+    defineProp(request, 'validatedParams', params);
 
-  // Headers
-  const validatedHeaders = await resolveAndValidateHeaders(request, operation);
-  defineProp(request, 'validatedHeaders', validatedHeaders);
+    // Query params
+    const query = await atLocation('query', () => resolveAndValidateQuery(request, operation));
+    defineProp(request, 'validatedQuery', query);
 
-  // Body
-  const validatedBody = await resolveAndValidateBody(request, operation);
-  defineProp(request, 'validatedBody', validatedBody);
-};
+    // Headers
+    const validatedHeaders = await atLocation('headers', () =>
+      resolveAndValidateHeaders(request, operation)
+    );
+    defineProp(request, 'validatedHeaders', validatedHeaders);
+
+    // Cookies
+    const validatedCookies = await atLocation('cookies', () =>
+      resolveAndValidateCookies(request, operation)
+    );
+    defineProp(request, 'validatedCookies', validatedCookies);
+
+    // Body
+    const validatedBody = await atLocation('body', () =>
+      resolveAndValidateBody(request, operation, options)
+    );
+    defineProp(request, 'validatedBody', validatedBody);
+  };
+}
+
+/**
+ * Global middleware: Validates the request using the built-in body codecs
+ */
+export const withSpecValidation: RequestHandler<IRequest> = createSpecValidation();
+
+/**
+ * Record which request part a validation error belongs to, so error formatters can point at it
+ */
+async function atLocation<T>(
+  location: ContractErrorLocation,
+  validate: () => Promise<T>
+): Promise<T> {
+  try {
+    return await validate();
+  } catch (err) {
+    if (err instanceof Error && 'issues' in err) {
+      (err as any).location = location;
+    }
+    throw err;
+  }
+}
 
 async function resolveAndValidatePathParams(request: IRequest, operation: ContractOperation) {
-  const requestParams = extractPathParamsFromUrl(operation.path, request.url);
+  const requestParams =
+    (request as ContractAugmentedRequest).__contractParams ??
+    extractPathParamsFromUrl(operation.path, request.url);
 
   return operation.pathParams
     ? await validateSchema<ContractOperationParameters<ContractOperation>>(
@@ -54,10 +126,9 @@ async function resolveAndValidateQuery(
   operation: ContractOperation
 ): Promise<Record<string, unknown>> {
   if (operation.query) {
-    return validateSchema<ContractOperationQuery<ContractOperation>>(
-      operation.query,
-      request.query
-    );
+    const rawQuery = extractQueryParamsFromUrl(request.url);
+    const query = await coerceQuery(operation.query, rawQuery, operation.queryStyles);
+    return validateSchema<ContractOperationQuery<ContractOperation>>(operation.query, query);
   }
 
   return {};
@@ -79,17 +150,79 @@ async function resolveAndValidateHeaders(
   return undefined;
 }
 
-async function tryReadRequestText(
-  request: IRequest
-): Promise<{ ok: true; text: string } | { ok: false }> {
+async function resolveAndValidateCookies(
+  request: IRequest,
+  operation: ContractOperation
+): Promise<Record<string, unknown>> {
+  const cookies = parseCookies(request.headers.get('cookie'));
+  return operation.cookies ? await validateSchema(operation.cookies, cookies) : cookies;
+}
+
+/**
+ * Read the request body, enforcing the size limit
+ *
+ * Bodies announcing a larger `Content-Length` are rejected upfront; other bodies are streamed and
+ * rejected with 413 as soon as they exceed the limit. Bodies that cannot be read or parsed
+ * (e.g. truncated streams or malformed multipart data) are rejected with 400. The bytes read
+ * are kept as `__rawBody`, exactly as received (e.g. to verify webhook signatures).
+ */
+async function readRequestBody<T>(
+  request: IRequest,
+  maxBodySize: number | undefined,
+  read: (body: Pick<Request, 'text' | 'arrayBuffer' | 'formData'>) => Promise<T>
+): Promise<T> {
+  if (maxBodySize !== undefined && Number(request.headers.get('content-length')) > maxBodySize) {
+    throw bodyTooLarge(maxBodySize);
+  }
+
   try {
-    const text = await request.text();
-    return { ok: true, text };
-  } catch {
-    return { ok: false };
+    if (!request.body) return await read(request);
+    const bytes =
+      maxBodySize === undefined
+        ? new Uint8Array(await request.arrayBuffer())
+        : await readLimitedBytes(request.body, maxBodySize);
+    (request as ContractAugmentedRequest).__rawBody = bytes;
+    return await read(new Response(bytes, { headers: request.headers }));
+  } catch (err) {
+    if (err instanceof StatusError) throw err;
+    throw new StatusError(400, 'Malformed request body');
   }
 }
 
+/**
+ * Read a body stream into memory, failing as soon as it exceeds the limit
+ */
+async function readLimitedBytes(
+  stream: ReadableStream<Uint8Array>,
+  maxBodySize: number
+): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      throw bodyTooLarge(maxBodySize);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function bodyTooLarge(maxBodySize: number): StatusError {
+  return new StatusError(413, `Request body exceeds the limit of ${maxBodySize} bytes`);
+}
+
 function findRequestSchemaEntry(
   requests: Record<string, unknown>,
   contentType: string
@@ -106,27 +239,43 @@ function findRequestSchemaEntry(
 
 async function resolveAndValidateBody(
   request: IRequest,
-  operation: ContractOperation
+  operation: ContractOperation,
+  options: SpecValidationOptions
 ): Promise<unknown> {
   // Preserve existing behavior: if no request schemas defined, set empty body.
   if (!operation.requests) return {};
 
-  // Preserve existing behavior: body read failures become empty body.
-  const read = await tryReadRequestText(request);
-  if (!read.ok) return {};
+  const contentType = getContentType(request);
+  const codec = resolveCodec(options.codecs, contentType);
+  const maxBodySize = operation.maxBodySize ?? options.maxBodySize;
 
-  const bodyText = read.text;
-  if (!bodyText.trim()) return {};
+  // Multipart bodies are read as FormData, binary codecs read raw bytes,
+  // everything else is read as text
+  let rawBody: string | Uint8Array | FormData;
+  if (contentType === 'multipart/form-data') {
+    const formData = await readRequestBody(request, maxBodySize, (body) => body.formData());
+    if (formData.keys().next().done) return {};
+    rawBody = formData;
+  } else if (codec?.binary) {
+    const bytes = new Uint8Array(
+      await readRequestBody(request, maxBodySize, (body) => body.arrayBuffer())
+    );
+    if (bytes.byteLength === 0) return {};
+    rawBody = bytes;
+  } else {
+    const text = await readRequestBody(request, maxBodySize, (body) => body.text());
+    if (!text.trim()) return {};
+    rawBody = text;
+  }
 
-  const contentType = getContentType(request);
   if (!contentType) {
-    throw error(400, 'Content-Type header is required');
+    throw new StatusError(400, 'Content-Type header is required');
   }
 
   const entry = findRequestSchemaEntry(operation.requests, contentType);
   if (!entry) {
-    throw error(
-      400,
+    throw new StatusError(
+      415,
       `Unsupported Content-Type: ${contentType}. Supported types: ${Object.keys(operation.requests).join(', ')}`
     );
   }
@@ -134,9 +283,39 @@ async function resolveAndValidateBody(
   const [normalizedContentType, requestSchema] = entry;
 
   if (!requestSchema || typeof requestSchema !== 'object' || !('body' in requestSchema)) {
-    throw error(500, 'Invalid request schema configuration');
+    throw new StatusError(500, 'Invalid request schema configuration');
   }
 
-  const bodyData = parseBodyByContentType(normalizedContentType, bodyText);
+  const bodyData = await decodeBody(codec, normalizedContentType, rawBody);
   return await validateSchema((requestSchema as { body: StandardSchemaV1 }).body, bodyData);
 }
+
+/**
+ * Decode a raw request body with its codec, falling back to the built-in parser
+ * Bodies the codec cannot parse (e.g. malformed JSON) are rejected with 400.
+ */
+async function decodeBody(
+  codec: BodyCodec | undefined,
+  contentType: string,
+  rawBody: string | Uint8Array | FormData
+): Promise<unknown> {
+  if (rawBody instanceof FormData) {
+    return formEntriesToObject(rawBody.entries());
+  }
+  try {
+    if (codec === jsonCodec) {
+      // The JSON codec keeps malformed input as text - request bodies must be valid JSON
+      return JSON.parse(rawBody as string);
+    }
+    if (codec?.binary) {
+      return codec.parse ? await codec.parse(rawBody as Uint8Array) : rawBody;
+    }
+    if (codec?.parse) {
+      return await codec.parse(rawBody as string);
+    }
+  } catch (err) {
+    if (err instanceof StatusError || (err instanceof Error && 'issues' in err)) throw err;
+    throw new StatusError(400, 'Malformed request body');
+  }
+  return parseBodyByContentType(contentType, rawBody as string);
+}
@@ -0,0 +1,27 @@
+import type { IRequest, ResponseHandler } from 'itty-router';
+import type { ContractAugmentedRequest } from '../types.js';
+import { createVersionHeaders } from '../versioning.js';
+
+/**
+ * API version lifecycle response middleware
+ *
+ * Adds the `Deprecation` and `Sunset` headers of the API version selected by the request (see
+ * withMatchingContractOperation) to its response, including error responses. Does nothing
+ * without versioning or for current versions. This middleware should be used in the `finally`
+ * array after `withContractFormat`.
+ */
+export const withVersionHeaders: ResponseHandler = (response: unknown, request: IRequest) => {
+  const version = (request as ContractAugmentedRequest).__contractVersion;
+  if (!version || !(response instanceof Response)) return;
+
+  const lifecycle = Object.entries(createVersionHeaders(version));
+  if (lifecycle.length === 0) return;
+
+  const headers = new Headers(response.headers);
+  for (const [name, value] of lifecycle) headers.set(name, value);
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+};
@@ -0,0 +1,590 @@
+import type { OpenAPIV3_1 } from 'openapi-types';
+import type { ContractDefinition } from '../types';
+import { createOpenApiSpecification } from './index';
+
+/**
+ * Kinds of change reported by diffContracts
+ */
+export type ContractChangeType =
+  | 'operation-removed'
+  | 'operation-added'
+  | 'operation-moved'
+  | 'parameter-removed'
+  | 'parameter-added'
+  | 'parameter-required'
+  | 'parameter-optional'
+  | 'request-body-required'
+  | 'request-content-type-removed'
+  | 'request-content-type-added'
+  | 'response-status-removed'
+  | 'response-status-added'
+  | 'response-content-type-removed'
+  | 'response-content-type-added'
+  | 'property-removed'
+  | 'property-added'
+  | 'property-required'
+  | 'property-optional'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened';
+
+/**
+ * A change between two versions of a contract
+ */
+export type ContractChange = {
+  type: ContractChangeType;
+  /** Whether clients built against the old version may break */
+  breaking: boolean;
+  /** The operationId, or `METHOD /path` for operations without one */
+  operation: string;
+  /** Where the change is, e.g. `query.limit` or `responses.200.application/json.user.name` */
+  location?: string;
+  message: string;
+};
+
+/**
+ * Whether a schema describes data sent by clients (requests) or received by them (responses)
+ * Additions are breaking for requests when they constrain clients, and for responses when
+ * they give clients data they may not expect.
+ */
+type Direction = 'request' | 'response';
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * State of a diff between two documents
+ */
+type DiffContext = {
+  before: OpenAPIV3_1.Document;
+  after: OpenAPIV3_1.Document;
+  changes: ContractChange[];
+  operation: string;
+  /** Pairs of `$ref`s being compared (guards against recursive schemas) */
+  comparing: Set<string>;
+};
+
+type LocatedOperation = {
+  id: string;
+  method: string;
+  path: string;
+  operation: OpenAPIV3_1.OperationObject;
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Maximum schema depth compared (guards against recursive schemas)
+ */
+const MAX_DEPTH = 16;
+
+/**
+ * Report the changes between two versions of a contract, categorised as breaking or not
+ *
+ * Both contracts are converted with createOpenApiSpecification, so schemas are compared in
+ * their OpenAPI form (see diffOpenApiSpecifications for the rules).
+ *
+ * @param before - The deployed contract
+ * @param after - The new contract
+ * @returns The changes, breaking changes first
+ *
+ * @example
+ * ```typescript
+ * const changes = await diffContracts(previousContract, contract);
+ * if (changes.some((change) => change.breaking)) process.exitCode = 1;
+ * ```
+ */
+export async function diffContracts(
+  before: ContractDefinition,
+  after: ContractDefinition
+): Promise<ContractChange[]> {
+  const options = { title: 'Contract', version: '0.0.0' };
+  const [beforeDocument, afterDocument] = await Promise.all([
+    createOpenApiSpecification(before, options),
+    createOpenApiSpecification(after, options),
+  ]);
+  return diffOpenApiSpecifications(beforeDocument, afterDocument);
+}
+
+/**
+ * Report the changes between two OpenAPI 3.1 documents, categorised as breaking or not
+ *
+ * Operations are matched by operationId, then by method and path. Breaking changes are:
+ * - removed operations, and operations whose method or path changed
+ * - new required parameters or request body fields, and optional ones becoming required
+ * - narrowed request enums and types, removed request content types
+ * - removed response statuses and content types, removed or optional response fields, and
+ *   widened response enums and types
+ *
+ * Everything else (new optional inputs, new responses, new response fields...) is reported
+ * as non-breaking. `anyOf`/`oneOf`/`allOf` schemas are not compared member by member.
+ *
+ * @param before - The deployed document
+ * @param after - The new document
+ * @returns The changes, breaking changes first
+ */
+export function diffOpenApiSpecifications(
+  before: OpenAPIV3_1.Document,
+  after: OpenAPIV3_1.Document
+): ContractChange[] {
+  const changes: ContractChange[] = [];
+  const beforeOperations = listOperations(before);
+  const afterOperations = listOperations(after);
+  const unmatched = new Set(afterOperations);
+
+  const take = (predicate: (operation: LocatedOperation) => boolean) => {
+    const match = [...unmatched].find(predicate);
+    if (match) unmatched.delete(match);
+    return match;
+  };
+
+  const pairs: [LocatedOperation, LocatedOperation | undefined][] = beforeOperations.map(
+    (operation) => [operation, take(({ id }) => id === operation.id)]
+  );
+  for (const pair of pairs) {
+    const [operation] = pair;
+    pair[1] ??= take(
+      ({ method, path }) =>
+        method === operation.method && normalizePath(path) === normalizePath(operation.path)
+    );
+  }
+
+  for (const [oldOperation, newOperation] of pairs) {
+    const ctx: DiffContext = {
+      before,
+      after,
+      changes,
+      operation: oldOperation.id,
+      comparing: new Set(),
+    };
+    if (!newOperation) {
+      report(ctx, 'operation-removed', true, undefined, 'Operation was removed');
+      continue;
+    }
+    if (
+      oldOperation.method !== newOperation.method ||
+      normalizePath(oldOperation.path) !== normalizePath(newOperation.path)
+    ) {
+      report(
+        ctx,
+        'operation-moved',
+        true,
+        undefined,
+        `Operation moved from ${oldOperation.method} ${oldOperation.path} to ${newOperation.method} ${newOperation.path}`
+      );
+    }
+    compareParameters(ctx, oldOperation, newOperation);
+    compareRequestBodies(ctx, oldOperation.operation, newOperation.operation);
+    compareResponses(ctx, oldOperation.operation, newOperation.operation);
+  }
+
+  for (const operation of unmatched) {
+    const ctx: DiffContext = {
+      before,
+      after,
+      changes,
+      operation: operation.id,
+      comparing: new Set(),
+    };
+    report(ctx, 'operation-added', false, undefined, 'Operation was added');
+  }
+
+  return changes.sort((a, b) => Number(b.breaking) - Number(a.breaking));
+}
+
+/**
+ * Compare the parameters of an operation (matched by location and name; path parameters are
+ * matched by position, so renaming them is not a change)
+ */
+function compareParameters(
+  ctx: DiffContext,
+  before: LocatedOperation,
+  after: LocatedOperation
+): void {
+  const oldNames = getPathParameterNames(before.path);
+  const renames = new Map(
+    getPathParameterNames(after.path).map((name, i) => [name, oldNames[i] ?? name])
+  );
+  const oldParameters = indexParameters(ctx.before, before.operation.parameters);
+  const newParameters = indexParameters(ctx.after, after.operation.parameters, renames);
+
+  for (const [key, parameter] of oldParameters) {
+    const updated = newParameters.get(key);
+    const label = `${parameter.in} parameter "${parameter.name}"`;
+    if (!updated) {
+      report(ctx, 'parameter-removed', false, key, `The ${label} was removed`);
+      continue;
+    }
+    if (!parameter.required && updated.required) {
+      report(ctx, 'parameter-required', true, key, `The ${label} became required`);
+    } else if (parameter.required && !updated.required) {
+      report(ctx, 'parameter-optional', false, key, `The ${label} became optional`);
+    }
+    compareSchemas(ctx, parameter.schema, updated.schema, 'request', key, 0);
+  }
+  for (const [key, parameter] of newParameters) {
+    if (oldParameters.has(key)) continue;
+    const required = !!parameter.required;
+    report(
+      ctx,
+      'parameter-added',
+      required,
+      key,
+      `A${required ? ' required' : 'n optional'} ${parameter.in} parameter "${parameter.name}" was added`
+    );
+  }
+}
+
+/**
+ * Compare the request bodies of an operation, per content type
+ */
+function compareRequestBodies(
+  ctx: DiffContext,
+  before: OpenAPIV3_1.OperationObject,
+  after: OpenAPIV3_1.OperationObject
+): void {
+  const oldBody = resolve<OpenAPIV3_1.RequestBodyObject>(ctx.before, before.requestBody);
+  const newBody = resolve<OpenAPIV3_1.RequestBodyObject>(ctx.after, after.requestBody);
+  if (!oldBody?.required && newBody?.required) {
+    report(ctx, 'request-body-required', true, 'body', 'The request body became required');
+  }
+  compareContent(ctx, oldBody?.content, newBody?.content, 'request', 'body');
+}
+
+/**
+ * Compare the responses of an operation, per status and content type
+ */
+function compareResponses(
+  ctx: DiffContext,
+  before: OpenAPIV3_1.OperationObject,
+  after: OpenAPIV3_1.OperationObject
+): void {
+  const oldResponses = before.responses ?? {};
+  const newResponses = after.responses ?? {};
+
+  for (const [status, rawResponse] of Object.entries(oldResponses)) {
+    const location = `responses.${status}`;
+    if (!(status in newResponses)) {
+      report(ctx, 'response-status-removed', true, location, `Response ${status} was removed`);
+      continue;
+    }
+    const oldResponse = resolve<OpenAPIV3_1.ResponseObject>(ctx.before, rawResponse);
+    const newResponse = resolve<OpenAPIV3_1.ResponseObject>(ctx.after, newResponses[status]);
+    compareContent(ctx, oldResponse?.content, newResponse?.content, 'response', location);
+  }
+  for (const status of Object.keys(newResponses)) {
+    if (status in oldResponses) continue;
+    report(
+      ctx,
+      'response-status-added',
+      false,
+      `responses.${status}`,
+      `Response ${status} was added`
+    );
+  }
+}
+
+/**
+ * Compare the content types of a request body or response and their schemas
+ */
+function compareContent(
+  ctx: DiffContext,
+  before: Record<string, OpenAPIV3_1.MediaTypeObject> | undefined,
+  after: Record<string, OpenAPIV3_1.MediaTypeObject> | undefined,
+  direction: Direction,
+  location: string
+): void {
+  const oldContent = before ?? {};
+  const newContent = after ?? {};
+  const subject = direction === 'request' ? 'Request content type' : 'Response content type';
+
+  for (const [contentType, media] of Object.entries(oldContent)) {
+    const at = `${location}.${contentType}`;
+    if (!(contentType in newContent)) {
+      report(
+        ctx,
+        `${direction}-content-type-removed`,
+        true,
+        at,
+        `${subject} ${contentType} was removed`
+      );
+      continue;
+    }
+    compareSchemas(ctx, media.schema, newContent[contentType].schema, direction, at, 0);
+  }
+  for (const contentType of Object.keys(newContent)) {
+    if (contentType in oldContent) continue;
+    report(
+      ctx,
+      `${direction}-content-type-added`,
+      false,
+      `${location}.${contentType}`,
+      `${subject} ${contentType} was added`
+    );
+  }
+}
+
+/**
+ * Compare two schemas: types, enums, object properties and array items
+ */
+function compareSchemas(
+  ctx: DiffContext,
+  rawBefore: unknown,
+  rawAfter: unknown,
+  direction: Direction,
+  location: string,
+  depth: number
+): void {
+  const before = resolve<JsonSchema>(ctx.before, rawBefore);
+  const after = resolve<JsonSchema>(ctx.after, rawAfter);
+  if (!before || !after || depth > MAX_DEPTH) return;
+
+  // Recursive schemas: stop when the same pair of references is already being compared
+  const refs = `${(rawBefore as JsonSchema).$ref ?? ''}|${(rawAfter as JsonSchema).$ref ?? ''}`;
+  if (refs !== '|') {
+    if (ctx.comparing.has(refs)) return;
+    ctx.comparing.add(refs);
+  }
+  try {
+    compareSchemaKeywords(ctx, before, after, direction, location, depth);
+  } finally {
+    if (refs !== '|') ctx.comparing.delete(refs);
+  }
+}
+
+/**
+ * Compare the keywords of two resolved schemas
+ */
+function compareSchemaKeywords(
+  ctx: DiffContext,
+  before: JsonSchema,
+  after: JsonSchema,
+  direction: Direction,
+  location: string,
+  depth: number
+): void {
+  // Types: requests must accept every old type, responses must not return new ones
+  const oldTypes = getTypes(before);
+  const newTypes = getTypes(after);
+  if (oldTypes && newTypes) {
+    const removed = oldTypes.filter((type) => !coversType(newTypes, type));
+    const added = newTypes.filter((type) => !coversType(oldTypes, type));
+    if (removed.length > 0 || added.length > 0) {
+      report(
+        ctx,
+        'type-changed',
+        direction === 'request' ? removed.length > 0 : added.length > 0,
+        location,
+        `Type changed from ${oldTypes.join(' | ')} to ${newTypes.join(' | ')}`
+      );
+    }
+  }
+
+  compareEnums(ctx, before, after, direction, location);
+
+  const oldProperties = (before.properties ?? {}) as Record<string, JsonSchema>;
+  const newProperties = (after.properties ?? {}) as Record<string, JsonSchema>;
+  const oldRequired = new Set<string>(before.required ?? []);
+  const newRequired = new Set<string>(after.required ?? []);
+
+  for (const [key, property] of Object.entries(oldProperties)) {
+    const at = `${location}.${key}`;
+    if (!(key in newProperties)) {
+      report(
+        ctx,
+        'property-removed',
+        direction === 'response',
+        at,
+        `Property "${key}" was removed`
+      );
+      continue;
+    }
+    if (!oldRequired.has(key) && newRequired.has(key)) {
+      report(
+        ctx,
+        'property-required',
+        direction === 'request',
+        at,
+        `Property "${key}" became required`
+      );
+    } else if (oldRequired.has(key) && !newRequired.has(key)) {
+      report(
+        ctx,
+        'property-optional',
+        direction === 'response',
+        at,
+        `Property "${key}" became optional`
+      );
+    }
+    compareSchemas(ctx, property, newProperties[key], direction, at, depth + 1);
+  }
+  for (const key of Object.keys(newProperties)) {
+    if (key in oldProperties) continue;
+    const required = newRequired.has(key);
+    report(
+      ctx,
+      'property-added',
+      direction === 'request' && required,
+      `${location}.${key}`,
+      `A${required ? ' required' : 'n optional'} property "${key}" was added`
+    );
+  }
+
+  if (before.items && after.items) {
+    compareSchemas(ctx, before.items, after.items, direction, `${location}[]`, depth + 1);
+  }
+}
+
+/**
+ * Compare allowed values: requests must accept every old value, responses must not return
+ * new ones (a schema without `enum` allows any value)
+ */
+function compareEnums(
+  ctx: DiffContext,
+  before: JsonSchema,
+  after: JsonSchema,
+  direction: Direction,
+  location: string
+): void {
+  const oldValues = getValues(before);
+  const newValues = getValues(after);
+  if (!oldValues && !newValues) return;
+
+  const removed =
+    oldValues && newValues ? oldValues.filter((value) => !newValues.includes(value)) : [];
+  const added =
+    oldValues && newValues ? newValues.filter((value) => !oldValues.includes(value)) : [];
+
+  if (!newValues || added.length > 0) {
+    const values = newValues ? `: ${added.map(String).join(', ')}` : '';
+    report(
+      ctx,
+      'enum-widened',
+      direction === 'response',
+      location,
+      `Allowed values were widened${values}`
+    );
+  }
+  if (!oldValues || removed.length > 0) {
+    const values = oldValues ? `: ${removed.map(String).join(', ')}` : '';
+    report(
+      ctx,
+      'enum-narrowed',
+      direction === 'request',
+      location,
+      `Allowed values were narrowed${values}`
+    );
+  }
+}
+
+/**
+ * List the operations of a document with their identifiers
+ */
+function listOperations(document: OpenAPIV3_1.Document): LocatedOperation[] {
+  const operations: LocatedOperation[] = [];
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method];
+      if (!operation) continue;
+      const upper = method.toUpperCase();
+      operations.push({
+        id: operation.operationId ?? `${upper} ${path}`,
+        method: upper,
+        path,
+        operation,
+      });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Index parameters by `location.name` (header names are case-insensitive)
+ */
+function indexParameters(
+  document: OpenAPIV3_1.Document,
+  parameters: OpenAPIV3_1.OperationObject['parameters'],
+  renames?: Map<string, string>
+): Map<string, OpenAPIV3_1.ParameterObject> {
+  const index = new Map<string, OpenAPIV3_1.ParameterObject>();
+  for (const rawParameter of parameters ?? []) {
+    const parameter = resolve<OpenAPIV3_1.ParameterObject>(document, rawParameter);
+    if (!parameter) continue;
+    const name =
+      parameter.in === 'header'
+        ? parameter.name.toLowerCase()
+        : parameter.in === 'path'
+          ? (renames?.get(parameter.name) ?? parameter.name)
+          : parameter.name;
+    index.set(`${parameter.in}.${name}`, parameter);
+  }
+  return index;
+}
+
+/**
+ * Resolve a local `$ref`, returning other values as-is
+ */
+function resolve<T>(document: OpenAPIV3_1.Document, value: unknown, depth = 0): T | undefined {
+  if (!value || typeof value !== 'object' || !('$ref' in value)) return value as T;
+  const ref = (value as { $ref: unknown }).$ref;
+  if (typeof ref !== 'string' || !ref.startsWith('#/') || depth > MAX_DEPTH) return undefined;
+
+  let target: unknown = document;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+  return resolve<T>(document, target, depth + 1);
+}
+
+/**
+ * Get the declared types of a schema (3.0 `nullable` included), or null when unconstrained
+ */
+function getTypes(schema: JsonSchema): string[] | null {
+  if (schema.type === undefined) return null;
+  const types: string[] = Array.isArray(schema.type) ? [...schema.type] : [schema.type];
+  if (schema.nullable === true && !types.includes('null')) types.push('null');
+  return types;
+}
+
+/**
+ * Check whether a list of types allows a type (integers are numbers)
+ */
+function coversType(types: string[], type: string): boolean {
+  return types.includes(type) || (type === 'integer' && types.includes('number'));
+}
+
+/**
+ * Get the allowed values of a schema (`enum` or `const`), or null when unconstrained
+ */
+function getValues(schema: JsonSchema): unknown[] | null {
+  if (Array.isArray(schema.enum)) return schema.enum;
+  if (schema.const !== undefined) return [schema.const];
+  return null;
+}
+
+/**
+ * Get the parameter names of a path template, in order
+ */
+function getPathParameterNames(path: string): string[] {
+  return [...path.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]);
+}
+
+/**
+ * Normalize a path template so renamed parameters still match (`/users/{id}` -> `/users/{}`)
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\{[^}]+\}/g, '{}');
+}
+
+/**
+ * Record a change
+ */
+function report(
+  ctx: DiffContext,
+  type: ContractChangeType,
+  breaking: boolean,
+  location: string | undefined,
+  message: string
+): void {
+  ctx.changes.push({ type, breaking, operation: ctx.operation, location, message });
+}
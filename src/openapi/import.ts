@@ -0,0 +1,986 @@
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+
+/**
+ * Schema library used by generated contract source
+ */
+export type SchemaLibrary = 'zod' | 'valibot';
+
+/**
+ * Options for generateContractSource
+ */
+export type ContractSourceOptions = {
+  /** Schema library for the generated schemas (default: 'zod') */
+  schemas?: SchemaLibrary;
+  /** Name of the exported contract constant (default: 'contract') */
+  name?: string;
+  /** Module the contract helpers are imported from (default: 'itty-spec') */
+  importPath?: string;
+};
+
+/**
+ * An OpenAPI 3.0 or 3.1 document
+ */
+export type OpenApiDocument = OpenAPIV3.Document | OpenAPIV3_1.Document;
+
+/**
+ * Loosely typed JSON Schema - 3.0 and 3.1 schema objects differ in several keywords
+ */
+type JsonSchema = Record<string, any>;
+
+/**
+ * State shared while generating the source of a document
+ */
+type GeneratorContext = {
+  document: OpenApiDocument;
+  lib: SchemaLibrary;
+  /** Component schema name -> exported constant name */
+  schemaNames: Map<string, string>;
+  /** Component schemas already emitted (refs to the others need lazy()) */
+  declared: Set<string>;
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+/**
+ * Headers described by the HTTP machinery rather than by parameters (ignored, as in OpenAPI)
+ */
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+/**
+ * Global types that exported type names must not shadow (generated types reference some of them)
+ */
+const GLOBAL_TYPE_NAMES = new Set([
+  'Array',
+  'ArrayBuffer',
+  'Awaited',
+  'BigInt',
+  'Blob',
+  'Boolean',
+  'Date',
+  'Error',
+  'Exclude',
+  'Extract',
+  'File',
+  'FormData',
+  'Function',
+  'Headers',
+  'JSON',
+  'Map',
+  'Math',
+  'NonNullable',
+  'Number',
+  'Object',
+  'Omit',
+  'Partial',
+  'Pick',
+  'Promise',
+  'Readonly',
+  'ReadableStream',
+  'Record',
+  'RegExp',
+  'Request',
+  'Required',
+  'Response',
+  'ReturnType',
+  'Set',
+  'String',
+  'Symbol',
+  'URL',
+  'WeakMap',
+  'WeakSet',
+]);
+
+/**
+ * Generate the TypeScript source of a contract from an OpenAPI 3.0/3.1 document
+ *
+ * The source exports every `components.schemas` entry as a named schema (with its inferred
+ * type), followed by a `createContract` call with one operation per path and method. Operations
+ * keep their `operationId`, summary, description, tags and security requirements; parameters
+ * become `pathParams`, `query`, `headers` and `cookies` schemas, request bodies become
+ * `requests` and responses are mapped per status code and content type. Path params that are
+ * not identifiers are camelCased, and type names of globals (`Error`) are prefixed with `_`.
+ *
+ * Limitations: external `$ref`s become `unknown`, status code ranges (`2XX`) are skipped, and
+ * security schemes must still be registered with defineSecuritySchemes.
+ *
+ * @param document - The OpenAPI document (JSON-parsed)
+ * @param options - Schema library, contract name and import path
+ * @returns The generated TypeScript source
+ *
+ * @example
+ * ```typescript
+ * const source = generateContractSource(JSON.parse(await readFile('openapi.json', 'utf8')), {
+ *   schemas: 'valibot',
+ * });
+ * ```
+ */
+export function generateContractSource(
+  document: OpenApiDocument,
+  options: ContractSourceOptions = {}
+): string {
+  const { schemas: lib = 'zod', name = 'contract', importPath = 'itty-spec' } = options;
+  if (!document || typeof document.openapi !== 'string' || !/^3\.[01]\./.test(document.openapi)) {
+    throw new Error('Only OpenAPI 3.0 and 3.1 documents can be imported');
+  }
+
+  const ctx: GeneratorContext = {
+    document,
+    lib,
+    schemaNames: new Map(),
+    declared: new Set(),
+  };
+  const componentSchemas = (document.components?.schemas ?? {}) as Record<string, JsonSchema>;
+  const usedNames = new Set<string>();
+  for (const componentName of Object.keys(componentSchemas)) {
+    ctx.schemaNames.set(
+      componentName,
+      uniqueName(`${toPascalCase(componentName)}Schema`, usedNames)
+    );
+  }
+
+  const lines = [
+    `// Generated from "${document.info?.title ?? 'OpenAPI document'}"${document.info?.version ? ` ${document.info.version}` : ''} by itty-spec`,
+    `import { createContract } from ${quote(importPath)};`,
+    lib === 'zod' ? `import { z } from 'zod';` : `import * as v from 'valibot';`,
+    '',
+  ];
+
+  const cyclic = findCyclicComponents(componentSchemas);
+  for (const componentName of sortComponents(componentSchemas)) {
+    const schema = componentSchemas[componentName];
+    const constName = ctx.schemaNames.get(componentName)!;
+    const typeName = toTypeName(constName);
+    if (cyclic.has(componentName)) {
+      // Recursive schemas cannot infer their own type, so it is written out and annotated
+      const annotation = lib === 'zod' ? `z.ZodType<${typeName}>` : `v.GenericSchema<${typeName}>`;
+      lines.push(
+        `export type ${typeName} = ${renderType(schema, ctx, '')};`,
+        `export const ${constName}: ${annotation} = ${renderSchema(schema, ctx, '')};`,
+        ''
+      );
+    } else {
+      lines.push(
+        `export const ${constName} = ${renderSchema(schema, ctx, '')};`,
+        lib === 'zod'
+          ? `export type ${typeName} = z.infer<typeof ${constName}>;`
+          : `export type ${typeName} = v.InferOutput<typeof ${constName}>;`,
+        ''
+      );
+    }
+    ctx.declared.add(componentName);
+  }
+
+  const operations = renderOperations(ctx);
+  lines.push(`export const ${name} = createContract({`, ...operations, '});', '');
+  return lines.join('\n');
+}
+
+/**
+ * Render every operation of the document as contract entries
+ */
+function renderOperations(ctx: GeneratorContext): string[] {
+  const lines: string[] = [];
+  const usedKeys = new Set<string>();
+  const defaultSecurity = ctx.document.security;
+
+  for (const [path, rawPathItem] of Object.entries(ctx.document.paths ?? {})) {
+    const pathItem = resolveRef<OpenAPIV3.PathItemObject>(ctx, rawPathItem);
+    if (!pathItem) continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as OpenAPIV3.OperationObject | undefined;
+      if (!operation) continue;
+
+      const key = uniqueName(
+        toCamelCase(operation.operationId || `${method} ${path.replace(/[{}]/g, '')}`),
+        usedKeys
+      );
+      // Route params must be identifiers, so other names (`{pet-id}`) are camelCased
+      const paramNames = new Map<string, string>();
+      const usedParams = new Set<string>();
+      const routePath = path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+        const param = uniqueName(
+          /^[A-Za-z_]\w*$/.test(name) ? name : toCamelCase(name),
+          usedParams
+        );
+        paramNames.set(name, param);
+        return `:${param}`;
+      });
+
+      const entries: string[] = [];
+      if (operation.operationId) entries.push(`operationId: ${quote(operation.operationId)},`);
+      entries.push(`path: ${quote(routePath)},`);
+      entries.push(`method: ${quote(method.toUpperCase())},`);
+      if (operation.summary) entries.push(`summary: ${quote(operation.summary)},`);
+      if (operation.description) entries.push(`description: ${quote(operation.description)},`);
+      if (operation.tags?.length) {
+        entries.push(`tags: [${operation.tags.map((tag) => quote(tag)).join(', ')}],`);
+      }
+
+      const parameters = mergeParameters(ctx, pathItem.parameters, operation.parameters);
+      for (const [location, key] of [
+        ['path', 'pathParams'],
+        ['query', 'query'],
+        ['header', 'headers'],
+        ['cookie', 'cookies'],
+      ] as const) {
+        const schema = renderParameters(ctx, parameters, location, '    ', paramNames);
+        if (schema) entries.push(`${key}: ${schema},`);
+      }
+
+      const requestBody = resolveRef<OpenAPIV3.RequestBodyObject>(ctx, operation.requestBody);
+      if (requestBody?.content && Object.keys(requestBody.content).length > 0) {
+        entries.push('requests: {');
+        for (const [contentType, media] of Object.entries(requestBody.content)) {
+          const body = renderMediaSchema(ctx, media, '        ');
+          entries.push(...renderMediaEntry(contentType, body, null, '  '));
+        }
+        entries.push('},');
+      }
+
+      entries.push('responses: {', ...renderResponses(ctx, operation.responses ?? {}), '},');
+
+      const security = operation.security ?? defaultSecurity;
+      if (security) entries.push(`security: ${renderSecurity(security)},`);
+
+      lines.push(`  ${renderKey(key)}: {`, ...entries.map((entry) => `    ${entry}`), '  },');
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render the responses of an operation, per status code and content type
+ */
+function renderResponses(ctx: GeneratorContext, responses: OpenAPIV3.ResponsesObject): string[] {
+  const lines: string[] = [];
+  for (const [status, rawResponse] of Object.entries(responses)) {
+    if (status !== 'default' && !/^\d{3}$/.test(status)) {
+      lines.push(`  // ${status}: status code ranges are not supported`);
+      continue;
+    }
+    const response = resolveRef<OpenAPIV3.ResponseObject>(ctx, rawResponse);
+    if (!response) continue;
+
+    const headers = renderResponseHeaders(ctx, response.headers, '          ');
+    lines.push(`  ${status === 'default' ? 'default' : status}: {`);
+    if (response.content && Object.keys(response.content).length > 0) {
+      for (const [contentType, media] of Object.entries(response.content)) {
+        const body = renderMediaSchema(ctx, media, '          ');
+        lines.push(...renderMediaEntry(contentType, body, headers, '    '));
+      }
+    } else {
+      // Responses without content are declared with a void body
+      lines.push(...renderMediaEntry('application/json', call(ctx, 'void'), headers, '    '));
+    }
+    lines.push('  },');
+  }
+  return lines;
+}
+
+/**
+ * Render a content type entry - on one line unless it has headers or a multi-line body
+ */
+function renderMediaEntry(
+  contentType: string,
+  body: string,
+  headers: string | null,
+  indent: string
+): string[] {
+  if (!headers && !body.includes('\n'))
+    return [`${indent}${quote(contentType)}: { body: ${body} },`];
+  return [
+    `${indent}${quote(contentType)}: {`,
+    `${indent}  body: ${body},`,
+    ...(headers ? [`${indent}  headers: ${headers},`] : []),
+    `${indent}},`,
+  ];
+}
+
+/**
+ * Render the schema of a media type object (`unknown` when it declares none)
+ */
+function renderMediaSchema(
+  ctx: GeneratorContext,
+  media: OpenAPIV3.MediaTypeObject,
+  indent: string
+): string {
+  return media.schema ? renderSchema(media.schema, ctx, indent) : call(ctx, 'unknown');
+}
+
+/**
+ * Render response headers as an object schema (header names lowercased)
+ */
+function renderResponseHeaders(
+  ctx: GeneratorContext,
+  headers: OpenAPIV3.ResponseObject['headers'],
+  indent: string
+): string | null {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [name, rawHeader] of Object.entries(headers ?? {})) {
+    const header = resolveRef<OpenAPIV3.HeaderObject>(ctx, rawHeader);
+    if (!header) continue;
+    const key = name.toLowerCase();
+    properties[key] = withDescription(header.schema ?? { type: 'string' }, header.description);
+    if (header.required) required.push(key);
+  }
+  if (Object.keys(properties).length === 0) return null;
+  return renderSchema({ type: 'object', properties, required }, ctx, indent);
+}
+
+/**
+ * Merge path-level and operation-level parameters (operation parameters win)
+ */
+function mergeParameters(
+  ctx: GeneratorContext,
+  ...lists: (OpenAPIV3.PathItemObject['parameters'] | undefined)[]
+): OpenAPIV3.ParameterObject[] {
+  const merged = new Map<string, OpenAPIV3.ParameterObject>();
+  for (const list of lists) {
+    for (const rawParameter of list ?? []) {
+      const parameter = resolveRef<OpenAPIV3.ParameterObject>(ctx, rawParameter);
+      if (parameter) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Render the parameters of one location as an object schema
+ *
+ * Path params are only emitted when one of them is not a plain string (the path already types
+ * them as strings); path and header values are coerced from strings where needed.
+ *
+ * @param paramNames - Path param name -> route param name, for names renamed in the path
+ */
+function renderParameters(
+  ctx: GeneratorContext,
+  parameters: OpenAPIV3.ParameterObject[],
+  location: 'path' | 'query' | 'header' | 'cookie',
+  indent: string,
+  paramNames: Map<string, string> = new Map()
+): string | null {
+  const selected = parameters.filter(
+    (parameter) =>
+      parameter.in === location &&
+      !(location === 'header' && IGNORED_HEADERS.includes(parameter.name.toLowerCase()))
+  );
+  if (selected.length === 0) return null;
+
+  const schemas = selected.map((parameter) => {
+    const schema = parameter.schema ??
+      Object.values(parameter.content ?? {})[0]?.schema ?? { type: 'string' };
+    return withDescription(schema, parameter.description);
+  });
+  const coerce = location === 'path' || location === 'header';
+  if (
+    location === 'path' &&
+    schemas.every((schema) => getScalarType(ctx, schema) === 'string' && !hasChecks(schema))
+  ) {
+    return null;
+  }
+
+  const entries = selected.map((parameter, i) => {
+    const name =
+      location === 'header'
+        ? parameter.name.toLowerCase()
+        : location === 'path'
+          ? (paramNames.get(parameter.name) ?? parameter.name)
+          : parameter.name;
+    let value = coerce
+      ? renderCoercedSchema(ctx, schemas[i], `${indent}  `)
+      : renderSchema(schemas[i], ctx, `${indent}  `);
+    if (!parameter.required && location !== 'path') value = optional(ctx, value);
+    return `${indent}  ${renderKey(name)}: ${value},`;
+  });
+  return `${call(ctx, 'object')}({\n${entries.join('\n')}\n${indent}})`;
+}
+
+/**
+ * Render a schema for a value received as a string (path params, headers), coercing numbers
+ * and booleans
+ */
+function renderCoercedSchema(ctx: GeneratorContext, schema: JsonSchema, indent: string): string {
+  const type = getScalarType(ctx, schema);
+  if (type !== 'number' && type !== 'integer' && type !== 'boolean') {
+    return renderSchema(schema, ctx, indent);
+  }
+  const resolved = resolveSchema(ctx, schema);
+  if (type === 'boolean') {
+    return ctx.lib === 'zod'
+      ? 'z.stringbool()'
+      : `v.pipe(v.picklist(['true', 'false']), v.transform((value) => value === 'true'))`;
+  }
+  const checks = numberChecks(ctx.lib, resolved!, type === 'integer');
+  return ctx.lib === 'zod'
+    ? `z.coerce.number()${checks.map((check) => `.${check}`).join('')}`
+    : `v.pipe(${['v.string()', 'v.toNumber()', ...checks.map((check) => `v.${check}`)].join(', ')})`;
+}
+
+/**
+ * Render security requirements
+ */
+function renderSecurity(security: OpenAPIV3.SecurityRequirementObject[]): string {
+  const requirements = security.map((requirement) => {
+    const entries = Object.entries(requirement).map(
+      ([scheme, scopes]) =>
+        `${renderKey(scheme)}: [${scopes.map((scope) => quote(scope)).join(', ')}]`
+    );
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  });
+  return `[${requirements.join(', ')}]`;
+}
+
+/**
+ * Render a JSON Schema as schema library code
+ *
+ * @param indent - Indentation of the line the schema starts on (nested objects are indented
+ *   one level deeper)
+ */
+function renderSchema(input: unknown, ctx: GeneratorContext, indent: string): string {
+  const schema = (input ?? {}) as JsonSchema;
+  const { lib } = ctx;
+
+  if (typeof schema.$ref === 'string') {
+    const componentName = schema.$ref.match(/^#\/components\/schemas\/([^/]+)$/)?.[1];
+    const constName = componentName && ctx.schemaNames.get(decodePointer(componentName));
+    if (constName) {
+      return ctx.declared.has(decodePointer(componentName))
+        ? constName
+        : `${call(ctx, 'lazy')}(() => ${constName})`;
+    }
+    const target = resolveRef<JsonSchema>(ctx, schema);
+    return target && target !== schema ? renderSchema(target, ctx, indent) : call(ctx, 'unknown');
+  }
+
+  let nullable = schema.nullable === true;
+  let code: string;
+  const actions: string[] = [];
+
+  const types: string[] = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : [];
+  if (types.includes('null') && types.length > 1) nullable = true;
+  const nonNullTypes = types.filter((type) => type !== 'null');
+
+  if (schema.const !== undefined) {
+    code = `${call(ctx, 'literal')}(${literal(schema.const)})`;
+  } else if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((value: unknown) => value !== null);
+    if (values.length < schema.enum.length) nullable = true;
+    code = renderEnum(ctx, values);
+  } else if (schema.oneOf || schema.anyOf) {
+    const variants = (schema.oneOf ?? schema.anyOf) as JsonSchema[];
+    const nonNull = variants.filter((variant) => variant?.type !== 'null');
+    if (nonNull.length < variants.length) nullable = true;
+    const rendered = nonNull.map((variant) => renderSchema(variant, ctx, indent));
+    code = rendered.length === 1 ? rendered[0] : `${call(ctx, 'union')}([${rendered.join(', ')}])`;
+  } else if (schema.allOf) {
+    const parts = (schema.allOf as JsonSchema[]).map((part) => renderSchema(part, ctx, indent));
+    code =
+      parts.length === 1
+        ? parts[0]
+        : lib === 'zod'
+          ? parts.reduce((left, right) => `z.intersection(${left}, ${right})`)
+          : `v.intersect([${parts.join(', ')}])`;
+  } else if (schema.not && Object.keys(schema.not).length === 0) {
+    code = call(ctx, 'never');
+  } else if (nonNullTypes.length > 1) {
+    const rendered = nonNullTypes.map((type) => renderSchema({ ...schema, type }, ctx, indent));
+    code = `${call(ctx, 'union')}([${rendered.join(', ')}])`;
+  } else {
+    const type =
+      nonNullTypes[0] ??
+      (types.includes('null')
+        ? 'null'
+        : schema.properties
+          ? 'object'
+          : schema.items
+            ? 'array'
+            : undefined);
+    const [base, ...checks] = renderTyped(ctx, schema, type, indent);
+    code = base;
+    actions.push(...checks);
+  }
+
+  if (schema.description) {
+    actions.push(
+      lib === 'zod'
+        ? `describe(${quote(schema.description)})`
+        : `description(${quote(schema.description)})`
+    );
+  }
+  code = applyActions(lib, code, actions);
+  if (nullable) code = lib === 'zod' ? `${code}.nullable()` : `v.nullable(${code})`;
+  return code;
+}
+
+/**
+ * Render a schema of a single JSON type
+ * Returns the base code followed by its checks (zod methods / valibot pipe actions).
+ */
+function renderTyped(
+  ctx: GeneratorContext,
+  schema: JsonSchema,
+  type: string | undefined,
+  indent: string
+): string[] {
+  const { lib } = ctx;
+  switch (type) {
+    case 'string':
+      // Binary strings are file parts of multipart bodies
+      if (schema.format === 'binary') return [lib === 'zod' ? 'z.instanceof(File)' : 'v.file()'];
+      return renderString(lib, schema);
+    case 'number':
+    case 'integer':
+      return [call(ctx, 'number')].concat(numberChecks(lib, schema, type === 'integer'));
+    case 'boolean':
+      return [call(ctx, 'boolean')];
+    case 'null':
+      return [lib === 'zod' ? 'z.null()' : 'v.null_()'];
+    case 'array': {
+      const sizeChecks = [];
+      if (schema.minItems !== undefined) {
+        sizeChecks.push(
+          lib === 'zod' ? `min(${schema.minItems})` : `minLength(${schema.minItems})`
+        );
+      }
+      if (schema.maxItems !== undefined) {
+        sizeChecks.push(
+          lib === 'zod' ? `max(${schema.maxItems})` : `maxLength(${schema.maxItems})`
+        );
+      }
+      const tuple = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+      if (tuple) {
+        const items = (tuple as JsonSchema[]).map((item) => renderSchema(item, ctx, indent));
+        return [`${call(ctx, 'tuple')}([${items.join(', ')}])`];
+      }
+      return [
+        `${call(ctx, 'array')}(${renderSchema(schema.items ?? {}, ctx, indent)})`,
+        ...sizeChecks,
+      ];
+    }
+    case 'object':
+      return [renderObject(ctx, schema, indent)];
+    default:
+      return [call(ctx, 'unknown')];
+  }
+}
+
+/**
+ * Render a string schema with its format and length/pattern checks
+ */
+function renderString(lib: SchemaLibrary, schema: JsonSchema): string[] {
+  const formats: Record<string, [zod: string, valibot: string]> = {
+    email: ['z.email()', 'email()'],
+    uuid: ['z.uuid()', 'uuid()'],
+    uri: ['z.url()', 'url()'],
+    url: ['z.url()', 'url()'],
+    'date-time': ['z.iso.datetime()', 'isoTimestamp()'],
+    date: ['z.iso.date()', 'isoDate()'],
+    time: ['z.iso.time()', 'isoTime()'],
+    ipv4: ['z.ipv4()', 'ipv4()'],
+    ipv6: ['z.ipv6()', 'ipv6()'],
+  };
+  const format = formats[schema.format as string];
+  const result =
+    lib === 'zod' ? [format?.[0] ?? 'z.string()'] : ['v.string()', ...(format ? [format[1]] : [])];
+
+  if (schema.minLength !== undefined) {
+    result.push(lib === 'zod' ? `min(${schema.minLength})` : `minLength(${schema.minLength})`);
+  }
+  if (schema.maxLength !== undefined) {
+    result.push(lib === 'zod' ? `max(${schema.maxLength})` : `maxLength(${schema.maxLength})`);
+  }
+  if (schema.pattern) result.push(`regex(new RegExp(${quote(schema.pattern)}))`);
+  return result;
+}
+
+/**
+ * Get the checks of a number schema (3.0 boolean and 3.1 numeric exclusive bounds)
+ */
+function numberChecks(lib: SchemaLibrary, schema: JsonSchema, integer: boolean): string[] {
+  const checks: string[] = [];
+  if (integer) checks.push(lib === 'zod' ? 'int()' : 'integer()');
+
+  const exclusiveMin =
+    typeof schema.exclusiveMinimum === 'number'
+      ? schema.exclusiveMinimum
+      : schema.exclusiveMinimum === true
+        ? schema.minimum
+        : undefined;
+  const exclusiveMax =
+    typeof schema.exclusiveMaximum === 'number'
+      ? schema.exclusiveMaximum
+      : schema.exclusiveMaximum === true
+        ? schema.maximum
+        : undefined;
+
+  if (exclusiveMin !== undefined) {
+    checks.push(lib === 'zod' ? `gt(${exclusiveMin})` : `gtValue(${exclusiveMin})`);
+  } else if (schema.minimum !== undefined) {
+    checks.push(lib === 'zod' ? `min(${schema.minimum})` : `minValue(${schema.minimum})`);
+  }
+  if (exclusiveMax !== undefined) {
+    checks.push(lib === 'zod' ? `lt(${exclusiveMax})` : `ltValue(${exclusiveMax})`);
+  } else if (schema.maximum !== undefined) {
+    checks.push(lib === 'zod' ? `max(${schema.maximum})` : `maxValue(${schema.maximum})`);
+  }
+  if (schema.multipleOf !== undefined) checks.push(`multipleOf(${schema.multipleOf})`);
+  return checks;
+}
+
+/**
+ * Render an object schema - a record when it only declares additionalProperties
+ */
+function renderObject(ctx: GeneratorContext, schema: JsonSchema, indent: string): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const additional = schema.additionalProperties;
+
+  if (Object.keys(properties).length === 0) {
+    if (additional === false) return `${call(ctx, 'object')}({})`;
+    const values =
+      additional && typeof additional === 'object'
+        ? renderSchema(additional, ctx, indent)
+        : call(ctx, 'unknown');
+    return `${call(ctx, 'record')}(${call(ctx, 'string')}(), ${values})`;
+  }
+
+  const required = new Set<string>(schema.required ?? []);
+  const entries = Object.entries(properties).map(([key, property]) => {
+    let value = renderSchema(property, ctx, `${indent}  `);
+    if (!required.has(key)) {
+      const fallback = resolveSchema(ctx, property)?.default;
+      value = optional(ctx, value, fallback);
+    }
+    return `${indent}  ${renderKey(key)}: ${value},`;
+  });
+  const factory = additional === true ? call(ctx, 'looseObject') : call(ctx, 'object');
+  return `${factory}({\n${entries.join('\n')}\n${indent}})`;
+}
+
+/**
+ * Render a JSON Schema as a TypeScript type (used for recursive component schemas)
+ */
+function renderType(input: unknown, ctx: GeneratorContext, indent: string): string {
+  const schema = (input ?? {}) as JsonSchema;
+
+  if (typeof schema.$ref === 'string') {
+    const componentName = schema.$ref.match(/^#\/components\/schemas\/([^/]+)$/)?.[1];
+    const constName = componentName && ctx.schemaNames.get(decodePointer(componentName));
+    if (constName) return toTypeName(constName);
+    const target = resolveRef<JsonSchema>(ctx, schema);
+    return target && target !== schema ? renderType(target, ctx, indent) : 'unknown';
+  }
+
+  const types: string[] = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : [];
+  let type: string;
+  if (schema.const !== undefined) {
+    type = literal(schema.const);
+  } else if (Array.isArray(schema.enum)) {
+    type = schema.enum.map((value: unknown) => literal(value)).join(' | ') || 'never';
+  } else if (schema.oneOf || schema.anyOf) {
+    type = ((schema.oneOf ?? schema.anyOf) as JsonSchema[])
+      .map((variant) => renderType(variant, ctx, indent))
+      .join(' | ');
+  } else if (schema.allOf) {
+    type = (schema.allOf as JsonSchema[])
+      .map((part) => renderType(part, ctx, indent))
+      .map((part) => (part.includes(' | ') ? `(${part})` : part))
+      .join(' & ');
+  } else if (schema.not && Object.keys(schema.not).length === 0) {
+    type = 'never';
+  } else if (types.length > 1) {
+    type = types.map((item) => renderType({ ...schema, type: item }, ctx, indent)).join(' | ');
+  } else {
+    switch (types[0] ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined)) {
+      case 'string':
+        type = schema.format === 'binary' ? 'File' : 'string';
+        break;
+      case 'number':
+      case 'integer':
+        type = 'number';
+        break;
+      case 'boolean':
+        type = 'boolean';
+        break;
+      case 'null':
+        type = 'null';
+        break;
+      case 'array': {
+        const tuple =
+          schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+        type = tuple
+          ? `[${(tuple as JsonSchema[]).map((item) => renderType(item, ctx, indent)).join(', ')}]`
+          : `Array<${renderType(schema.items ?? {}, ctx, indent)}>`;
+        break;
+      }
+      case 'object':
+        type = renderObjectType(ctx, schema, indent);
+        break;
+      default:
+        type = 'unknown';
+    }
+  }
+  return schema.nullable === true ? `${type} | null` : type;
+}
+
+/**
+ * Render an object schema as a TypeScript type
+ */
+function renderObjectType(ctx: GeneratorContext, schema: JsonSchema, indent: string): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const additional = schema.additionalProperties;
+
+  if (Object.keys(properties).length === 0) {
+    if (additional === false) return 'Record<string, never>';
+    const values =
+      additional && typeof additional === 'object'
+        ? renderType(additional, ctx, indent)
+        : 'unknown';
+    return `Record<string, ${values}>`;
+  }
+
+  const required = new Set<string>(schema.required ?? []);
+  const entries = Object.entries(properties).map(
+    ([key, property]) =>
+      `${indent}  ${renderKey(key)}${required.has(key) ? '' : '?'}: ${renderType(property, ctx, `${indent}  `)};`
+  );
+  if (additional === true) entries.push(`${indent}  [key: string]: unknown;`);
+  return `{\n${entries.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Render an enum - a picklist/enum of strings, a literal, or a union of literals
+ */
+function renderEnum(ctx: GeneratorContext, values: unknown[]): string {
+  if (values.length === 1) return `${call(ctx, 'literal')}(${literal(values[0])})`;
+  if (values.length > 0 && values.every((value) => typeof value === 'string')) {
+    const list = `[${values.map((value) => literal(value)).join(', ')}]`;
+    return ctx.lib === 'zod' ? `z.enum(${list})` : `v.picklist(${list})`;
+  }
+  const literals = values.map((value) => `${call(ctx, 'literal')}(${literal(value)})`);
+  return `${call(ctx, 'union')}([${literals.join(', ')}])`;
+}
+
+/**
+ * Mark a property as optional, with an optional default value
+ */
+function optional(ctx: GeneratorContext, code: string, fallback?: unknown): string {
+  if (ctx.lib === 'zod') {
+    return fallback === undefined ? `${code}.optional()` : `${code}.default(${literal(fallback)})`;
+  }
+  return fallback === undefined
+    ? `v.optional(${code})`
+    : `v.optional(${code}, ${literal(fallback)})`;
+}
+
+/**
+ * Apply checks to a base schema - chained methods for zod, a pipe for valibot
+ */
+function applyActions(lib: SchemaLibrary, code: string, actions: string[]): string {
+  if (actions.length === 0) return code;
+  if (lib === 'zod') return code + actions.map((action) => `.${action}`).join('');
+  return `v.pipe(${[code, ...actions.map((action) => `v.${action}`)].join(', ')})`;
+}
+
+/**
+ * Reference a schema factory of the selected library (`z.string`, `v.string`, ...)
+ */
+function call(ctx: GeneratorContext, factory: string): string {
+  const code = `${ctx.lib === 'zod' ? 'z' : 'v'}.${factory}`;
+  return ['unknown', 'never', 'void', 'boolean', 'number'].includes(factory) ? `${code}()` : code;
+}
+
+/**
+ * Resolve a local `$ref` (any `#/...` JSON pointer), returning other values as-is
+ * Returns undefined for external references.
+ */
+function resolveRef<T>(ctx: GeneratorContext, value: unknown, depth = 0): T | undefined {
+  if (!value || typeof value !== 'object' || !('$ref' in value)) return value as T;
+  const ref = (value as { $ref: unknown }).$ref;
+  if (typeof ref !== 'string' || !ref.startsWith('#/') || depth > 20) return undefined;
+
+  let target: unknown = ctx.document;
+  for (const segment of ref.slice(2).split('/')) {
+    target = (target as Record<string, unknown> | undefined)?.[decodePointer(segment)];
+  }
+  return resolveRef<T>(ctx, target, depth + 1);
+}
+
+/**
+ * Resolve a schema through its `$ref`s
+ */
+function resolveSchema(ctx: GeneratorContext, schema: unknown): JsonSchema | undefined {
+  return resolveRef<JsonSchema>(ctx, schema);
+}
+
+/**
+ * Get the single non-null JSON type of a schema, if any
+ */
+function getScalarType(ctx: GeneratorContext, schema: unknown): string | undefined {
+  const resolved = resolveSchema(ctx, schema);
+  if (!resolved) return undefined;
+  const types = (Array.isArray(resolved.type) ? resolved.type : [resolved.type]).filter(
+    (type: unknown) => type && type !== 'null'
+  );
+  return types.length === 1 ? types[0] : undefined;
+}
+
+/**
+ * Check whether a schema declares constraints beyond its type
+ */
+function hasChecks(schema: JsonSchema): boolean {
+  return ['format', 'pattern', 'minLength', 'maxLength', 'enum', 'const', '$ref'].some(
+    (key) => schema[key] !== undefined
+  );
+}
+
+/**
+ * Attach a description to a schema unless it has its own
+ */
+function withDescription(schema: unknown, description: string | undefined): JsonSchema {
+  const base = schema as JsonSchema;
+  return description && !base.description && !base.$ref ? { ...base, description } : base;
+}
+
+/**
+ * Order component schemas so that dependencies are declared first
+ * Cycles are left in place - their back references are emitted with lazy().
+ */
+function sortComponents(schemas: Record<string, JsonSchema>): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name) || !(name in schemas)) return;
+    visited.add(name);
+    for (const dependency of collectRefs(schemas[name])) visit(dependency);
+    order.push(name);
+  };
+  for (const name of Object.keys(schemas)) visit(name);
+  return order;
+}
+
+/**
+ * Find the component schemas that reference themselves, directly or through other components
+ */
+function findCyclicComponents(schemas: Record<string, JsonSchema>): Set<string> {
+  const refs = new Map(
+    Object.entries(schemas).map(([name, schema]) => [name, collectRefs(schema)])
+  );
+  const cyclic = new Set<string>();
+
+  for (const name of refs.keys()) {
+    const seen = new Set<string>();
+    const pending = [...refs.get(name)!];
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      if (current === name) {
+        cyclic.add(name);
+        break;
+      }
+      if (seen.has(current)) continue;
+      seen.add(current);
+      pending.push(...(refs.get(current) ?? []));
+    }
+  }
+  return cyclic;
+}
+
+/**
+ * Collect the component schema names referenced by a schema
+ */
+function collectRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) collectRefs(item, refs);
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === '$ref' && typeof item === 'string') {
+        const name = item.match(/^#\/components\/schemas\/([^/]+)$/)?.[1];
+        if (name) refs.add(decodePointer(name));
+      } else {
+        collectRefs(item, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Decode a JSON pointer segment
+ */
+function decodePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Convert a name into a PascalCase identifier
+ */
+function toPascalCase(name: string): string {
+  const identifier = name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier || 'Schema';
+}
+
+/**
+ * Get the type name exported alongside a component schema constant
+ * Names of global types are prefixed with `_` so that they are not shadowed.
+ */
+function toTypeName(constName: string): string {
+  const typeName = constName.replace(/Schema$/, '');
+  return GLOBAL_TYPE_NAMES.has(typeName) ? `_${typeName}` : typeName;
+}
+
+/**
+ * Convert a name into a camelCase identifier
+ */
+function toCamelCase(name: string): string {
+  const pascal = toPascalCase(name);
+  return pascal.startsWith('_') ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Make a name unique by appending a counter
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let i = 2; used.has(unique); i++) unique = `${name}${i}`;
+  used.add(unique);
+  return unique;
+}
+
+/**
+ * Render an object key - bare when it is a valid identifier
+ */
+function renderKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+/**
+ * Render a single-quoted string literal
+ */
+function quote(value: string): string {
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')}'`;
+}
+
+/**
+ * Render a JSON value as a literal
+ */
+function literal(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+}
@@ -2,12 +2,28 @@ import type { StandardSchemaV1 } from '@standard-schema/spec';
 import {
   ContractDefinition,
   ContractOperation,
+  ErrorFormat,
+  ErrorFormatter,
   HttpMethod,
+  QueryParameterStyle,
   RequestByContentType,
   ResponseByContentType,
+  ResponseSchema,
+  SecuritySchemeRegistry,
+  VersioningOptions,
+  WebhookDefinition,
+  WebhookDefinitions,
 } from '../types';
 import type { OpenAPIV3_1 } from 'openapi-types';
 import { extractSchemaAsync } from './vendors/index';
+import { getStatusTitle, resolveErrorFormatter } from '../errors';
+import { isEventStream } from '../streaming';
+import { expandOptionalSegments, parsePathPattern } from '../path';
+import { resolveVersioning, selectVersionOperations } from '../versioning';
+
+export * from './diff';
+export * from './import';
+export * from './lint';
 
 /**
  * Schema registry for deduplication and reference management
@@ -87,6 +103,20 @@ class SchemaRegistry {
     return id;
   }
 
+  /**
+   * Add a JSON Schema under a fixed ID
+   */
+  define(id: string, schema: OpenAPIV3_1.SchemaObject): void {
+    this.schemas[id] = schema;
+  }
+
+  /**
+   * Get a registered schema by its ID
+   */
+  get(id: string): OpenAPIV3_1.SchemaObject | undefined {
+    return this.schemas[id];
+  }
+
   /**
    * Get components object for OpenAPI document
    */
@@ -183,6 +213,33 @@ export type OpenApiSpecificationOptions = {
   license?: OpenAPIV3_1.LicenseObject;
   servers?: OpenAPIV3_1.ServerObject[];
   tags?: OpenAPIV3_1.TagObject[];
+  /**
+   * Error response format used by the router. When set, 400, 415 (operations with a request
+   * body) and 500 responses using the format's error schema are added to every operation
+   * that does not declare them.
+   */
+  errors?: ErrorFormat;
+  /** Security schemes referenced by operation `security` requirements (verifiers are omitted) */
+  securitySchemes?: SecuritySchemeRegistry;
+  /**
+   * API versioning of the router. The document then describes a single version (`apiVersion`):
+   * its operations only, under the version prefix when the `path` strategy is enabled, and
+   * marked deprecated when the version is.
+   */
+  versioning?: VersioningOptions;
+  /** API version to document (defaults to the default version of `versioning`) */
+  apiVersion?: string;
+  /** Additional external documentation for the API */
+  externalDocs?: OpenAPIV3_1.ExternalDocumentationObject;
+  /** Specification extensions added to the document */
+  extensions?: Record<`x-${string}`, unknown>;
+  /**
+   * Request body size limit of the router (see `maxBodySize` of createRouter), documented as
+   * `x-max-body-size` on request bodies of operations without their own limit
+   */
+  maxBodySize?: number;
+  /** Webhooks the API sends (see defineWebhooks), emitted under the document's `webhooks` */
+  webhooks?: WebhookDefinitions;
 };
 
 /**
@@ -194,9 +251,33 @@ export const createOpenApiSpecification = async (
 ): Promise<OpenAPIV3_1.Document> => {
   const reg = new SchemaRegistry();
 
+  // With versioning, only the operations of the documented version are included
+  if (options.apiVersion !== undefined && !options.versioning) {
+    throw new Error('apiVersion requires the versioning option');
+  }
+  const versioning = options.versioning && resolveVersioning(options.versioning);
+  const apiVersion =
+    versioning &&
+    (options.apiVersion === undefined
+      ? versioning.default
+      : versioning.versions.find((version) => version.name === options.apiVersion));
+  if (versioning && !apiVersion) throw new Error(`Unknown API version "${options.apiVersion}"`);
+  const operations = apiVersion
+    ? (selectVersionOperations(contract, versioning, apiVersion.name) as ContractDefinition)
+    : contract;
+  const pathPrefix =
+    apiVersion && versioning.strategies.includes('path') ? `/${apiVersion.name}` : '';
+
+  const webhooks = Object.entries(options.webhooks ?? {}).map(
+    ([name, webhook]) => [name, createWebhookOperation(webhook)] as const
+  );
+
   // First pass: collect all schemas
   const schemaPromises: Promise<void>[] = [];
-  Object.entries(contract).forEach(([opId, op]) => {
+  [
+    ...Object.entries(operations),
+    ...webhooks.map(([name, op]) => [`${name}Webhook`, op] as const),
+  ].forEach(([opId, op]) => {
     if (op.requests) {
       buildContent(
         op.requests,
@@ -230,25 +311,46 @@ export const createOpenApiSpecification = async (
   // Wait for all schemas to be registered
   await Promise.all(schemaPromises);
 
+  // Register the shared error schema
+  const errorContent = options.errors
+    ? await registerErrorSchema(resolveErrorFormatter(options.errors), reg)
+    : undefined;
+
   // Second pass: build paths
   const paths: OpenAPIV3_1.PathsObject = {};
-  for (const [opId, op] of Object.entries(contract)) {
-    const p = convertPathToOpenAPIFormat(op.path);
-    if (!paths[p]) {
-      paths[p] = {} as OpenAPIV3_1.PathItemObject;
+  for (const [opId, op] of Object.entries(operations)) {
+    const method = op.method.toLowerCase() as Lowercase<HttpMethod>;
+    const operation = await createOpenApiOperation(op, reg, opId, options.maxBodySize);
+    if (errorContent) {
+      addErrorResponses(operation, op, errorContent, op.maxBodySize ?? options.maxBodySize);
+    }
+    if (apiVersion?.deprecated) {
+      operation.deprecated = true;
     }
-    const pathItem = paths[p]! as OpenAPIV3_1.PathItemObject;
+    addOperationToPaths(paths, pathPrefix + op.path, method, operation);
+  }
+
+  const webhookItems: Record<string, OpenAPIV3_1.PathItemObject> = {};
+  for (const [name, op] of webhooks) {
     const method = op.method.toLowerCase() as Lowercase<HttpMethod>;
-    const operation = await createOpenApiOperation(op, reg, opId);
-    (pathItem as any)[method] = operation;
+    webhookItems[name] = { [method]: await createOpenApiOperation(op, reg, name) };
+  }
+
+  const components = reg.components;
+  if (options.securitySchemes) {
+    components.securitySchemes = createOpenApiSecuritySchemes(options.securitySchemes);
   }
 
   return {
     openapi: '3.1.1',
-    info: createOpenApiInfo(options),
+    info: createOpenApiInfo({ ...options, version: options.version ?? apiVersion?.name }),
     servers: options.servers,
-    components: reg.components,
+    tags: options.tags,
+    externalDocs: options.externalDocs,
+    components,
     paths,
+    ...(webhooks.length > 0 && { webhooks: webhookItems }),
+    ...options.extensions,
   };
 };
 
@@ -264,6 +366,21 @@ export const createOpenApiInfo = (options: OpenApiSpecificationOptions): OpenAPI
   };
 };
 
+/**
+ * Creates the OpenAPI security schemes from a security scheme registry
+ * Verifiers and scope resolvers are runtime-only and are left out.
+ */
+export const createOpenApiSecuritySchemes = (
+  schemes: SecuritySchemeRegistry
+): Record<string, OpenAPIV3_1.SecuritySchemeObject> => {
+  return Object.fromEntries(
+    Object.entries(schemes).map(([name, scheme]) => {
+      const { verify: _verify, getScopes: _getScopes, ...definition } = scheme;
+      return [name, definition as OpenAPIV3_1.SecuritySchemeObject];
+    })
+  );
+};
+
 /**
  * Creates the OpenAPI components
  */
@@ -277,27 +394,96 @@ export const createOpenApiComponents = (
 /**
  * Extract path parameter names from a path string
  * e.g., "/users/:id/posts/:postId" -> ["id", "postId"]
+ * Optional params are included; an unnamed `*` wildcard is documented as `wildcard`.
  */
 function extractPathParamNames(path: string): string[] {
-  const params: string[] = [];
-  const segments = path.split('/');
-  for (const segment of segments) {
-    if (segment.startsWith(':')) {
-      const paramName = segment.slice(1);
-      if (paramName) {
-        params.push(paramName);
+  const [template] = convertPathToOpenAPIFormat(path);
+  return [...template.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]);
+}
+
+/**
+ * Convert path format from :param to {param} (OpenAPI standard)
+ * e.g., "/users/:id" -> ["/users/{id}"]
+ *
+ * OpenAPI has no optional path params, so a path with optional segments is converted into one
+ * template per variant, the most specific first: "/users/:id?" -> ["/users/{id}", "/users"].
+ * Constraints are dropped from the template (see applyPathConstraints), rest params become
+ * `{name}` and the `*` wildcard becomes `{wildcard}`.
+ */
+function convertPathToOpenAPIFormat(path: string): string[] {
+  return expandOptionalSegments(parsePathPattern(path)).map(
+    (segments) =>
+      '/' +
+      segments
+        .map((segment) => {
+          if (segment.type === 'static') return segment.value;
+          if (segment.type === 'rest') return `{${segment.name ?? 'wildcard'}}`;
+          return segment.parts
+            .map((part) => (typeof part === 'string' ? part : `{${part.name}}`))
+            .join('');
+        })
+        .join('/')
+  );
+}
+
+/**
+ * Add the regex constraints of a path (e.g. `:id(\\d+)`) as `pattern` on string path parameters
+ */
+function applyPathConstraints(
+  parameters: OpenAPIV3_1.ParameterObject[],
+  path: string
+): OpenAPIV3_1.ParameterObject[] {
+  const constraints = new Map<string, string>();
+  for (const segment of parsePathPattern(path)) {
+    if (segment.type !== 'param') continue;
+    for (const part of segment.parts) {
+      if (typeof part !== 'string' && part.pattern !== undefined) {
+        constraints.set(part.name, part.pattern);
       }
     }
   }
-  return params;
+
+  return parameters.map((parameter) => {
+    const pattern = constraints.get(parameter.name);
+    const schema = parameter.schema as OpenAPIV3_1.SchemaObject | undefined;
+    if (pattern === undefined || !schema || schema.type !== 'string' || schema.pattern) {
+      return parameter;
+    }
+    return {
+      ...parameter,
+      schema: { ...schema, pattern: `^(?:${pattern})$` } as OpenAPIV3_1.ParameterObject['schema'],
+    };
+  });
 }
 
 /**
- * Convert path format from :param to {param} (OpenAPI standard)
- * e.g., "/users/:id" -> "/users/{id}"
+ * Add an operation to the paths object under every OpenAPI path its contract path expands to
+ * Variants without optional segments omit those parameters and the operationId (which must be
+ * unique across the document).
  */
-function convertPathToOpenAPIFormat(path: string): string {
-  return path.replace(/:([^/]+)/g, '{$1}');
+function addOperationToPaths(
+  paths: OpenAPIV3_1.PathsObject,
+  path: string,
+  method: Lowercase<HttpMethod>,
+  operation: OpenAPIV3_1.OperationObject
+): void {
+  convertPathToOpenAPIFormat(path).forEach((template, index) => {
+    const pathItem = (paths[template] ??= {}) as OpenAPIV3_1.PathItemObject;
+    if (index === 0) {
+      (pathItem as any)[method] = operation;
+      return;
+    }
+
+    const names = new Set([...template.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]));
+    const { operationId: _operationId, parameters, ...variant } = operation;
+    const variantParameters = (parameters as OpenAPIV3_1.ParameterObject[] | undefined)?.filter(
+      (parameter) => parameter.in !== 'path' || names.has(parameter.name)
+    );
+    (pathItem as any)[method] = {
+      ...variant,
+      ...(variantParameters?.length && { parameters: variantParameters }),
+    };
+  });
 }
 
 /**
@@ -314,7 +500,7 @@ function sanitize(contentType: string): string {
  */
 type ContentHandler<T> = (
   contentType: string,
-  schema: { body?: StandardSchemaV1; headers?: StandardSchemaV1 },
+  schema: Partial<ResponseSchema>,
   accumulator: T
 ) => void;
 
@@ -322,7 +508,7 @@ function buildContent<T>(map: Record<string, unknown>, handler: ContentHandler<T
   return Object.entries(map)
     .filter(([_, s]) => typeof s === 'object' && s !== null && 'body' in s)
     .reduce<T>((acc, [ct, s]) => {
-      handler(ct, s as { body?: StandardSchemaV1; headers?: StandardSchemaV1 }, acc);
+      handler(ct, s as Parameters<ContentHandler<T>>[1], acc);
       return acc;
     }, initial);
 }
@@ -333,7 +519,7 @@ function buildContent<T>(map: Record<string, unknown>, handler: ContentHandler<T
  */
 async function makeParameters(
   schema: StandardSchemaV1 | undefined,
-  location: 'path' | 'query' | 'header',
+  location: 'path' | 'query' | 'header' | 'cookie',
   path?: string,
   required: boolean = location === 'path'
 ): Promise<OpenAPIV3_1.ParameterObject[]> {
@@ -432,6 +618,85 @@ async function makeParameters(
   });
 }
 
+/**
+ * Check if a content type is multipart/form-data
+ */
+function isMultipart(contentType: string): boolean {
+  return contentType.split(';')[0].trim().toLowerCase() === 'multipart/form-data';
+}
+
+/**
+ * Mark file fields of a multipart body schema as `type: string, format: binary`
+ *
+ * File and Blob checks (e.g. `z.instanceof(File)`, `v.file()`) cannot be represented in
+ * JSON Schema and are extracted as empty schemas, so empty properties (and empty array items)
+ * of a multipart body are treated as file parts. The extracted schema may be shared (e.g.
+ * cached by the schema library), so a marked copy is returned instead of changing it - or the
+ * schema itself when it has no file parts.
+ */
+function markBinaryFields(schema: OpenAPIV3_1.SchemaObject): OpenAPIV3_1.SchemaObject {
+  if (typeof schema !== 'object' || !schema.properties) return schema;
+  const isUnrepresentable = (s: unknown) =>
+    !!s && typeof s === 'object' && Object.keys(s).length === 0;
+
+  const properties = { ...schema.properties };
+  let marked = false;
+  for (const [name, property] of Object.entries(properties)) {
+    if (isUnrepresentable(property)) {
+      properties[name] = { type: 'string', format: 'binary' };
+      marked = true;
+    } else if (
+      property &&
+      typeof property === 'object' &&
+      'type' in property &&
+      property.type === 'array' &&
+      isUnrepresentable(property.items)
+    ) {
+      properties[name] = { ...property, items: { type: 'string', format: 'binary' } };
+      marked = true;
+    }
+  }
+  return marked ? { ...schema, properties } : schema;
+}
+
+/**
+ * Apply OpenAPI style/explode settings to query parameters
+ * Object parameters without an explicit style default to deepObject, matching the router's
+ * query coercion.
+ */
+function applyQueryStyles(
+  parameters: OpenAPIV3_1.ParameterObject[],
+  styles: Record<string, QueryParameterStyle> = {}
+): OpenAPIV3_1.ParameterObject[] {
+  return parameters.map((parameter) => {
+    const style = styles[parameter.name];
+    if (style) {
+      return {
+        ...parameter,
+        ...(style.style !== undefined && { style: style.style }),
+        ...(style.explode !== undefined && { explode: style.explode }),
+      };
+    }
+    const schema = parameter.schema as OpenAPIV3_1.SchemaObject | undefined;
+    if (schema && typeof schema === 'object' && schema.type === 'object') {
+      return { ...parameter, style: 'deepObject', explode: true };
+    }
+    return parameter;
+  });
+}
+
+/**
+ * Mark the deprecated parameters (by name) with `deprecated: true`
+ */
+function markDeprecated(
+  parameters: OpenAPIV3_1.ParameterObject[],
+  names: readonly string[] = []
+): OpenAPIV3_1.ParameterObject[] {
+  return parameters.map((parameter) =>
+    names.includes(parameter.name) ? { ...parameter, deprecated: true } : parameter
+  );
+}
+
 /**
  * Create request body content from content-type map
  */
@@ -445,13 +710,22 @@ async function makeRequestContent(
 
   buildContent(
     requests,
-    async (ct, { body }) => {
+    async (ct, { body, examples }) => {
       if (body) {
         promises.push(
           reg.register(body, `${opId}Req${sanitize(ct)}`).then((ref) => {
+            const registered = typeof ref === 'string' ? reg.get(ref) : undefined;
+            const marked =
+              registered && isMultipart(ct) ? markBinaryFields(registered) : registered;
+            if (marked !== registered) {
+              // The component may be shared with JSON bodies, so the marked copy gets its own
+              ref = `${ref as string}Multipart`;
+              reg.define(ref, marked!);
+            }
             if (ref) {
               content[ct] = {
                 schema: typeof ref === 'string' ? { $ref: `#/components/schemas/${ref}` } : ref,
+                ...(examples && { examples }),
               };
             }
           })
@@ -466,33 +740,50 @@ async function makeRequestContent(
 }
 
 /**
- * Create response content and headers from content-type map
+ * Parts of an OpenAPI response collected from the content types declared for a status
+ */
+type ResponseParts = {
+  content: Record<string, OpenAPIV3_1.MediaTypeObject>;
+  headers: Record<string, OpenAPIV3_1.HeaderObject>;
+  description?: string;
+  links: Record<string, OpenAPIV3_1.LinkObject>;
+  extensions: Record<string, unknown>;
+};
+
+/**
+ * Create response content, headers and metadata from content-type map
+ * The description is the first one declared; links and extensions are merged.
  */
 async function makeResponseContent(
   responses: ResponseByContentType,
   reg: SchemaRegistry,
   opId: string,
   status: string
-): Promise<{
-  content: Record<string, OpenAPIV3_1.MediaTypeObject>;
-  headers: Record<string, OpenAPIV3_1.HeaderObject>;
-}> {
-  const acc: {
-    content: Record<string, OpenAPIV3_1.MediaTypeObject>;
-    headers: Record<string, OpenAPIV3_1.HeaderObject>;
-  } = { content: {}, headers: {} };
+): Promise<ResponseParts> {
+  const acc: ResponseParts = { content: {}, headers: {}, links: {}, extensions: {} };
   const promises: Promise<void>[] = [];
 
   buildContent(
     responses,
-    async (ct, { body, headers }) => {
-      const media: OpenAPIV3_1.MediaTypeObject = {};
+    async (ct, { body, headers, cookies, stream, description, examples, links, extensions }) => {
+      acc.description ??= description;
+      Object.assign(acc.links, links);
+      Object.assign(acc.extensions, extensions);
+
+      const media: OpenAPIV3_1.MediaTypeObject = examples ? { examples } : {};
       if (body) {
         promises.push(
           reg.register(body, `${opId}Res${status}${sanitize(ct)}`).then((ref) => {
             if (ref) {
-              media.schema =
+              const schema: OpenAPIV3_1.SchemaObject =
                 typeof ref === 'string' ? { $ref: `#/components/schemas/${ref}` } : ref;
+              if (stream) {
+                (media as { itemSchema?: OpenAPIV3_1.SchemaObject }).itemSchema = isEventStream(ct)
+                  ? makeServerSentEventSchema(schema)
+                  : schema;
+              } else {
+                media.schema = schema;
+              }
             }
             acc.content[ct] = media;
           })
@@ -520,6 +811,14 @@ async function makeResponseContent(
           })
         );
       }
+
+      if (cookies) {
+        promises.push(
+          extractSchemaAsync(cookies).then(({ schema }: { schema: OpenAPIV3_1.SchemaObject }) => {
+            acc.headers['Set-Cookie'] = makeSetCookieHeader(schema);
+          })
+        );
+      }
     },
     null
   );
@@ -528,6 +827,90 @@ async function makeResponseContent(
   return acc;
 }
 
+/**
+ * Describe a Server-Sent Event whose `data` matches an item schema
+ * Non-string data is sent as JSON, so it is described as a JSON-encoded string.
+ */
+function makeServerSentEventSchema(data: OpenAPIV3_1.SchemaObject): OpenAPIV3_1.SchemaObject {
+  return {
+    type: 'object',
+    required: ['data'],
+    properties: {
+      data:
+        data.type === 'string'
+          ? data
+          : ({
+              type: 'string',
+              contentMediaType: 'application/json',
+              contentSchema: data,
+            } as OpenAPIV3_1.SchemaObject),
+      event: { type: 'string' },
+      id: { type: 'string' },
+      retry: { type: 'integer', minimum: 0 },
+    },
+  };
+}
+
+/**
+ * Document the cookies set by a response as a `Set-Cookie` header
+ * OpenAPI cannot describe individual response cookies, so they are listed in the description.
+ */
+function makeSetCookieHeader(schema: OpenAPIV3_1.SchemaObject): OpenAPIV3_1.HeaderObject {
+  const names = Object.keys(schema.properties ?? {});
+  return {
+    description: `Sets the ${names.map((name) => `\`${name}\``).join(', ')} cookie${names.length === 1 ? '' : 's'}`,
+    schema: { type: 'string' },
+  };
+}
+
+/**
+ * Register the error schema of an error formatter
+ * Returns a factory for the error response content
+ */
+async function registerErrorSchema(
+  formatter: ErrorFormatter,
+  reg: SchemaRegistry
+): Promise<() => Record<string, OpenAPIV3_1.MediaTypeObject>> {
+  const name = formatter.name ?? 'Error';
+  let schema: OpenAPIV3_1.ReferenceObject | undefined;
+
+  if (formatter.schema && '~standard' in formatter.schema) {
+    const ref = await reg.register(formatter.schema as StandardSchemaV1, name);
+    if (ref) {
+      schema = typeof ref === 'string' ? { $ref: `#/components/schemas/${ref}` } : ref;
+    }
+  } else if (formatter.schema) {
+    reg.define(name, formatter.schema as OpenAPIV3_1.SchemaObject);
+    schema = { $ref: `#/components/schemas/${name}` };
+  }
+
+  return () => ({ [formatter.contentType]: schema ? { schema: { ...schema } } : {} });
+}
+
+/**
+ * Add the router's error responses (400, 413 for bodies with a size limit, 415 for operations
+ * with a body, 500) to an operation
+ * Responses declared by the contract are kept as-is.
+ */
+function addErrorResponses(
+  operationObj: OpenAPIV3_1.OperationObject,
+  operation: ContractOperation,
+  content: () => Record<string, OpenAPIV3_1.MediaTypeObject>,
+  maxBodySize?: number
+): void {
+  const responses = (operationObj.responses ??= {});
+  const statuses = !operation.requests
+    ? [400, 500]
+    : maxBodySize === undefined
+      ? [400, 415, 500]
+      : [400, 413, 415, 500];
+  for (const status of statuses) {
+    if (responses[status] === undefined) {
+      responses[status] = { description: getStatusTitle(status), content: content() };
+    }
+  }
+}
+
 /**
  * Creates the OpenAPI paths
  */
@@ -537,44 +920,75 @@ export const createOpenApiPaths = async (
 ): Promise<OpenAPIV3_1.PathsObject> => {
   const paths: OpenAPIV3_1.PathsObject = {};
   for (const [operationId, operation] of Object.entries(contract)) {
-    const openApiPath = convertPathToOpenAPIFormat(operation.path);
-    if (!paths[openApiPath]) {
-      paths[openApiPath] = {} as OpenAPIV3_1.PathItemObject;
-    }
-    const pathItem = paths[openApiPath]! as OpenAPIV3_1.PathItemObject;
     const method = operation.method.toLowerCase() as Lowercase<HttpMethod>;
     const op = await createOpenApiOperation(operation, registry, operationId);
-    (pathItem as any)[method] = op;
+    addOperationToPaths(paths, operation.path, method, op);
   }
   return paths;
 };
 
+/**
+ * Describe a webhook as an operation - its payload is a JSON request body
+ */
+function createWebhookOperation(webhook: WebhookDefinition): ContractDefinition[string] {
+  return {
+    operationId: webhook.operationId,
+    summary: webhook.summary,
+    description: webhook.description,
+    tags: webhook.tags,
+    path: '/',
+    method: webhook.method ?? 'POST',
+    headers: webhook.headers,
+    requests: { 'application/json': { body: webhook.body, examples: webhook.examples } },
+    responses: webhook.responses ?? { 200: {} },
+  };
+}
+
 /**
  * Creates the OpenAPI operation object
  */
 async function createOpenApiOperation(
   operation: ContractOperation,
   registry: SchemaRegistry,
-  operationId: string
+  operationId: string,
+  maxBodySize?: number
 ): Promise<OpenAPIV3_1.OperationObject> {
   const operationObj: OpenAPIV3_1.OperationObject = {
     operationId: operation.operationId || operationId,
     summary: operation.summary,
     description: operation.description,
     tags: operation.tags,
+    externalDocs: operation.externalDocs,
+    callbacks: operation.callbacks,
+    ...operation.extensions,
   };
 
+  if (operation.deprecated) {
+    operationObj.deprecated = true;
+  }
+
+  if (operation.security) {
+    operationObj.security = operation.security.map((requirement) =>
+      Object.fromEntries(Object.entries(requirement).map(([name, scopes]) => [name, [...scopes]]))
+    );
+  }
+
   // Collect parameters
-  const [pathParams, queryParams, headerParams] = await Promise.all([
+  const [pathParams, queryParams, headerParams, cookieParams] = await Promise.all([
     makeParameters(operation.pathParams, 'path', operation.path),
     makeParameters(operation.query, 'query'),
     makeParameters(operation.headers, 'header'),
+    makeParameters(operation.cookies, 'cookie'),
   ]);
 
   const parameters: OpenAPIV3_1.ParameterObject[] = [
-    ...pathParams,
-    ...queryParams,
-    ...headerParams,
+    ...applyPathConstraints(pathParams, operation.path),
+    ...markDeprecated(
+      applyQueryStyles(queryParams, operation.queryStyles),
+      operation.deprecatedParams?.query
+    ),
+    ...markDeprecated(headerParams, operation.deprecatedParams?.headers),
+    ...cookieParams,
   ].filter(Boolean);
 
   if (parameters.length > 0) {
@@ -589,7 +1003,12 @@ async function createOpenApiOperation(
       operationId
     );
     if (Object.keys(content).length > 0) {
-      operationObj.requestBody = { content, required: true };
+      const limit = operation.maxBodySize ?? maxBodySize;
+      operationObj.requestBody = {
+        content,
+        required: true,
+        ...(limit !== undefined && { 'x-max-body-size': limit }),
+      };
     }
   }
 
@@ -599,15 +1018,20 @@ async function createOpenApiOperation(
       Object.entries(operation.responses)
         .filter(([_, res]) => res && typeof res === 'object')
         .map(async ([sc, res]) => {
-          const { content, headers } = await makeResponseContent(
+          const { content, headers, description, links, extensions } = await makeResponseContent(
             res as ResponseByContentType,
             registry,
             operationId,
             sc
           );
-          const responseObj: OpenAPIV3_1.ResponseObject = { description: '' };
+          const responseObj: OpenAPIV3_1.ResponseObject = {
+            description:
+              description ?? (sc === 'default' ? 'Default response' : getStatusTitle(Number(sc))),
+            ...extensions,
+          };
           if (Object.keys(content).length > 0) responseObj.content = content;
           if (Object.keys(headers).length > 0) responseObj.headers = headers;
+          if (Object.keys(links).length > 0) responseObj.links = links;
           return [sc, responseObj] as [string, OpenAPIV3_1.ResponseObject];
         })
     );
@@ -0,0 +1,87 @@
+import type { OpenAPIV3_1 } from 'openapi-types';
+
+/**
+ * A problem found by lintOpenApiSpecification
+ */
+export type OpenApiLintIssue = {
+  /** Errors describe broken documents, warnings incomplete ones */
+  severity: 'error' | 'warning';
+  /** Name of the rule that reported the issue */
+  rule: string;
+  /** Where the issue was found, e.g. `GET /users/{id}` */
+  location: string;
+  message: string;
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Check a generated OpenAPI document for common problems
+ *
+ * Rules:
+ * - `operation-success-response` (error): operations must declare a 2xx/3xx or default response
+ * - `operation-id-unique` (error): operationIds must be unique
+ * - `security-scheme-defined` (error): security requirements must reference declared schemes
+ * - `operation-summary` (warning): operations should have a summary or description
+ * - `operation-tags` (warning): operations should have tags
+ * - `tag-defined` (warning): operation tags should be declared in the top-level `tags`
+ *   (only checked when the document declares tags)
+ *
+ * @param document - The OpenAPI document, e.g. from createOpenApiSpecification
+ * @returns The issues found, errors first
+ */
+export function lintOpenApiSpecification(document: OpenAPIV3_1.Document): OpenApiLintIssue[] {
+  const issues: OpenApiLintIssue[] = [];
+  const operationIds = new Set<string>();
+  const schemes = new Set(Object.keys(document.components?.securitySchemes ?? {}));
+  const tags = document.tags ? new Set(document.tags.map((tag) => tag.name)) : null;
+
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method];
+      if (!operation) continue;
+      const location = `${method.toUpperCase()} ${path}`;
+      const report = (severity: OpenApiLintIssue['severity'], rule: string, message: string) =>
+        issues.push({ severity, rule, location, message });
+
+      const statuses = Object.keys(operation.responses ?? {});
+      if (!statuses.some((status) => status === 'default' || /^[23]/.test(status))) {
+        report('error', 'operation-success-response', 'Operation has no success response');
+      }
+      if (operation.operationId) {
+        if (operationIds.has(operation.operationId)) {
+          report(
+            'error',
+            'operation-id-unique',
+            `operationId "${operation.operationId}" is used by another operation`
+          );
+        }
+        operationIds.add(operation.operationId);
+      }
+      for (const requirement of operation.security ?? document.security ?? []) {
+        for (const scheme of Object.keys(requirement)) {
+          if (!schemes.has(scheme)) {
+            report(
+              'error',
+              'security-scheme-defined',
+              `Security scheme "${scheme}" is not declared in components.securitySchemes`
+            );
+          }
+        }
+      }
+      if (!operation.summary && !operation.description) {
+        report('warning', 'operation-summary', 'Operation has no summary or description');
+      }
+      if (!operation.tags?.length) {
+        report('warning', 'operation-tags', 'Operation has no tags');
+      }
+      for (const tag of tags ? (operation.tags ?? []) : []) {
+        if (!tags!.has(tag)) {
+          report('warning', 'tag-defined', `Tag "${tag}" is not declared in the top-level tags`);
+        }
+      }
+    }
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
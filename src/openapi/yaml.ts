@@ -0,0 +1,72 @@
+/**
+ * Words YAML would read as booleans or null when written as plain scalars
+ */
+const RESERVED_WORDS = ['true', 'false', 'null', 'yes', 'no', 'on', 'off', 'y', 'n', '~'];
+
+/**
+ * Serialize a JSON-compatible value (such as an OpenAPI document) as YAML
+ *
+ * Strings that could be misread (numbers, booleans, special characters) are written as
+ * double-quoted JSON strings, which are valid YAML. Undefined object entries are omitted,
+ * as with JSON.stringify.
+ *
+ * @param value - The value to serialize
+ * @returns The YAML document
+ */
+export function stringifyYaml(value: unknown): string {
+  return `${isBlock(value) ? renderBlock(value, '').join('\n') : renderScalar(value)}\n`;
+}
+
+/**
+ * Render a non-empty array or object as block lines
+ */
+function renderBlock(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isBlock(item)) return [`${indent}- ${renderScalar(item)}`];
+      const [first, ...rest] = renderBlock(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  return getEntries(value).flatMap(([key, item]) =>
+    isBlock(item)
+      ? [`${indent}${renderString(key)}:`, ...renderBlock(item, `${indent}  `)]
+      : [`${indent}${renderString(key)}: ${renderScalar(item)}`]
+  );
+}
+
+/**
+ * Render a scalar, or an empty array/object in flow style
+ */
+function renderScalar(value: unknown): string {
+  if (typeof value === 'string') return renderString(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return '[]';
+  if (value && typeof value === 'object') return '{}';
+  return 'null';
+}
+
+/**
+ * Render a string as a plain scalar when it is unambiguous, double-quoted otherwise
+ */
+function renderString(value: string): string {
+  const plain =
+    /^[A-Za-z_][\w./-]*( [\w./-]+)*$/.test(value) && !RESERVED_WORDS.includes(value.toLowerCase());
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Check whether a value is rendered as a block (a non-empty array or object)
+ */
+function isBlock(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value && typeof value === 'object' && getEntries(value).length > 0;
+}
+
+/**
+ * Get the entries of an object, without undefined values
+ */
+function getEntries(value: unknown): [string, unknown][] {
+  return Object.entries(value as Record<string, unknown>).filter(([, item]) => item !== undefined);
+}
@@ -0,0 +1,234 @@
+/**
+ * A named param inside a path segment, with an optional regex constraint
+ * e.g. `:id(\\d+)` -> `{ name: 'id', pattern: '\\d+' }`
+ */
+export type PathParamToken = {
+  name: string;
+  pattern?: string;
+};
+
+/**
+ * A parsed path segment
+ *
+ * - `static`: matched literally (`users`)
+ * - `param`: one segment holding params and literal text (`:id`, `:id?`, `:id(\\d+)`, `v:version`,
+ *   `:name.:ext`). `optional` segments (`:id?`) may be left out entirely.
+ * - `rest`: the remainder of the path - `*` (zero or more segments, not captured) or `:name+`
+ *   (one or more segments, captured with their slashes)
+ */
+export type PathSegment =
+  | { type: 'static'; value: string }
+  | { type: 'param'; parts: (string | PathParamToken)[]; optional: boolean }
+  | { type: 'rest'; name?: string };
+
+/**
+ * Parsed path patterns, cached per pattern string
+ */
+const parsedPatterns = new Map<string, PathSegment[]>();
+
+/**
+ * Parse a contract path pattern into segments
+ *
+ * Supported grammar (per `/`-separated segment):
+ * - `:name` - a required param
+ * - `:name?` - an optional param (the whole segment may be absent)
+ * - `:name(regex)` - a param constrained by a regular expression
+ * - `prefix:name`, `:a.:b` - params mixed with literal text
+ * - `*` - a wildcard matching the rest of the path (last segment only)
+ * - `:name+` - a param capturing the rest of the path (last segment only)
+ *
+ * @throws Error when a wildcard is not the last segment or the pattern is malformed
+ */
+export function parsePathPattern(pattern: string): PathSegment[] {
+  let segments = parsedPatterns.get(pattern);
+  if (!segments) {
+    const raw = pattern.split('/').filter(Boolean);
+    segments = raw.map((segment, index) => {
+      const parsed = parseSegment(segment, pattern);
+      if (parsed.type === 'rest' && index !== raw.length - 1) {
+        throw new Error(`Wildcard must be the last path segment: ${pattern}`);
+      }
+      return parsed;
+    });
+    parsedPatterns.set(pattern, segments);
+  }
+  return segments;
+}
+
+/**
+ * Parse a single path segment
+ */
+function parseSegment(segment: string, pattern: string): PathSegment {
+  if (segment === '*') return { type: 'rest' };
+  if (!segment.includes(':')) return { type: 'static', value: segment };
+
+  const rest = segment.match(/^:(\w+)\+$/);
+  if (rest) return { type: 'rest', name: rest[1] };
+
+  const parts: (string | PathParamToken)[] = [];
+  let optional = false;
+  let i = 0;
+  while (i < segment.length) {
+    const colon = segment.indexOf(':', i);
+    if (colon === -1) {
+      parts.push(segment.slice(i));
+      break;
+    }
+    if (colon > i) parts.push(segment.slice(i, colon));
+
+    const name = segment.slice(colon + 1).match(/^\w+/)?.[0];
+    if (!name) throw new Error(`Invalid path parameter in ${pattern}`);
+    i = colon + 1 + name.length;
+
+    const token: PathParamToken = { name };
+    if (segment[i] === '(') {
+      const end = findGroupEnd(segment, i);
+      if (end === -1) throw new Error(`Unclosed path parameter constraint in ${pattern}`);
+      token.pattern = segment.slice(i + 1, end);
+      i = end + 1;
+    }
+    parts.push(token);
+
+    if (segment[i] === '?') {
+      if (i !== segment.length - 1 || parts.length !== 1) {
+        throw new Error(`Only whole-segment path parameters can be optional: ${pattern}`);
+      }
+      optional = true;
+      i++;
+    }
+  }
+  return { type: 'param', parts, optional };
+}
+
+/**
+ * Find the index of the parenthesis closing the group opened at `start`
+ */
+function findGroupEnd(segment: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Expand optional segments into every concrete variant of the path
+ * Variants are ordered from the most to the least specific (all optional segments present first).
+ */
+export function expandOptionalSegments(segments: PathSegment[]): PathSegment[][] {
+  let variants: PathSegment[][] = [[]];
+  for (const segment of segments) {
+    const withSegment = variants.map((variant) => [...variant, segment]);
+    variants =
+      segment.type === 'param' && segment.optional ? [...withSegment, ...variants] : withSegment;
+  }
+  return variants;
+}
+
+/**
+ * Compile a param segment into an anchored regular expression with named groups
+ */
+export function compileParamSegment(segment: Extract<PathSegment, { type: 'param' }>): RegExp {
+  const source = segment.parts
+    .map((part) =>
+      typeof part === 'string'
+        ? part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        : `(?<${part.name}>${part.pattern ?? '[^/]+?'})`
+    )
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Get the names of all params declared in a path pattern
+ * e.g. "/users/:id/files/:path+" -> ["id", "path"]
+ */
+export function getPathParamNames(pattern: string): string[] {
+  return parsePathPattern(pattern).flatMap((segment) => {
+    if (segment.type === 'rest') return segment.name ? [segment.name] : [];
+    if (segment.type === 'static') return [];
+    return segment.parts.flatMap((part) => (typeof part === 'string' ? [] : [part.name]));
+  });
+}
+
+/**
+ * Get the shapes of the URLs a path matches, with param names removed, so that routes matching
+ * the same URLs share a signature (`/users/:id` and `/users/:userId`)
+ *
+ * Optional segments are expanded into every concrete variant (`/users/:id?` matches `/users`
+ * and `/users/:`), and rest params into a single segment and several segments (`*` also into
+ * no segment), so `/files/:path+` overlaps `/files/:name`.
+ */
+export function getRouteSignatures(path: string): string[] {
+  const signatures = new Set<string>();
+  for (const variant of expandOptionalSegments(parsePathPattern(path))) {
+    const shapes: string[] = [];
+    for (const segment of variant) {
+      if (segment.type === 'static') {
+        shapes.push(segment.value);
+      } else if (segment.type === 'param') {
+        const parts = segment.parts.map((part) =>
+          typeof part === 'string' ? part : `:${part.pattern ? `(${part.pattern})` : ''}`
+        );
+        shapes.push(parts.join(''));
+      }
+    }
+
+    const rest = variant[variant.length - 1];
+    if (rest?.type !== 'rest') {
+      signatures.add(`/${shapes.join('/')}`);
+      continue;
+    }
+    if (!rest.name) signatures.add(`/${shapes.join('/')}`);
+    signatures.add(`/${[...shapes, ':'].join('/')}`);
+    signatures.add(`/${[...shapes, '+'].join('/')}`);
+  }
+  return [...signatures];
+}
+
+/**
+ * Interpolate path params into a contract path pattern
+ * Optional segments without a value are left out and rest params keep their slashes.
+ */
+export function buildPath(pathPattern: string, pathParams: Record<string, unknown>): string {
+  const getValue = (name: string) => {
+    const value = pathParams[name];
+    return value === undefined || value === null ? undefined : String(value);
+  };
+  const missing = (name: string) => new Error(`Missing path parameter: ${name}`);
+
+  const segments = parsePathPattern(pathPattern).flatMap((segment) => {
+    if (segment.type === 'static') return [segment.value];
+    if (segment.type === 'rest') {
+      if (!segment.name) return [];
+      const value = getValue(segment.name);
+      if (value === undefined) throw missing(segment.name);
+      return [value.split('/').map(encodeURIComponent).join('/')];
+    }
+
+    const [first] = segment.parts;
+    if (segment.optional && typeof first !== 'string' && getValue(first.name) === undefined) {
+      return [];
+    }
+    return [
+      segment.parts
+        .map((part) => {
+          if (typeof part === 'string') return part;
+          const value = getValue(part.name);
+          if (value === undefined) throw missing(part.name);
+          return encodeURIComponent(value);
+        })
+        .join(''),
+    ];
+  });
+
+  const trailingSlash = pathPattern.length > 1 && pathPattern.endsWith('/') ? '/' : '';
+  return '/' + segments.join('/') + (segments.length > 0 ? trailingSlash : '');
+}
@@ -0,0 +1,200 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import type { QueryParameterStyle } from './types';
+import { extractSchemaAsync } from './openapi/vendors/index';
+
+/**
+ * Raw query values as read from the URL - repeated keys are kept as arrays
+ */
+type RawQueryValues = Record<string, string | string[]>;
+
+/**
+ * JSON Schema (with resolvable components) extracted from a query schema
+ */
+type ExtractedQuerySchema = {
+  schema: OpenAPIV3_1.SchemaObject;
+  components: OpenAPIV3_1.ComponentsObject | undefined;
+};
+
+/**
+ * Cache of extracted query schemas, so the JSON Schema conversion runs once per schema
+ */
+const extractedSchemas = new WeakMap<StandardSchemaV1, Promise<ExtractedQuerySchema | null>>();
+
+/**
+ * Extract (and cache) the JSON Schema for a query schema
+ * Resolves to null when the schema's vendor cannot be converted
+ */
+function getExtractedQuerySchema(schema: StandardSchemaV1): Promise<ExtractedQuerySchema | null> {
+  let extracted = extractedSchemas.get(schema);
+  if (!extracted) {
+    extracted = extractSchemaAsync(schema).catch(() => null);
+    extractedSchemas.set(schema, extracted);
+  }
+  return extracted;
+}
+
+/**
+ * Coerce raw query values to the shape described by a query schema
+ *
+ * The schema is converted to JSON Schema (via extractSchemaAsync) and used to:
+ * - collect arrays from repeated keys or delimited values (form, spaceDelimited, pipeDelimited)
+ * - collect deepObject parameters (e.g. `filter[status]=active` -> `{ filter: { status: 'active' } }`)
+ * - convert numeric and boolean strings into numbers and booleans
+ *
+ * Values that cannot be coerced are left untouched so schema validation reports them.
+ *
+ * @param schema - The operation's query schema
+ * @param raw - Raw query values (repeated keys as arrays)
+ * @param styles - Optional OpenAPI style/explode settings per query parameter
+ */
+export async function coerceQuery(
+  schema: StandardSchemaV1,
+  raw: RawQueryValues,
+  styles: Record<string, QueryParameterStyle> = {}
+): Promise<Record<string, unknown>> {
+  const extracted = await getExtractedQuerySchema(schema);
+  const root = extracted ? resolveSchema(extracted.schema, extracted.components) : undefined;
+  if (!root || !root.properties) return { ...raw };
+
+  const result: Record<string, unknown> = { ...raw };
+  for (const [name, propertySchema] of Object.entries(root.properties)) {
+    const property = resolveSchema(propertySchema, extracted!.components);
+    const type = getSchemaType(property);
+    const style = styles[name] ?? {};
+
+    // Leave parameters with an unknown or ambiguous type untouched
+    if (!property || !type) continue;
+
+    if (type === 'object' && style.style !== 'form') {
+      const value = collectDeepObject(raw, name);
+      if (value) {
+        for (const key of Object.keys(raw)) {
+          if (key.startsWith(`${name}[`)) delete result[key];
+        }
+        result[name] = coerceObject(value, property, extracted!.components);
+      }
+      continue;
+    }
+
+    if (!(name in raw)) continue;
+    result[name] =
+      type === 'array'
+        ? coerceArray(raw[name], property, style, extracted!.components)
+        : coerceScalar(lastValue(raw[name]), type);
+  }
+  return result;
+}
+
+/**
+ * Resolve a local `#/components/schemas/...` reference
+ */
+export function resolveSchema(
+  schema: unknown,
+  components: OpenAPIV3_1.ComponentsObject | undefined
+): OpenAPIV3_1.SchemaObject | undefined {
+  if (!schema || typeof schema !== 'object') return undefined;
+  if ('$ref' in schema && typeof schema.$ref === 'string') {
+    const name = schema.$ref.match(/^#\/components\/schemas\/(.+)$/)?.[1];
+    return name ? resolveSchema(components?.schemas?.[name], components) : undefined;
+  }
+  return schema as OpenAPIV3_1.SchemaObject;
+}
+
+/**
+ * Get the (non-null) JSON Schema type of a schema, looking through nullable unions
+ */
+function getSchemaType(schema: OpenAPIV3_1.SchemaObject | undefined): string | undefined {
+  if (!schema) return undefined;
+  if (typeof schema.type === 'string') return schema.type;
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((t) => t !== 'null');
+    return types.length === 1 ? types[0] : undefined;
+  }
+  const variants = (schema.anyOf ?? schema.oneOf)?.filter(
+    (variant) =>
+      !(variant && typeof variant === 'object' && 'type' in variant && variant.type === 'null')
+  );
+  if (variants?.length === 1) return getSchemaType(variants[0] as OpenAPIV3_1.SchemaObject);
+  return undefined;
+}
+
+/**
+ * Pick the last value of a repeated query key
+ */
+function lastValue(value: string | string[]): string {
+  return Array.isArray(value) ? value[value.length - 1] : value;
+}
+
+/**
+ * Convert a numeric or boolean string to the type the schema expects
+ */
+function coerceScalar(value: string, type: string | undefined): unknown {
+  if ((type === 'number' || type === 'integer') && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? value : parsed;
+  }
+  if (type === 'boolean') {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+  }
+  return value;
+}
+
+/**
+ * Collect an array parameter from repeated keys or a delimited value
+ */
+function coerceArray(
+  value: string | string[],
+  schema: OpenAPIV3_1.SchemaObject,
+  style: QueryParameterStyle,
+  components: OpenAPIV3_1.ComponentsObject | undefined
+): unknown[] {
+  const delimiter =
+    style.style === 'spaceDelimited'
+      ? ' '
+      : style.style === 'pipeDelimited'
+        ? '|'
+        : style.explode === false
+          ? ','
+          : undefined;
+
+  const values = Array.isArray(value) ? value : [value];
+  const items = delimiter ? values.flatMap((v) => v.split(delimiter)) : values;
+  const itemType = getSchemaType(
+    resolveSchema('items' in schema ? schema.items : undefined, components)
+  );
+  return items.map((item) => coerceScalar(item, itemType));
+}
+
+/**
+ * Collect `name[key]=value` query parameters into an object
+ * Returns undefined when no matching keys are present
+ */
+function collectDeepObject(raw: RawQueryValues, name: string): Record<string, string> | undefined {
+  const prefix = `${name}[`;
+  let found = false;
+  const value: Record<string, string> = {};
+  for (const [key, rawValue] of Object.entries(raw)) {
+    if (!key.startsWith(prefix) || !key.endsWith(']')) continue;
+    value[key.slice(prefix.length, -1)] = lastValue(rawValue);
+    found = true;
+  }
+  return found ? value : undefined;
+}
+
+/**
+ * Coerce the properties of a deepObject parameter
+ */
+function coerceObject(
+  value: Record<string, string>,
+  schema: OpenAPIV3_1.SchemaObject,
+  components: OpenAPIV3_1.ComponentsObject | undefined
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const property = resolveSchema(schema.properties?.[key], components);
+    result[key] = coerceScalar(item, getSchemaType(property));
+  }
+  return result;
+}
@@ -3,15 +3,28 @@ import type {
   ContractDefinition,
   ContractRouterOptions,
   ContractRequest,
-  HttpMethod,
+  ContractOperationContext,
+  ContractAugmentedRequest,
+  OperationMiddleware,
+  SecuritySchemeRegistry,
 } from './types';
+import { defineProp, isRespondedObject } from './utils';
 import {
   withMatchingContractOperation,
-  withSpecValidation,
+  withSecurity,
+  withContentNegotiation,
+  createSpecValidation,
   withResponseHelpers,
   withContractFormat,
   withContractErrorHandler,
+  withResponseValidation,
   withMissingHandler,
+  withAllowedMethods,
+  withHeadResponse,
+  withCors,
+  withVersionHeaders,
+  withDeprecationWarnings,
+  withDeprecationHeaders,
 } from './middleware';
 
 /**
@@ -21,20 +34,41 @@ import {
  * - Automatic route registration based on contract operations
  * - Type-safe request/response handling
  * - Automatic validation of path params, query params, headers, and body
+ * - Security scheme enforcement with a typed `request.auth` principal
+ * - Accept header content negotiation (406 when no declared response type is acceptable)
+ * - Automatic HEAD (from the GET handler) and OPTIONS responses, and 405 with an `Allow` header
+ *   for undeclared methods on declared paths
+ * - Optional CORS support, with preflights built from the contract
+ * - Optional API versioning: operations are selected by the version each request asks for, and
+ *   responses of deprecated versions carry `Deprecation`/`Sunset` headers
+ * - `Deprecation`/`Sunset`/`Link` headers for deprecated operations, and an optional hook
+ *   reporting the use of deprecated operations and parameters
  * - Type-safe response helpers (respond)
+ * - Per-operation middleware declared on the contract or next to the handler
  *
  * @typeParam TContract - The contract definition type
  * @typeParam RequestType - The request type (extends IRequest)
  * @typeParam Args - Additional arguments passed to handlers
+ * @typeParam TSchemes - The security schemes (inferred from `securitySchemes`, types `request.auth`)
  *
  * @param options - Router configuration options
  * @param options.contract - The contract definition mapping operation IDs to operations
- * @param options.handlers - Handlers for each operation in the contract
+ * @param options.handlers - Handlers for each operation in the contract, either a function or
+ *   `{ middleware, handler }` to run per-operation middleware before the handler
  * @param options.base - Optional base path for all routes
  * @param options.missing - Optional handler for missing routes (defaults to 404)
  * @param options.before - Optional middleware to run before handlers
  * @param options.finally - Optional middleware to run after handlers
  * @param options.format - Optional custom response formatter
+ * @param options.codecs - Optional body codecs keyed by media type (e.g. XML, YAML, NDJSON)
+ * @param options.maxBodySize - Optional request body size limit in bytes (413 when exceeded)
+ * @param options.validateResponses - Optional response validation mode ('off' | 'warn' | 'throw')
+ * @param options.securitySchemes - Optional security schemes enforced for operations with `security`
+ * @param options.errors - Optional error response format ('legacy' | 'problem+json' | ErrorFormatter)
+ * @param options.cors - Optional CORS configuration (`true` allows any origin)
+ * @param options.versioning - Optional API versioning configuration
+ * @param options.onDeprecated - Optional hook called when deprecated operations or parameters
+ *   are used
  *
  * @returns An itty-router instance with registered routes
  *
@@ -58,8 +92,9 @@ export const createRouter = <
   TContract extends ContractDefinition,
   RequestType extends IRequest = IRequest,
   Args extends any[] = any[],
+  TSchemes extends SecuritySchemeRegistry = SecuritySchemeRegistry,
 >(
-  options: ContractRouterOptions<TContract, RequestType, Args>
+  options: ContractRouterOptions<TContract, RequestType, Args, TSchemes>
 ): RouterType<RequestType, Args, Response> => {
   /**
    * Define the router
@@ -68,28 +103,90 @@ export const createRouter = <
     base: options.base,
     before: [
       (request: RequestType, ..._other: Args) => withParams(request),
-      withMatchingContractOperation(options.contract, options.base),
-      withSpecValidation,
+      withMatchingContractOperation(options.contract, options.base, options.versioning),
+      withAllowedMethods(
+        options.contract,
+        options.base,
+        options.cors,
+        options.versioning,
+        options.securitySchemes
+      ),
+      withDeprecationWarnings(options.contract, options.onDeprecated),
+      withSecurity(options.securitySchemes, options.contract),
+      withContentNegotiation,
+      createSpecValidation({ codecs: options.codecs, maxBodySize: options.maxBodySize }),
       withResponseHelpers,
       ...(options.before || []),
     ],
-    catch: withContractErrorHandler<RequestType, Args>(),
+    catch: withContractErrorHandler<RequestType, Args>(options.errors),
     finally: [
-      withMissingHandler<RequestType, Args>(options.missing),
-      withContractFormat(options.format),
+      withMissingHandler<RequestType, Args>(options.missing, options.errors),
+      withResponseValidation(options.validateResponses, options.errors),
+      withContractFormat(options.format, options.codecs),
+      withVersionHeaders,
+      withDeprecationHeaders(options.contract, options.base, options.versioning),
+      withHeadResponse,
+      withCors(options.cors),
       ...(options.finally || []),
     ],
   });
 
+  /**
+   * Handlers (with their per-operation middleware) keyed by contract operation
+   */
+  const routes = new Map<
+    object,
+    {
+      handler: (request: any, ...args: Args) => unknown;
+      middleware: OperationMiddleware<any, Args>[];
+    }
+  >();
   for (const [contractKey, operation] of Object.entries(options.contract)) {
-    const handler = options.handlers[contractKey as keyof TContract];
-    const method = operation.method.toLowerCase() as Lowercase<HttpMethod>;
-    if (!handler) continue;
+    const entry = options.handlers[contractKey as keyof TContract];
+    if (!entry) continue;
 
-    router[method]<IRequest, Args>(operation.path, async (request: IRequest, ...args: Args) =>
-      handler(request as ContractRequest<TContract[keyof TContract]>, ...args)
-    );
+    const { handler, middleware: handlerMiddleware = [] } =
+      'handler' in entry ? entry : { handler: entry };
+    routes.set(operation, {
+      handler,
+      middleware: [...(operation.middleware || []), ...handlerMiddleware] as OperationMiddleware<
+        any,
+        Args
+      >[],
+    });
   }
 
+  /**
+   * Dispatch to the operation resolved by withMatchingContractOperation, so the path is only
+   * matched once per request
+   */
+  router.all<IRequest, Args>('*', async (request: IRequest, ...args: Args) => {
+    const operation = (request as ContractAugmentedRequest).__contractOperation;
+    const route = operation && routes.get(operation);
+    if (!route) return;
+
+    request.params = (request as ContractAugmentedRequest).__contractParams ?? {};
+    request.route = (options.base || '') + operation.path;
+
+    const contractRequest = request as ContractRequest<TContract[keyof TContract]> &
+      ContractOperationContext<TContract[keyof TContract]>;
+    for (const run of route.middleware) {
+      const result = await run(contractRequest, ...args);
+      if (isMiddlewareResponse(result)) return result;
+      if (result && typeof result === 'object') {
+        for (const [key, value] of Object.entries(result)) defineProp(request, key, value);
+      }
+    }
+    return route.handler(contractRequest, ...args);
+  });
+
   return router;
 };
+
+/**
+ * Check if a per-operation middleware result is a response (which short-circuits the handler)
+ * rather than fields to add to the request - a Response or the result of respond()
+ */
+function isMiddlewareResponse(result: unknown): boolean {
+  return result instanceof Response || isRespondedObject(result);
+}
@@ -0,0 +1,192 @@
+import type { IRequest } from 'itty-router';
+import { StatusError } from 'itty-router';
+import type { SecurityRequirement, SecurityScheme, SecuritySchemeRegistry } from './types';
+import { parseCookies } from './cookies';
+
+/**
+ * Define security schemes with full type inference
+ *
+ * Returns the registry as-is. Pass it to `createRouter` (to enforce the schemes and type
+ * `request.auth`) and to `createOpenApiSpecification` (to emit `components.securitySchemes`).
+ *
+ * @param schemes - Security schemes keyed by the names used in operation `security` requirements
+ * @returns The same security schemes
+ *
+ * @example
+ * ```typescript
+ * const securitySchemes = defineSecuritySchemes({
+ *   bearerAuth: {
+ *     type: 'http',
+ *     scheme: 'bearer',
+ *     verify: async (token) => findUserByToken(token),
+ *   },
+ *   apiKey: {
+ *     type: 'apiKey',
+ *     in: 'header',
+ *     name: 'x-api-key',
+ *     verify: (key) => (key === env.API_KEY ? { service: 'internal' } : null),
+ *   },
+ * });
+ * ```
+ */
+export function defineSecuritySchemes<const TSchemes extends SecuritySchemeRegistry>(
+  schemes: TSchemes
+): TSchemes {
+  return schemes;
+}
+
+/**
+ * Outcome of checking a single security scheme
+ */
+type SchemeOutcome =
+  | { ok: true; principal: unknown }
+  | { ok: false; reason: 'unauthenticated' | 'forbidden' };
+
+/**
+ * Enforce an operation's security requirements
+ *
+ * Requirements are alternatives: the first one whose schemes all succeed wins, and the principal
+ * of its first scheme is returned. Throws a 401 error when no credentials are accepted and a 403
+ * error when a principal was found but lacks the required scopes.
+ *
+ * @param requirements - The operation's security requirements
+ * @param schemes - The registered security schemes
+ * @param request - The incoming request
+ * @returns The authenticated principal (undefined when an empty requirement allowed anonymous access)
+ */
+export async function authenticateRequest(
+  requirements: readonly SecurityRequirement[],
+  schemes: SecuritySchemeRegistry,
+  request: IRequest
+): Promise<unknown> {
+  let forbidden = false;
+
+  for (const requirement of requirements) {
+    const names = Object.keys(requirement);
+    if (names.length === 0) return undefined;
+
+    let principal: unknown;
+    let satisfied = true;
+    for (const [index, name] of names.entries()) {
+      const scheme = schemes[name];
+      if (!scheme) {
+        throw new Error(`Unknown security scheme: ${name}`);
+      }
+
+      const outcome = await checkScheme(scheme, requirement[name], request);
+      if (!outcome.ok) {
+        forbidden ||= outcome.reason === 'forbidden';
+        satisfied = false;
+        break;
+      }
+      if (index === 0) principal = outcome.principal;
+    }
+
+    if (satisfied) return principal;
+  }
+
+  if (forbidden) {
+    throw new StatusError(403, 'Forbidden');
+  }
+  const challenges = getChallenges(requirements, schemes);
+  const error = new StatusError(401, 'Unauthorized');
+  if (challenges.length > 0) {
+    (error as any).headers = { 'www-authenticate': challenges.join(', ') };
+  }
+  throw error;
+}
+
+/**
+ * Extract and verify the credentials of a single scheme, then check the required scopes
+ */
+async function checkScheme(
+  scheme: SecurityScheme<any>,
+  scopes: readonly string[],
+  request: IRequest
+): Promise<SchemeOutcome> {
+  const principal = await verifyCredentials(scheme, request);
+  if (principal === null || principal === undefined || principal === false) {
+    return { ok: false, reason: 'unauthenticated' };
+  }
+
+  if (scopes.length > 0) {
+    const granted = scheme.getScopes
+      ? scheme.getScopes(principal)
+      : Array.isArray((principal as { scopes?: unknown }).scopes)
+        ? (principal as { scopes: string[] }).scopes
+        : [];
+    if (!scopes.every((scope) => granted.includes(scope))) {
+      return { ok: false, reason: 'forbidden' };
+    }
+  }
+
+  return { ok: true, principal };
+}
+
+/**
+ * Read the credentials a scheme expects from the request and run its verifier
+ * Resolves to null when the credentials are missing
+ */
+async function verifyCredentials(scheme: SecurityScheme<any>, request: IRequest): Promise<unknown> {
+  if (scheme.type === 'apiKey') {
+    const key = readApiKey(scheme.in, scheme.name, request);
+    return key ? scheme.verify(key, request) : null;
+  }
+
+  const authorization = request.headers.get('authorization') || '';
+  const [type, value] = authorization.trim().split(/\s+/, 2);
+  if (!value || type.toLowerCase() !== scheme.scheme) return null;
+
+  if (scheme.scheme === 'bearer') {
+    return scheme.verify(value, request);
+  }
+
+  const credentials = decodeBasicCredentials(value);
+  return credentials ? scheme.verify(credentials, request) : null;
+}
+
+/**
+ * Read an API key from a header, query parameter or cookie
+ */
+function readApiKey(
+  location: 'header' | 'query' | 'cookie',
+  name: string,
+  request: IRequest
+): string | null {
+  if (location === 'header') return request.headers.get(name);
+  if (location === 'query') return new URL(request.url).searchParams.get(name);
+  return parseCookies(request.headers.get('cookie'))[name] ?? null;
+}
+
+/**
+ * Decode `username:password` from a basic auth value
+ */
+function decodeBasicCredentials(value: string): { username: string; password: string } | null {
+  try {
+    const decoded = atob(value);
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+    return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build WWW-Authenticate challenges for the HTTP schemes referenced by the requirements
+ */
+function getChallenges(
+  requirements: readonly SecurityRequirement[],
+  schemes: SecuritySchemeRegistry
+): string[] {
+  const challenges = new Set<string>();
+  for (const requirement of requirements) {
+    for (const name of Object.keys(requirement)) {
+      const scheme = schemes[name];
+      if (scheme?.type === 'http') {
+        challenges.add(scheme.scheme === 'bearer' ? 'Bearer' : 'Basic');
+      }
+    }
+  }
+  return [...challenges];
+}
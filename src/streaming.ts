@@ -0,0 +1,192 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type { ServerSentEvent } from './types';
+
+/**
+ * Media types whose streamed items are written as one JSON value per line
+ */
+const LINE_DELIMITED_TYPES = ['application/x-ndjson', 'application/jsonl', 'application/x-jsonl'];
+
+/**
+ * Get the lowercase media type of a content type header value
+ */
+function getMediaType(contentType: string | null | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Check whether a content type is Server-Sent Events (`text/event-stream`)
+ */
+export function isEventStream(contentType: string | null | undefined): boolean {
+  return getMediaType(contentType) === 'text/event-stream';
+}
+
+/**
+ * Check whether a value is an async iterable (async generators, streams of items, ...)
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Format a Server-Sent Event
+ * Non-string data is JSON encoded; multi-line data is split over several `data:` lines.
+ *
+ * @example
+ * ```typescript
+ * formatServerSentEvent({ event: 'tick', data: { n: 1 } }); // 'event: tick\ndata: {"n":1}\n\n'
+ * ```
+ */
+export function formatServerSentEvent(event: ServerSentEvent): string {
+  let message = '';
+  if (event.event !== undefined) message += `event: ${event.event}\n`;
+  if (event.id !== undefined) message += `id: ${event.id}\n`;
+  if (event.retry !== undefined) message += `retry: ${event.retry}\n`;
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+  for (const line of (data ?? '').split(/\r\n|\r|\n/)) message += `data: ${line}\n`;
+  return `${message}\n`;
+}
+
+/**
+ * Serialize a single streamed item for a content type
+ */
+function serializeStreamItem(item: unknown, mediaType: string): string | Uint8Array {
+  if (mediaType === 'text/event-stream') return formatServerSentEvent(item as ServerSentEvent);
+  if (LINE_DELIMITED_TYPES.includes(mediaType)) return `${JSON.stringify(item)}\n`;
+  if (typeof item === 'string' || item instanceof Uint8Array) return item;
+  return `${JSON.stringify(item)}\n`;
+}
+
+/**
+ * Serialize an async iterable of items into a byte stream
+ *
+ * - `text/event-stream`: each item is a ServerSentEvent (`{ data, event?, id?, retry? }`)
+ * - `application/x-ndjson`, `application/jsonl`: each item is written as one JSON line
+ * - any other type: strings and bytes are written as-is, other values as JSON lines
+ *
+ * Iteration stops when the client disconnects (the stream is cancelled).
+ */
+export function serializeStream(
+  items: AsyncIterable<unknown>,
+  contentType: string
+): ReadableStream<Uint8Array> {
+  const mediaType = getMediaType(contentType);
+  const encoder = new TextEncoder();
+  const iterator = items[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        const chunk = serializeStreamItem(value, mediaType);
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Validate streamed items one by one as they are produced
+ * For `text/event-stream` the schema validates each event's `data`.
+ *
+ * @param onIssues - Called with the issues of an invalid item; may throw to abort the stream
+ */
+export async function* validateStream(
+  items: AsyncIterable<unknown>,
+  schema: StandardSchemaV1,
+  contentType: string,
+  onIssues: (issues: readonly StandardSchemaV1.Issue[]) => void
+): AsyncGenerator<unknown> {
+  const eventStream = isEventStream(contentType);
+  for await (const item of items) {
+    const value = eventStream ? (item as ServerSentEvent)?.data : item;
+    const result = await schema['~standard'].validate(value);
+    if (result.issues) onIssues(result.issues);
+    yield item;
+  }
+}
+
+/**
+ * Read the lines of a byte stream
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      // A trailing \r may be the first half of a \r\n split across chunks
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      buffer = lines.pop() ?? '';
+      yield* lines;
+    }
+    buffer = (buffer + decoder.decode()).replace(/\r$/, '');
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse JSON, falling back to the raw text
+ */
+function parseJsonOrText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Parse a streamed response body into its items
+ *
+ * - `text/event-stream`: yields ServerSentEvent objects, with JSON `data` parsed
+ * - any other type: yields one parsed JSON value per non-empty line
+ */
+export async function* parseStream(
+  body: ReadableStream<Uint8Array>,
+  contentType: string | null
+): AsyncGenerator<unknown> {
+  if (!isEventStream(contentType)) {
+    for await (const line of readLines(body)) {
+      if (line.trim()) yield parseJsonOrText(line);
+    }
+    return;
+  }
+
+  let event: Partial<ServerSentEvent<string>> = {};
+  let data: string[] = [];
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (data.length > 0) yield { ...event, data: parseJsonOrText(data.join('\n')) };
+      event = {};
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'data') data.push(value);
+    else if (field === 'event' || field === 'id') event[field] = value;
+    else if (field === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+  }
+  if (data.length > 0) yield { ...event, data: parseJsonOrText(data.join('\n')) };
+}
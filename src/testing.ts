@@ -0,0 +1,171 @@
+import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type {
+  ClientRequestOptions,
+  ClientResponse,
+  ContractClientOptions,
+  ContractDefinition,
+  ContractOperation,
+} from './types';
+import { createClient } from './client';
+import { collectResponseIssues } from './middleware/withResponseValidation';
+
+/**
+ * Anything exposing a fetch handler - a router created by createRouter or createMockRouter
+ */
+export type FetchHandler = {
+  fetch: (request: Request, ...args: any[]) => Response | Promise<Response>;
+};
+
+/**
+ * Options for createTestClient
+ */
+export type TestClientOptions = Omit<ContractClientOptions, 'baseUrl' | 'fetch'> & {
+  /** Base URL of the requests (default: 'http://localhost') */
+  baseUrl?: string;
+  /** Extra arguments passed to `router.fetch` after the request (e.g. env, execution context) */
+  args?: unknown[];
+};
+
+/**
+ * Assertion helpers attached to every test client response
+ */
+export type TestResponseAssertions<O extends ContractOperation> = {
+  /**
+   * Assert the response status, narrowing the response to that status
+   * @throws Error (including the received body) when the status differs
+   */
+  expectStatus<S extends ClientResponse<O>['status']>(
+    status: S
+  ): Extract<TestResponse<O>, { status: S }>;
+  /**
+   * Assert that the response matches the contract: a declared status and content type, with a
+   * body, headers and cookies that pass the declared response schemas
+   * @throws Error with the validation `issues` when the response does not match
+   */
+  expectMatchesContract(): Promise<TestResponse<O>>;
+};
+
+/**
+ * Response returned by a test client method - the parsed client response plus assertions
+ */
+export type TestResponse<O extends ContractOperation> = ClientResponse<O> &
+  TestResponseAssertions<O>;
+
+/**
+ * Test client method for a single contract operation
+ */
+export type TestClientOperation<O extends ContractOperation> =
+  {} extends ClientRequestOptions<O>
+    ? (options?: ClientRequestOptions<O>) => Promise<TestResponse<O>>
+    : (options: ClientRequestOptions<O>) => Promise<TestResponse<O>>;
+
+/**
+ * Typed in-process test client for a contract - methods are keyed by operation ID
+ */
+export type ContractTestClient<TContract extends ContractDefinition> = {
+  [K in keyof TContract]: TestClientOperation<TContract[K]>;
+};
+
+/**
+ * Creates an in-process test client for a contract router
+ *
+ * Works like createClient, but requests are handed straight to `router.fetch` - no server or
+ * network is involved. Each method takes the operation's typed inputs and resolves to the parsed
+ * `{ status, body, headers }` response, extended with assertion helpers:
+ * - `expectStatus(status)` checks the status and narrows the body type
+ * - `expectMatchesContract()` validates the response against the declared response schemas
+ *
+ * @param router - The router under test (anything with a `fetch(request, ...args)` method)
+ * @param contract - The contract the router implements
+ * @param options - Optional base URL, default headers, codecs and extra fetch arguments
+ *
+ * @returns A test client with one method per contract operation
+ *
+ * @example
+ * ```typescript
+ * const client = createTestClient(router, contract);
+ *
+ * const user = await client.getUser({ pathParams: { id: '123' } });
+ * await user.expectMatchesContract();
+ * expect(user.expectStatus(200).body.name).toBe('Ada');
+ * ```
+ */
+export function createTestClient<TContract extends ContractDefinition>(
+  router: FetchHandler,
+  contract: TContract,
+  options: TestClientOptions = {}
+): ContractTestClient<TContract> {
+  const { baseUrl = 'http://localhost', args = [], ...clientOptions } = options;
+  const client = createClient(contract, {
+    ...clientOptions,
+    baseUrl,
+    fetch: async (request) => router.fetch(request, ...args),
+  }) as unknown as Record<string, (callOptions?: unknown) => Promise<ClientResponse<any>>>;
+
+  const testClient: Record<string, (callOptions?: unknown) => Promise<unknown>> = {};
+  for (const [operationId, operation] of Object.entries(contract)) {
+    testClient[operationId] = async (callOptions) =>
+      withAssertions(operation, await client[operationId](callOptions));
+  }
+  return testClient as ContractTestClient<TContract>;
+}
+
+/**
+ * Attach the assertion helpers to a parsed client response
+ */
+function withAssertions<O extends ContractOperation>(
+  operation: O,
+  result: ClientResponse<O>
+): TestResponse<O> {
+  const label = `${operation.method} ${operation.path}`;
+  const response = result as TestResponse<O>;
+
+  response.expectStatus = (status) => {
+    if (response.status !== status) {
+      throw new Error(
+        `Expected ${label} to respond with status ${String(status)}, received ${String(response.status)}: ${formatBody(response.body)}`
+      );
+    }
+    return response as Extract<TestResponse<O>, { status: typeof status }>;
+  };
+
+  response.expectMatchesContract = async () => {
+    const issues = await collectResponseIssues(operation.responses, {
+      status: Number(response.status),
+      body: response.body,
+      headers: response.headers,
+    });
+    if (issues.length > 0) {
+      const error = new Error(
+        `Response of ${label} (status ${String(response.status)}) does not match the contract:\n${formatIssues(issues)}`
+      );
+      (error as any).issues = issues;
+      throw error;
+    }
+    return response;
+  };
+
+  return response;
+}
+
+/**
+ * Render a response body for an assertion message
+ */
+function formatBody(body: unknown): string {
+  if (body === undefined) return '(empty body)';
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Render validation issues as one `path: message` line each
+ */
+function formatIssues(issues: readonly StandardSchemaV1.Issue[]): string {
+  return issues
+    .map((issue) => {
+      const path = (issue.path ?? [])
+        .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+        .join('.');
+      return `  - ${path ? `${path}: ` : ''}${issue.message}`;
+    })
+    .join('\n');
+}
@@ -1,5 +1,6 @@
 import type { StandardSchemaV1 } from '@standard-schema/spec';
 import type { IRequest, RequestHandler, ResponseHandler } from 'itty-router';
+import type { OpenAPIV3_1 } from 'openapi-types';
 
 // ============================================================================
 // Type System Overview
@@ -45,11 +46,55 @@ export type RawQuery = Record<string, string | string[] | undefined>;
 export interface ResponseSchema<
   TBody extends StandardSchemaV1 = StandardSchemaV1,
   THeaders extends StandardSchemaV1 = StandardSchemaV1,
+  TCookies extends StandardSchemaV1 = StandardSchemaV1,
 > {
   body: TBody;
   headers?: THeaders;
+  /** Cookies set by the response (cookie name -> value), sent as Set-Cookie headers */
+  cookies?: TCookies;
+  /**
+   * Stream the body - `body` then describes each item (an event's `data` for `text/event-stream`,
+   * one line for `application/x-ndjson`) and `respond` accepts an async iterable of items
+   */
+  stream?: boolean;
+  /** Description of the response (the first one declared for a status is used in OpenAPI) */
+  description?: string;
+  /** Named examples of the body, emitted on the OpenAPI media type */
+  examples?: Record<string, OpenAPIV3_1.ExampleObject>;
+  /** Links to other operations, emitted on the OpenAPI response */
+  links?: Record<string, OpenAPIV3_1.LinkObject>;
+  /** Specification extensions added to the OpenAPI response */
+  extensions?: Record<`x-${string}`, unknown>;
 }
 
+/**
+ * A Server-Sent Event, the item type of `text/event-stream` responses
+ */
+export type ServerSentEvent<T = unknown> = {
+  data: T;
+  event?: string;
+  id?: string;
+  retry?: number;
+};
+
+/**
+ * Item type of a streamed response - Server-Sent Events for `text/event-stream`, the item
+ * itself for any other content type
+ */
+export type StreamItem<T, C> = C extends 'text/event-stream' ? ServerSentEvent<T> : T;
+
+/**
+ * Whether a response schema is streamed
+ * `stream: true` is widened to boolean inside contracts, so anything but `false` counts.
+ */
+type IsStreamed<T> = T extends { stream: infer S } ? ([S] extends [false] ? false : true) : false;
+
+/**
+ * Body accepted by respond() for a streamed response - an async iterable of items, or a raw
+ * ReadableStream that is sent unchanged
+ */
+export type StreamBody<T> = AsyncIterable<T> | ReadableStream;
+
 /**
  * Response schemas mapped by content type.
  * Allows different schemas for different content types (e.g., JSON, HTML, XML).
@@ -79,7 +124,11 @@ export type ResponseByContentType = {
  * ```
  */
 export type RequestByContentType = {
-  [contentType: string]: { body: StandardSchemaV1 };
+  [contentType: string]: {
+    body: StandardSchemaV1;
+    /** Named examples of the body, emitted on the OpenAPI media type */
+    examples?: Record<string, OpenAPIV3_1.ExampleObject>;
+  };
 };
 
 /**
@@ -131,6 +180,18 @@ export type ResponseSchemas<T extends ResponseByStatusCode> = 200 extends keyof
  */
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
 
+/**
+ * OpenAPI serialization style for a query parameter
+ *
+ * - `form` (default): repeated keys (`?tag=a&tag=b`), or comma-separated values with `explode: false`
+ * - `spaceDelimited` / `pipeDelimited`: `?tag=a%20b` / `?tag=a|b`
+ * - `deepObject`: `?filter[status]=active` (the default for object parameters)
+ */
+export type QueryParameterStyle = {
+  style?: 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+  explode?: boolean;
+};
+
 /**
  * Contract operation definition
  *
@@ -140,6 +201,8 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' |
  * - `operationId` is optional - if omitted, the contract key will be used as the default
  * - `method` is optional - if omitted, defaults to 'GET'
  * - `requests` must be a RequestByContentType map (content-type keyed object)
+ *
+ * TSecurity preserves the scheme names of the security requirements, used to type `request.auth`.
  */
 export interface ContractOperation<
   TPathParams extends StandardSchemaV1 | undefined = undefined,
@@ -148,6 +211,7 @@ export interface ContractOperation<
   THeaders extends StandardSchemaV1 | undefined = undefined,
   TResponses extends ResponseByStatusCode = ResponseByStatusCode,
   TPath extends string = string,
+  TSecurity extends readonly SecurityRequirement[] = readonly SecurityRequirement[],
 > {
   operationId?: string;
   description?: string;
@@ -158,16 +222,45 @@ export interface ContractOperation<
   method: HttpMethod;
   pathParams?: TPathParams;
   query?: TQuery;
+  /** Serialization style per query parameter, used for coercion and in the OpenAPI output */
+  queryStyles?: Record<string, QueryParameterStyle>;
   requests?: RequestSchemas<TRequests>;
   headers?: THeaders;
+  /** Request cookies schema (cookie name -> value), validated into `validatedCookies` */
+  cookies?: StandardSchemaV1;
+  /** Maximum request body size in bytes (overrides the router's `maxBodySize`) */
+  maxBodySize?: number;
   responses: ResponseSchemas<TResponses>;
+  /** Middleware run (in order) before this operation's handler */
+  middleware?: readonly AnyOperationMiddleware[];
+  /**
+   * Security requirements - the request must satisfy one of them (`[]` makes the operation public)
+   * Each requirement maps security scheme names to the scopes it needs, as in OpenAPI.
+   */
+  security?: TSecurity;
+  /** API versions serving this operation (all versions when omitted) - see `versioning` */
+  versions?: VersionRange;
+  /** Marks the operation deprecated, optionally with its sunset date and replacement */
+  deprecated?: true | OperationDeprecation;
+  /**
+   * Names of deprecated query and header parameters
+   * Parameters are only marked deprecated: unlike operations, they carry no sunset date or
+   * replacement.
+   */
+  deprecatedParams?: { query?: readonly string[]; headers?: readonly string[] };
+  /** Additional external documentation for the operation */
+  externalDocs?: OpenAPIV3_1.ExternalDocumentationObject;
+  /** Out-of-band callbacks of the operation, emitted as-is in OpenAPI */
+  callbacks?: Record<string, OpenAPIV3_1.CallbackObject>;
+  /** Specification extensions added to the OpenAPI operation */
+  extensions?: Record<`x-${string}`, unknown>;
 }
 
 /**
  * Type constraint for any contract operation.
  * Used as a constraint in helper types to accept any valid operation.
  */
-type AnyContractOperation = ContractOperation<any, any, any, any, any, any>;
+type AnyContractOperation = ContractOperation<any, any, any, any, any, any, any>;
 
 /**
  * Valid keys for ContractOperation - explicitly listed to catch typos like 'request' vs 'requests'
@@ -182,9 +275,20 @@ type ContractOperationKeys =
   | 'method'
   | 'pathParams'
   | 'query'
+  | 'queryStyles'
   | 'requests'
   | 'headers'
-  | 'responses';
+  | 'cookies'
+  | 'maxBodySize'
+  | 'responses'
+  | 'middleware'
+  | 'security'
+  | 'versions'
+  | 'deprecated'
+  | 'deprecatedParams'
+  | 'externalDocs'
+  | 'callbacks'
+  | 'extensions';
 
 /**
  * Helper type that validates an operation has only valid keys.
@@ -224,6 +328,39 @@ export type ContractDefinition<
  */
 export type Contract<T extends ContractDefinition> = T;
 
+/**
+ * Intersection of a tuple of contracts
+ */
+type IntersectContracts<T extends readonly unknown[]> = T extends readonly [
+  infer Head,
+  ...infer Tail,
+]
+  ? Head & IntersectContracts<Tail>
+  : unknown;
+
+/**
+ * Contract returned by mergeContracts - the operations of every merged contract
+ */
+export type MergedContract<T extends readonly ContractDefinition[]> = MergeIntersection<
+  IntersectContracts<T>
+>;
+
+/**
+ * Contract returned by tagContract - every operation has tags
+ */
+export type TaggedContract<T extends ContractDefinition> = {
+  [K in keyof T]: T[K] & { tags: string[] };
+};
+
+/**
+ * Contract returned by prefixContract - every operation path starts with the prefix
+ */
+export type PrefixedContract<P extends string, T extends ContractDefinition> = {
+  [K in keyof T]: T[K] extends { path: infer Path extends string }
+    ? MergeIntersection<Omit<T[K], 'path'> & { path: `${P}${Path}` }>
+    : T[K];
+};
+
 /**
  * Helper type to merge intersection types into a single object type
  */
@@ -231,40 +368,94 @@ type MergeIntersection<T> = {
   [K in keyof T]: T[K];
 };
 
+/**
+ * Characters allowed in a path parameter name
+ */
+type PathParamNameChar =
+  StringChars<'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_'>;
+
+/**
+ * Union of the characters of a string literal
+ */
+type StringChars<
+  S extends string,
+  Chars extends string = never,
+> = S extends `${infer C}${infer Rest}` ? StringChars<Rest, Chars | C> : Chars;
+
+/**
+ * Split a string after a leading parameter name
+ * e.g. "id(\\d+)?" -> ["id", "(\\d+)?"]
+ */
+type TakeParamName<S extends string, Name extends string = ''> = S extends `${infer C}${infer Rest}`
+  ? C extends PathParamNameChar
+    ? TakeParamName<Rest, `${Name}${C}`>
+    : [Name, S]
+  : [Name, S];
+
+/**
+ * Drop a leading regex constraint group, e.g. "(\\d+)?" -> "?"
+ * Nested groups and escaped parentheses are skipped.
+ */
+type SkipParamConstraint<S extends string, Depth extends unknown[] = []> = Depth extends []
+  ? S extends `(${infer Rest}`
+    ? SkipParamConstraint<Rest, [unknown]>
+    : S
+  : S extends `\\${infer _Escaped}${infer Rest}`
+    ? SkipParamConstraint<Rest, Depth>
+    : S extends `(${infer Rest}`
+      ? SkipParamConstraint<Rest, [...Depth, unknown]>
+      : S extends `)${infer Rest}`
+        ? Depth extends [unknown, ...infer Outer]
+          ? Outer extends []
+            ? Rest
+            : SkipParamConstraint<Rest, Outer>
+          : Rest
+        : S extends `${infer _Char}${infer Rest}`
+          ? SkipParamConstraint<Rest, Depth>
+          : S;
+
+/**
+ * Parameters declared in a single path segment
+ * - `:id` / `:id(\\d+)` / `v:version` / `:name.:ext` -> required params
+ * - `:id?` -> optional param
+ * - `:path+` -> required param capturing the rest of the path
+ * - `*` -> no params
+ */
+type ExtractSegmentParams<Segment extends string> = Segment extends `${string}:${infer Rest}`
+  ? TakeParamName<Rest> extends [infer Name extends string, infer After extends string]
+    ? SkipParamConstraint<After> extends infer Tail extends string
+      ? Tail extends `?${infer More}`
+        ? { [K in Name]?: string } & ExtractSegmentParams<More>
+        : Tail extends `+${infer More}`
+          ? { [K in Name]: string } & ExtractSegmentParams<More>
+          : { [K in Name]: string } & ExtractSegmentParams<Tail>
+      : {}
+    : {}
+  : {};
+
+/**
+ * Collect the parameters of every segment of a path
+ */
+type ExtractPathSegmentParams<TPath extends string> = TPath extends `${infer Segment}/${infer Rest}`
+  ? ExtractSegmentParams<Segment> & ExtractPathSegmentParams<Rest>
+  : ExtractSegmentParams<TPath>;
+
 /**
  * Extract path parameters from a path string
  * e.g., "/v1/users/:id" -> { id: string }
  *
- * This type recursively processes path segments to extract parameters:
- * 1. Handles paths starting with "/"
- * 2. Extracts parameters from segments starting with ":"
- * 3. Merges multiple parameters using intersection types
+ * Supports the full contract path grammar (see parsePathPattern):
+ * - `:id` and constrained `:id(\\d+)` params -> `{ id: string }`
+ * - optional params `:id?` -> `{ id?: string }`
+ * - params mixed with text, e.g. `v:version` -> `{ version: string }`
+ * - rest params `:path+` -> `{ path: string }`; the `*` wildcard declares no param
  *
- * Note: When TPath is a generic `string` type (not a literal), this will return {}
+ * Note: When TPath is a generic `string` type (not a literal), this will return EmptyObject
  * because template literal pattern matching only works with literal types.
  */
-export type ExtractPathParams<TPath extends string> =
-  // Handle empty string - return EmptyObject
-  TPath extends ''
-    ? EmptyObject
-    : // Handle paths starting with "/" - strip it and recurse
-      TPath extends `/${infer Rest}`
-      ? ExtractPathParams<Rest>
-      : // Match segment ending with "/" followed by rest
-        TPath extends `${infer Segment}/${infer Rest}`
-        ? Segment extends `:${infer Param}`
-          ? // Segment is a param (e.g., ":userId")
-            MergeIntersection<{ [K in Param]: string } & ExtractPathParams<Rest>>
-          : // Segment is not a param, recurse on rest
-            ExtractPathParams<Rest>
-        : // Handle trailing slash on final segment - strip it and recurse
-          TPath extends `${infer Rest}/`
-          ? ExtractPathParams<Rest>
-          : // Match final segment (no trailing "/")
-            TPath extends `:${infer Param}`
-            ? { [K in Param]: string }
-            : // No match - empty object (also handles generic string type)
-              EmptyObject;
+export type ExtractPathParams<TPath extends string> = NormalizeEmpty<
+  ExtractPathSegmentParams<TPath>
+>;
 
 /**
  * Normalize `{}` (no keys) into `EmptyObject` for consistency.
@@ -296,9 +487,7 @@ type InferOptionalSchema<
  * Returns a union of all body types across all content types.
  */
 type ExtractBodyFromResponseMap<T extends ResponseByContentType> = {
-  [K in keyof T]: T[K] extends ResponseSchema<infer TBody>
-    ? StandardSchemaV1.InferOutput<TBody>
-    : never;
+  [K in keyof T]: T[K] extends ResponseSchema ? ExtractBodyFromResponseSchema<T[K], K> : never;
 }[keyof T];
 
 /**
@@ -315,10 +504,12 @@ type ExtractHeadersFromResponseMap<T extends ResponseByContentType> = {
 
 /**
  * Extract body type from a single ResponseSchema.
+ * Streamed responses take a StreamBody of items for the content type.
  */
-type ExtractBodyFromResponseSchema<T extends ResponseSchema> = StandardSchemaV1.InferOutput<
-  T['body']
->;
+type ExtractBodyFromResponseSchema<T extends ResponseSchema, C> =
+  IsStreamed<T> extends true
+    ? StreamBody<StreamItem<StandardSchemaV1.InferOutput<T['body']>, C>>
+    : StandardSchemaV1.InferOutput<T['body']>;
 
 /**
  * Extract headers type from a single ResponseSchema.
@@ -441,6 +632,35 @@ export type ContractOperationHeaders<O extends AnyContractOperation> =
 // ? StandardSchemaV1.InferOutput<O['headers']> extends HeaderSpec
 //   : Headers;
 
+/**
+ * Extract cookies type from a contract operation.
+ * Falls back to the raw cookies (name -> value) when no schema is provided.
+ */
+export type ContractOperationCookies<O extends AnyContractOperation> = InferOptionalSchema<
+  O['cookies'],
+  Record<string, string>
+>;
+
+/**
+ * Set-Cookie attributes
+ */
+export type CookieOptions = {
+  domain?: string;
+  path?: string;
+  expires?: Date;
+  /** Lifetime in seconds */
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  partitioned?: boolean;
+};
+
+/**
+ * A cookie to set - its value, or its value with Set-Cookie attributes
+ */
+export type SetCookieValue<T> = T | ({ value: T } & CookieOptions);
+
 // ============================================================================
 // Router Types
 // ============================================================================
@@ -458,6 +678,9 @@ export interface ContractOperationRequest<O extends AnyContractOperation> extend
   validatedQuery: ContractOperationQuery<O>;
   validatedBody: ContractOperationBody<O>;
   validatedHeaders: ContractOperationHeaders<O>;
+  validatedCookies: ContractOperationCookies<O>;
+  /** Best response content type for the request's Accept header, among the declared ones */
+  preferredContentType: ContractOperationResponseContentTypes<O>;
 }
 
 /**
@@ -504,7 +727,23 @@ export type ContractOperationResponseBody<
 > = O['responses'][S] extends ResponseByContentType
   ? C extends keyof O['responses'][S]
     ? O['responses'][S][C] extends ResponseSchema
-      ? ExtractBodyFromResponseSchema<O['responses'][S][C]>
+      ? ExtractBodyFromResponseSchema<O['responses'][S][C], C>
+      : never
+    : never
+  : never;
+
+/**
+ * Extract the response cookies type for a specific status code and content type.
+ * Cookies are only typed when the response declares a `cookies` schema.
+ */
+export type ContractOperationResponseCookies<
+  O extends ContractOperation,
+  S extends ContractOperationStatusCodes<O>,
+  C extends string = 'application/json',
+> = O['responses'][S] extends ResponseByContentType
+  ? C extends keyof O['responses'][S]
+    ? O['responses'][S][C] extends { cookies: infer TCookies extends StandardSchemaV1 }
+      ? StandardSchemaV1.InferInput<TCookies>
       : never
     : never
   : never;
@@ -542,6 +781,13 @@ export type ExtractContentTypes<
   S extends ContractOperationStatusCodes<O>,
 > = O['responses'][S] extends ResponseByContentType ? keyof O['responses'][S] & string : never;
 
+/**
+ * Extract all response content types declared by a contract operation (across all status codes)
+ */
+export type ContractOperationResponseContentTypes<O extends ContractOperation> = {
+  [S in ContractOperationStatusCodes<O>]: ExtractContentTypes<O, S>;
+}[ContractOperationStatusCodes<O>];
+
 /**
  * Response options for the respond() method
  * When body type is `never` (e.g., from ZodNever), the body field is optional
@@ -557,7 +803,16 @@ export type RespondOptions<
   ? { body?: never }
   : { body: ContractOperationResponseBody<O, S, C> }) & {
     headers?: ContractOperationResponseHeaders<O, S, C>;
-  };
+  } & ([ContractOperationResponseCookies<O, S, C>] extends [never]
+    ? { setCookie?: never }
+    : {
+        /** Cookies to set, sent as Set-Cookie headers */
+        setCookie?: {
+          [K in keyof ContractOperationResponseCookies<O, S, C>]: SetCookieValue<
+            ContractOperationResponseCookies<O, S, C>[K]
+          >;
+        };
+      });
 
 /**
  * Typed response helper method attached to the request object
@@ -581,14 +836,98 @@ export interface ContractRequest<O extends ContractOperation>
   extends ContractOperationRequest<O>, ContractOperationResponseHelpers<O> {}
 
 /**
- * Handler function type for a contract operation
- * Receives a typed request with response helpers
+ * Value returned by a per-operation middleware
+ * - nothing, to continue with the next middleware or the handler
+ * - a response from `request.respond()` (or a Response) to short-circuit the handler
+ * - any other object, as fields to add to the request
  */
-export type ContractOperationHandler<O extends ContractOperation, Args extends any[] = any[]> = (
+export type OperationMiddlewareResult<O extends ContractOperation = ContractOperation> =
+  | void
+  | ContractOperationResponse<O>
+  | Response
+  | object;
+
+/**
+ * Per-operation middleware
+ * Runs after request validation and before the operation's handler.
+ */
+export type OperationMiddleware<
+  O extends ContractOperation = ContractOperation,
+  Args extends any[] = any[],
+> = (
   request: ContractRequest<O>,
   ...args: Args
+) => OperationMiddlewareResult<O> | Promise<OperationMiddlewareResult<O>>;
+
+/**
+ * Any per-operation middleware, used where the operation is not known (e.g. on the contract)
+ */
+type AnyOperationMiddleware = (request: any, ...args: any[]) => unknown;
+
+/**
+ * Extract the request fields added by a single middleware (from its return type)
+ * Keys that are only `undefined` (added when TypeScript normalizes unions of object
+ * literals) are dropped.
+ */
+type ExtractMiddlewareContext<F> = F extends (...args: any[]) => infer R
+  ? OmitUndefinedKeys<
+      Exclude<Awaited<R>, void | undefined | Response | { status: number; body: unknown }>
+    >
+  : never;
+
+type OmitUndefinedKeys<T> = T extends object
+  ? { [K in keyof T as [Exclude<T[K], undefined>] extends [never] ? never : K]: T[K] }
+  : never;
+
+/**
+ * Request fields added by a list of middleware
+ * Fields of every middleware are intersected; middleware that add nothing contribute `unknown`.
+ */
+export type OperationMiddlewareContext<M> = [M] extends [readonly (infer F)[]]
+  ? (
+      F extends unknown ? (context: NeverToUnknown<ExtractMiddlewareContext<F>>) => void : never
+    ) extends (context: infer C) => void
+    ? C
+    : unknown
+  : unknown;
+
+type NeverToUnknown<T> = [T] extends [never] ? unknown : T;
+
+/**
+ * Request fields added by the middleware declared on a contract operation
+ */
+export type ContractOperationContext<O extends ContractOperation> = O extends {
+  middleware?: infer M;
+}
+  ? OperationMiddlewareContext<NonNullable<M>>
+  : unknown;
+
+/**
+ * Handler function type for a contract operation
+ * Receives a typed request with response helpers (and any fields added by the operation's middleware)
+ */
+export type ContractOperationHandler<
+  O extends ContractOperation,
+  Args extends any[] = any[],
+  TSchemes extends SecuritySchemeRegistry = SecuritySchemeRegistry,
+> = (
+  request: ContractRequest<O> & ContractOperationContext<O> & ContractOperationAuth<O, TSchemes>,
+  ...args: Args
 ) => Promise<ContractOperationResponse<O>>;
 
+/**
+ * Handler declared together with its own per-operation middleware
+ * The middleware run after the middleware declared on the contract operation.
+ */
+export type ContractOperationHandlerWithMiddleware<
+  O extends ContractOperation,
+  Args extends any[] = any[],
+  TSchemes extends SecuritySchemeRegistry = SecuritySchemeRegistry,
+> = {
+  middleware: readonly OperationMiddleware<O, Args>[];
+  handler: ContractOperationHandler<O, Args, TSchemes>;
+};
+
 /**
  * Extract handler type for a specific contract operation
  * Useful when defining handlers in separate files that reference contract operations
@@ -650,6 +989,279 @@ export type ContractRouterType<TContract extends ContractDefinition> = {
   };
 };
 
+/**
+ * Body codec - a parse/serialize pair for a media type
+ *
+ * `parse` converts a request body into the value passed to schema validation, and `serialize`
+ * converts a response body into a BodyInit. Text codecs receive the body as a string; codecs
+ * with `binary: true` receive the raw bytes (e.g. for CBOR or msgpack).
+ */
+export type BodyCodec =
+  | {
+      binary?: false;
+      parse?: (text: string) => unknown | Promise<unknown>;
+      serialize?: (value: unknown) => BodyInit | Promise<BodyInit>;
+    }
+  | {
+      binary: true;
+      parse?: (bytes: Uint8Array) => unknown | Promise<unknown>;
+      serialize?: (value: unknown) => BodyInit | Promise<BodyInit>;
+    };
+
+/**
+ * Body codecs keyed by media type.
+ * Keys may contain wildcards (e.g. `application/*+json`, `text/*`).
+ *
+ * Example:
+ * ```typescript
+ * {
+ *   'application/x-ndjson': {
+ *     parse: (text) => text.split('\n').filter(Boolean).map((line) => JSON.parse(line)),
+ *     serialize: (items) => (items as unknown[]).map((item) => JSON.stringify(item)).join('\n'),
+ *   },
+ * }
+ * ```
+ */
+export type CodecRegistry = Record<string, BodyCodec>;
+
+/**
+ * Response validation mode
+ * - 'off': responses are not validated (default)
+ * - 'warn': validation failures are logged with console.warn and the response is sent as-is
+ * - 'throw': validation failures are turned into a 500 error response
+ */
+export type ResponseValidationMode = 'off' | 'warn' | 'throw';
+
+/**
+ * Request part a validation error belongs to
+ */
+export type ContractErrorLocation = 'params' | 'query' | 'headers' | 'cookies' | 'body';
+
+/**
+ * Normalized error passed to error formatters
+ */
+export interface ContractError {
+  /** HTTP status code (validation errors default to 400, unknown errors to 500) */
+  status: number;
+  /** Human readable error message */
+  message: string;
+  /** Standard Schema issues for validation errors */
+  issues?: ReadonlyArray<StandardSchemaV1.Issue>;
+  /** Request part the issues belong to (response validation issues are already prefixed) */
+  location?: ContractErrorLocation;
+  /** Extra response headers (e.g. WWW-Authenticate for 401 errors) */
+  headers?: HeadersInit;
+  /** The original thrown value */
+  cause: unknown;
+}
+
+/**
+ * Error formatter - turns a normalized error into a response body
+ *
+ * Example:
+ * ```typescript
+ * const errors: ErrorFormatter = {
+ *   contentType: 'application/json',
+ *   format: (error) => ({ code: error.status, message: error.message }),
+ *   schema: v.object({ code: v.number(), message: v.string() }),
+ * };
+ * ```
+ */
+export interface ErrorFormatter {
+  /** Content type of the error response */
+  contentType: string;
+  /** Build the (JSON serializable) error response body */
+  format: (error: ContractError, request: IRequest) => unknown;
+  /** Schema of the error body, used to document error responses in OpenAPI */
+  schema?: StandardSchemaV1 | OpenAPIV3_1.SchemaObject;
+  /** Component name of the error schema in OpenAPI (defaults to 'Error') */
+  name?: string;
+}
+
+/**
+ * Error response format
+ * - 'legacy': `{ error, details }` JSON with raw Standard Schema issues (default)
+ * - 'problem+json': RFC 9457 problem details (`application/problem+json`)
+ * - a custom ErrorFormatter
+ */
+export type ErrorFormat = 'legacy' | 'problem+json' | ErrorFormatter;
+
+/**
+ * CORS configuration for createRouter
+ *
+ * Preflight requests are answered with the methods declared for the path and the request
+ * headers declared by the operation (its headers schema, `content-type` when it accepts a body,
+ * `authorization` when it has security requirements) plus `allowHeaders`.
+ */
+export type CorsOptions = {
+  /** Allowed origins - '*' (default), a list of origins, or a function deciding per origin */
+  origin?: string | string[] | ((origin: string) => boolean);
+  /** Allow credentials (cookies, authorization) - the request origin is echoed instead of '*' */
+  credentials?: boolean;
+  /** Request headers allowed in addition to those declared by the contract */
+  allowHeaders?: string[];
+  /** Response headers exposed to the browser */
+  exposeHeaders?: string[];
+  /** How long (in seconds) browsers may cache preflight responses */
+  maxAge?: number;
+};
+
+/**
+ * Details of a deprecated operation
+ */
+export type OperationDeprecation = {
+  /** Date the operation was deprecated (sent in the `Deprecation` header) */
+  since?: Date | string;
+  /** Date the operation stops being served (sent in the `Sunset` header) */
+  sunset?: Date | string;
+  /** Contract key of the operation replacing this one (linked from the `Link` header) */
+  replacement?: string;
+};
+
+/**
+ * A request using a deprecated operation or deprecated parameters
+ */
+export type DeprecatedUsage = {
+  /** Contract key of the operation */
+  operation: string;
+  /** Whether the operation itself is deprecated (false when only parameters are) */
+  deprecated: boolean;
+  /** Deprecated parameters sent with the request (e.g. `query.page`, `headers.x-token`) */
+  parameters: string[];
+  request: IRequest;
+};
+
+/**
+ * API versions of an operation - a version name, a list of version names, or an inclusive range
+ * over the declared versions (open-ended when `from` or `until` is omitted)
+ */
+export type VersionRange = string | readonly string[] | { from?: string; until?: string };
+
+/**
+ * A declared API version and its lifecycle
+ */
+export type ApiVersion = {
+  name: string;
+  /**
+   * Deprecation date (or `true` when undated) - responses for this version carry a
+   * `Deprecation` header and its operations are marked deprecated in OpenAPI
+   */
+  deprecated?: true | Date | string;
+  /** Date the version stops being served - responses for this version carry a `Sunset` header */
+  sunset?: Date | string;
+};
+
+/**
+ * How a request selects an API version
+ * - `path`: a URL prefix naming the version (`/v2/users`)
+ * - `header`: the `Accept-Version` header (or the configured `header`)
+ * - `media-type`: a parameter of the Accept header (`application/json; version=v2`)
+ */
+export type VersionStrategy = 'path' | 'header' | 'media-type';
+
+/**
+ * API versioning configuration, shared by createRouter and createOpenApiSpecification
+ */
+export type VersioningOptions = {
+  /** Versions in release order (oldest first), as names or with their lifecycle dates */
+  versions: readonly (string | ApiVersion)[];
+  /** Strategies tried in order (defaults to `['path', 'header', 'media-type']`) */
+  strategies?: readonly VersionStrategy[];
+  /** Header read by the `header` strategy (defaults to 'accept-version') */
+  header?: string;
+  /** Media type parameter read by the `media-type` strategy (defaults to 'version') */
+  parameter?: string;
+  /** Version of requests that select none (defaults to the latest version) */
+  default?: string;
+};
+
+/**
+ * Security requirement - security scheme names mapped to the scopes they need
+ */
+export type SecurityRequirement = Record<string, readonly string[]>;
+
+/**
+ * Security scheme verifier - resolves the credentials to a principal
+ * Return null, undefined or false to reject the credentials (401).
+ */
+export type SecurityVerifier<TCredentials, TPrincipal = unknown> = (
+  credentials: TCredentials,
+  request: IRequest
+) => TPrincipal | null | undefined | false | Promise<TPrincipal | null | undefined | false>;
+
+/**
+ * Fields shared by all security schemes
+ */
+type SecuritySchemeBase<TPrincipal> = {
+  description?: string;
+  /**
+   * Scopes granted to a principal, checked against the scopes required by the operation (403
+   * when missing). Defaults to the principal's `scopes` array.
+   */
+  getScopes?: (principal: TPrincipal) => readonly string[];
+};
+
+/**
+ * Security scheme with its verifier
+ * - HTTP bearer: `Authorization: Bearer <token>`, verified with the token
+ * - HTTP basic: `Authorization: Basic <base64>`, verified with `{ username, password }`
+ * - API key: read from a header, query parameter or cookie, verified with the key
+ */
+export type SecurityScheme<TPrincipal = unknown> =
+  | (SecuritySchemeBase<TPrincipal> & {
+      type: 'http';
+      scheme: 'bearer';
+      bearerFormat?: string;
+      verify: SecurityVerifier<string, TPrincipal>;
+    })
+  | (SecuritySchemeBase<TPrincipal> & {
+      type: 'http';
+      scheme: 'basic';
+      verify: SecurityVerifier<{ username: string; password: string }, TPrincipal>;
+    })
+  | (SecuritySchemeBase<TPrincipal> & {
+      type: 'apiKey';
+      in: 'header' | 'query' | 'cookie';
+      name: string;
+      verify: SecurityVerifier<string, TPrincipal>;
+    });
+
+/**
+ * Security schemes keyed by the names used in operation security requirements
+ */
+export type SecuritySchemeRegistry = Record<string, SecurityScheme<any>>;
+
+/**
+ * Principal returned by a security scheme's verifier
+ */
+export type SecuritySchemePrincipal<S> = S extends { verify: (...args: any[]) => infer R }
+  ? Exclude<Awaited<R>, null | undefined | false>
+  : never;
+
+/**
+ * Names of the security schemes referenced by a contract operation
+ */
+type OperationSecuritySchemeNames<O> = O extends { security?: infer R }
+  ? NonNullable<R> extends readonly (infer Requirement)[]
+    ? Requirement extends unknown
+      ? keyof Requirement & string
+      : never
+    : never
+  : never;
+
+/**
+ * Typed `auth` principal for operations with security requirements
+ * Optional when one of the requirements is empty (`{}` - authentication is optional).
+ */
+export type ContractOperationAuth<
+  O extends AnyContractOperation,
+  TSchemes extends SecuritySchemeRegistry = SecuritySchemeRegistry,
+> = [OperationSecuritySchemeNames<O>] extends [never]
+  ? unknown
+  : {} extends NonNullable<O['security']>[number]
+    ? { auth?: SecuritySchemePrincipal<TSchemes[OperationSecuritySchemeNames<O> & keyof TSchemes]> }
+    : { auth: SecuritySchemePrincipal<TSchemes[OperationSecuritySchemeNames<O> & keyof TSchemes]> };
+
 /**
  * Options for ContractRouter
  */
@@ -657,12 +1269,15 @@ export interface ContractRouterOptions<
   TContract extends ContractDefinition,
   RequestType extends IRequest = IRequest,
   Args extends any[] = any[],
+  TSchemes extends SecuritySchemeRegistry = SecuritySchemeRegistry,
 > {
   /** Contract definition */
   contract: TContract;
   /** Handlers mapped by operation ID */
   handlers: {
-    [K in keyof TContract]?: ContractOperationHandler<TContract[K], Args>;
+    [K in keyof TContract]?:
+      | ContractOperationHandler<TContract[K], Args, TSchemes>
+      | ContractOperationHandlerWithMiddleware<TContract[K], Args, TSchemes>;
   };
   /** Response formatter (defaults to contract-aware JSON formatter) */
   format?: ResponseHandler;
@@ -684,6 +1299,22 @@ export interface ContractRouterOptions<
   finally?: ResponseHandler[];
   /** Base path for all routes */
   base?: string;
+  /** Validate outgoing responses against the contract's response schemas (defaults to 'off') */
+  validateResponses?: ResponseValidationMode;
+  /** Body codecs keyed by media type, used to parse requests and serialize responses */
+  codecs?: CodecRegistry;
+  /** Maximum request body size in bytes - larger bodies are rejected with 413 (unlimited by default) */
+  maxBodySize?: number;
+  /** Error response format (defaults to 'legacy') */
+  errors?: ErrorFormat;
+  /** Security schemes enforced for operations with `security` requirements */
+  securitySchemes?: TSchemes;
+  /** Answer CORS preflights and add CORS headers to responses (`true` allows any origin) */
+  cors?: boolean | CorsOptions;
+  /** Serve several API versions, selecting the operations of the version each request asks for */
+  versioning?: VersioningOptions;
+  /** Called when a request hits a deprecated operation or sends deprecated parameters */
+  onDeprecated?: (usage: DeprecatedUsage) => void;
 }
 
 /**
@@ -692,4 +1323,175 @@ export interface ContractRouterOptions<
  */
 export type ContractAugmentedRequest<O extends ContractOperation = ContractOperation> = IRequest & {
   __contractOperation?: O;
+  /** Path params extracted while matching the operation */
+  __contractParams?: Record<string, string>;
+  /** API version selected by the request (when the router has `versioning`) */
+  __contractVersion?: ApiVersion;
+  /** Bytes of the request body read during validation (e.g. to verify webhook signatures) */
+  __rawBody?: Uint8Array;
 };
+
+// ============================================================================
+// Client Types
+// ============================================================================
+
+/**
+ * Extract the request content types declared for a contract operation
+ */
+export type ContractOperationRequestContentTypes<O extends AnyContractOperation> =
+  O['requests'] extends RequestByContentType ? keyof O['requests'] & string : never;
+
+/**
+ * Header values accepted by the client for a contract operation.
+ * Uses the headers schema output (with lowercase keys) when provided, otherwise any HeadersInit.
+ */
+export type ContractOperationClientHeaders<O extends AnyContractOperation> =
+  O['headers'] extends StandardSchemaV1
+    ? NormalizeHeaderKeys<StandardSchemaV1.InferOutput<O['headers']>> & Record<string, string>
+    : HeadersInit;
+
+/**
+ * Input accepted by a client method for a contract operation.
+ *
+ * - `pathParams` is required only when the path declares parameters (loosely typed when the
+ *   path is not a literal type)
+ * - `query` and `headers` are required only when a schema is declared
+ * - `body` is required only when request schemas are declared
+ */
+export type ClientRequestOptions<O extends AnyContractOperation> = (string extends O['path']
+  ? { pathParams?: Record<string, string> }
+  : ContractOperationParameters<O> extends EmptyObject
+    ? { pathParams?: EmptyObject }
+    : { pathParams: ContractOperationParameters<O> }) &
+  (O['query'] extends StandardSchemaV1
+    ? { query: ContractOperationQuery<O> }
+    : { query?: ContractOperationQuery<O> }) &
+  (O['headers'] extends StandardSchemaV1
+    ? { headers: ContractOperationClientHeaders<O> }
+    : { headers?: ContractOperationClientHeaders<O> }) &
+  (O['requests'] extends RequestByContentType
+    ? { body: ContractOperationBody<O>; contentType?: ContractOperationRequestContentTypes<O> }
+    : { body?: never; contentType?: never }) & {
+    /** Additional fetch options (signal, credentials, etc.) */
+    init?: Omit<RequestInit, 'method' | 'body' | 'headers'>;
+  };
+
+/**
+ * Body type received by the client for a response (content-type map)
+ * Streamed responses are received as an async iterable of parsed items.
+ */
+type ExtractClientResponseBody<T> = T extends ResponseByContentType
+  ? {
+      [K in keyof T]: IsStreamed<T[K]> extends true
+        ? AsyncIterable<StreamItem<StandardSchemaV1.InferOutput<T[K]['body']>, K>>
+        : StandardSchemaV1.InferOutput<T[K]['body']>;
+    }[keyof T]
+  : never;
+
+/**
+ * Response returned by a client method - a discriminated union on `status`
+ * mirroring ContractOperationResponse, with the raw response headers attached
+ */
+export type ClientResponse<O extends ContractOperation> = {
+  [K in keyof O['responses']]: {
+    status: K extends 'default' ? number : K;
+    body: ExtractClientResponseBody<O['responses'][K]>;
+    headers: Headers;
+  };
+}[keyof O['responses']];
+
+/**
+ * Client method for a single contract operation
+ */
+export type ClientOperation<O extends ContractOperation> =
+  {} extends ClientRequestOptions<O>
+    ? (options?: ClientRequestOptions<O>) => Promise<ClientResponse<O>>
+    : (options: ClientRequestOptions<O>) => Promise<ClientResponse<O>>;
+
+/**
+ * Typed client for a contract - methods are keyed by operation ID
+ */
+export type ContractClient<TContract extends ContractDefinition> = {
+  [K in keyof TContract]: ClientOperation<TContract[K]>;
+};
+
+/**
+ * Options for createClient
+ */
+export interface ContractClientOptions {
+  /** Base URL prepended to every operation path (e.g. https://api.example.com) */
+  baseUrl: string;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: (input: Request) => Promise<Response>;
+  /** Headers sent with every request */
+  headers?: HeadersInit;
+  /** Body codecs keyed by media type, used to serialize requests and parse responses */
+  codecs?: CodecRegistry;
+}
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/**
+ * A webhook sent by the API - its payload is part of the contract like an operation's body
+ */
+export interface WebhookDefinition<TBody extends StandardSchemaV1 = StandardSchemaV1> {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  /** HTTP method deliveries are sent with (defaults to POST) */
+  method?: HttpMethod;
+  /** Payload schema - payloads are validated against it and sent as JSON */
+  body: TBody;
+  /** Named examples of the payload, emitted on the OpenAPI media type */
+  examples?: Record<string, OpenAPIV3_1.ExampleObject>;
+  /** Schema of the headers sent with deliveries (documented in OpenAPI) */
+  headers?: StandardSchemaV1;
+  /** Responses receivers answer with (defaults to 200) */
+  responses?: Partial<Record<number, ResponseByContentType>>;
+}
+
+/**
+ * Webhook definitions keyed by webhook name
+ */
+export type WebhookDefinitions = Record<string, WebhookDefinition<any>>;
+
+/**
+ * Options for createWebhookSender
+ */
+export interface WebhookSenderOptions {
+  /** Secret the payloads are signed with (HMAC-SHA256) */
+  secret: string;
+  /** Header carrying the signature (defaults to 'webhook-signature') */
+  header?: string;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: (input: Request) => Promise<Response>;
+  /** Headers sent with every delivery */
+  headers?: HeadersInit;
+}
+
+/**
+ * Typed webhook sender - methods are keyed by webhook name
+ * Each validates the payload, signs it and delivers it to `url`.
+ */
+export type WebhookSender<TWebhooks extends WebhookDefinitions> = {
+  [K in keyof TWebhooks]: (
+    url: string,
+    payload: StandardSchemaV1.InferInput<TWebhooks[K]['body']>,
+    options?: { headers?: HeadersInit }
+  ) => Promise<Response>;
+};
+
+/**
+ * Options for withWebhookVerification
+ */
+export interface WebhookVerificationOptions {
+  /** Secret(s) signatures are checked against - several during a secret rotation */
+  secret: string | readonly string[];
+  /** Header carrying the signature (defaults to 'webhook-signature') */
+  header?: string;
+  /** Maximum age of a signature in seconds (defaults to 300) */
+  tolerance?: number;
+}
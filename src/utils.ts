@@ -9,6 +9,7 @@ import type {
   ExtractContentTypes,
 } from './types';
 import type { StandardSchemaV1 } from '@standard-schema/spec';
+import { serializeCookie } from './cookies';
 
 /**
  * Get response schema for a specific content type
@@ -21,15 +22,28 @@ export function getResponseSchemaForContentType(
   return response[contentType] || null;
 }
 
+/**
+ * Response objects created by respond(), which short-circuit per-operation middleware
+ */
+const respondedObjects = new WeakSet<object>();
+
 /**
  * Create a response object with optional headers
  */
 function createResponse(status: number, body: unknown, headers?: unknown) {
   const response: any = { status, body };
   if (headers) response.headers = headers;
+  respondedObjects.add(response);
   return response;
 }
 
+/**
+ * Check whether a value is a response object created by respond()
+ */
+export function isRespondedObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && respondedObjects.has(value);
+}
+
 /**
  * Basic response helper for use in missing handlers
  * This helper doesn't validate against a contract schema since there's no operation context
@@ -76,9 +90,14 @@ export function createResponseHelpers<TOperation extends ContractOperation>(
       S extends ContractOperationStatusCodes<TOperation>,
       C extends ExtractContentTypes<TOperation, S> & string,
     >(options: RespondOptions<TOperation, S, C>): ResponseVariant<TOperation, S> {
-      const { status, contentType, body, headers } = options;
+      const { status, contentType, body, headers, setCookie } = options;
       const responseHeaders = headers ? new Headers(headers as HeadersInit) : new Headers();
 
+      for (const [name, cookie] of Object.entries(setCookie ?? {})) {
+        if (cookie !== undefined)
+          responseHeaders.append('set-cookie', serializeCookie(name, cookie));
+      }
+
       // Set content-type header if not already set
       if (!responseHeaders.has('content-type')) {
         // Handle special case for HTML
@@ -0,0 +1,180 @@
+import type { IRequest } from 'itty-router';
+import { StatusError } from 'itty-router';
+import type {
+  ApiVersion,
+  ContractOperation,
+  VersionRange,
+  VersionStrategy,
+  VersioningOptions,
+} from './types';
+import { createDeprecationHeaders, parseLifecycleDate } from './deprecation';
+
+/**
+ * Versioning options with their defaults applied and every version normalized
+ */
+export type ResolvedVersioning = {
+  versions: ApiVersion[];
+  strategies: readonly VersionStrategy[];
+  header: string;
+  parameter: string;
+  default: ApiVersion;
+};
+
+/**
+ * Apply the defaults of the versioning options and check their versions
+ *
+ * @param options - The versioning options
+ * @returns The resolved options
+ */
+export function resolveVersioning(options: VersioningOptions): ResolvedVersioning {
+  const versions = options.versions.map((version) =>
+    typeof version === 'string' ? { name: version } : version
+  );
+  if (versions.length === 0) throw new Error('Versioning requires at least one API version');
+
+  const names = new Set<string>();
+  for (const version of versions) {
+    if (names.has(version.name)) throw new Error(`Duplicate API version "${version.name}"`);
+    names.add(version.name);
+    const subject = `API version "${version.name}"`;
+    if (typeof version.deprecated === 'string') parseLifecycleDate(version.deprecated, subject);
+    if (version.sunset !== undefined) parseLifecycleDate(version.sunset, subject);
+  }
+
+  return {
+    versions,
+    strategies: options.strategies ?? ['path', 'header', 'media-type'],
+    header: (options.header ?? 'accept-version').toLowerCase(),
+    parameter: (options.parameter ?? 'version').toLowerCase(),
+    default: options.default
+      ? findVersion(versions, options.default)
+      : versions[versions.length - 1]!,
+  };
+}
+
+/**
+ * Get the names of the versions an operation is served in
+ *
+ * @param range - The operation's `versions` (all versions when undefined)
+ * @param versioning - The resolved versioning options
+ * @returns The version names, in release order
+ */
+export function getVersionNames(
+  range: VersionRange | undefined,
+  versioning: ResolvedVersioning
+): string[] {
+  const names = versioning.versions.map((version) => version.name);
+  if (range === undefined) return names;
+  if (typeof range === 'string' || Array.isArray(range)) {
+    const listed = typeof range === 'string' ? [range] : (range as readonly string[]);
+    for (const name of listed) findVersion(versioning.versions, name);
+    return names.filter((name) => listed.includes(name));
+  }
+
+  const { from, until } = range as { from?: string; until?: string };
+  const start = from === undefined ? 0 : names.indexOf(findVersion(versioning.versions, from).name);
+  const end =
+    until === undefined
+      ? names.length - 1
+      : names.indexOf(findVersion(versioning.versions, until).name);
+  return names.slice(start, end + 1);
+}
+
+/**
+ * Select the operations of a contract that are served in an API version
+ *
+ * @param contract - The contract definition
+ * @param versioning - The resolved versioning options
+ * @param version - The version name
+ * @returns The operations served in the version, keyed as in the contract
+ */
+export function selectVersionOperations<T extends Record<string, ContractOperation>>(
+  contract: T,
+  versioning: ResolvedVersioning,
+  version: string
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(contract).filter(([key, operation]) => {
+      try {
+        return getVersionNames(operation.versions, versioning).includes(version);
+      } catch (error) {
+        throw new Error(`Operation "${key}": ${(error as Error).message}`);
+      }
+    })
+  ) as Partial<T>;
+}
+
+/**
+ * Resolve the API version a request asks for, trying each strategy in order
+ *
+ * The `path` strategy strips the version prefix from the returned pathname. Requests that select
+ * no version get the default version; an unknown version in the header or media type is
+ * rejected with 400.
+ *
+ * @param request - The incoming request
+ * @param pathname - The request pathname (without the router base)
+ * @param versioning - The resolved versioning options
+ * @returns The selected version and the pathname to match operations against
+ */
+export function resolveRequestVersion(
+  request: IRequest,
+  pathname: string,
+  versioning: ResolvedVersioning
+): { version: ApiVersion; pathname: string } {
+  for (const strategy of versioning.strategies) {
+    if (strategy === 'path') {
+      const [, prefix, rest = ''] = /^\/([^/]+)(\/.*)?$/.exec(pathname) ?? [];
+      const version = versioning.versions.find((candidate) => candidate.name === prefix);
+      if (version) return { version, pathname: rest || '/' };
+      continue;
+    }
+
+    const name =
+      strategy === 'header'
+        ? request.headers.get(versioning.header)?.trim()
+        : getMediaTypeParameter(request.headers.get('accept'), versioning.parameter);
+    if (!name) continue;
+
+    const version = versioning.versions.find((candidate) => candidate.name === name);
+    if (!version) {
+      throw new StatusError(400, `Unsupported API version "${name}"`);
+    }
+    return { version, pathname };
+  }
+  return { version: versioning.default, pathname };
+}
+
+/**
+ * Build the lifecycle headers of a version - `Deprecation` and `Sunset`
+ *
+ * @param version - The API version
+ * @returns The headers to add to responses (empty for current versions)
+ */
+export function createVersionHeaders(version: ApiVersion): Record<string, string> {
+  return createDeprecationHeaders(version, `API version "${version.name}"`);
+}
+
+/**
+ * Find a declared version by name
+ */
+function findVersion(versions: ApiVersion[], name: string): ApiVersion {
+  const version = versions.find((candidate) => candidate.name === name);
+  if (!version) throw new Error(`Unknown API version "${name}"`);
+  return version;
+}
+
+/**
+ * Read a parameter of the media ranges of an Accept header (the first range declaring it wins)
+ */
+function getMediaTypeParameter(accept: string | null, parameter: string): string | undefined {
+  if (!accept) return undefined;
+  for (const range of accept.split(',')) {
+    for (const param of range.split(';').slice(1)) {
+      const [key, value] = param.split('=');
+      if (key?.trim().toLowerCase() === parameter && value) {
+        return value.trim().replace(/^"(.*)"$/, '$1');
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,219 @@
+import type { IRequest } from 'itty-router';
+import { StatusError } from 'itty-router';
+import type {
+  ContractAugmentedRequest,
+  WebhookDefinitions,
+  WebhookSender,
+  WebhookSenderOptions,
+  WebhookVerificationOptions,
+} from './types';
+import { validateSchema } from './utils';
+
+/**
+ * Header carrying webhook signatures unless configured otherwise
+ */
+const DEFAULT_SIGNATURE_HEADER = 'webhook-signature';
+
+const encoder = new TextEncoder();
+
+/**
+ * Define webhooks with full type inference
+ *
+ * Returns the definitions as-is. Pass them to `createWebhookSender` (to send typed, signed
+ * deliveries) and to `createOpenApiSpecification` (to emit the document's `webhooks`).
+ *
+ * @param webhooks - Webhook definitions keyed by webhook name
+ * @returns The same webhook definitions
+ *
+ * @example
+ * ```typescript
+ * const webhooks = defineWebhooks({
+ *   userCreated: {
+ *     summary: 'A user signed up',
+ *     body: z.object({ id: z.string(), email: z.string().email() }),
+ *   },
+ * });
+ * ```
+ */
+export function defineWebhooks<const TWebhooks extends WebhookDefinitions>(
+  webhooks: TWebhooks
+): TWebhooks {
+  return webhooks;
+}
+
+/**
+ * Sign a webhook payload
+ *
+ * The signature is an HMAC-SHA256 of `<timestamp>.<payload>`, formatted as
+ * `t=<timestamp>,v1=<hex digest>`.
+ *
+ * @param payload - The payload as sent
+ * @param secret - The signing secret
+ * @param timestamp - Unix time in seconds (defaults to now)
+ * @returns The signature header value
+ */
+export async function signWebhookPayload(
+  payload: string | Uint8Array,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${await computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Verify the signature of a webhook payload
+ *
+ * Accepts the signature when its timestamp is within `tolerance` seconds of now and one of its
+ * `v1` digests matches one of the secrets.
+ *
+ * @param payload - The payload as received
+ * @param signature - The signature header value
+ * @param secret - The secret, or several during a secret rotation
+ * @param tolerance - Maximum age of the signature in seconds (defaults to 300)
+ * @returns Whether the signature is valid
+ */
+export async function verifyWebhookSignature(
+  payload: string | Uint8Array,
+  signature: string | null,
+  secret: string | readonly string[],
+  tolerance: number = 300
+): Promise<boolean> {
+  if (!signature) return false;
+
+  let timestamp = NaN;
+  const digests: string[] = [];
+  for (const part of signature.split(',')) {
+    const [key, value = ''] = part.trim().split('=');
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1') digests.push(value);
+  }
+  if (!Number.isInteger(timestamp) || digests.length === 0) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > tolerance) return false;
+
+  for (const candidate of typeof secret === 'string' ? [secret] : secret) {
+    const expected = await computeSignature(payload, candidate, timestamp);
+    if (digests.some((digest) => timingSafeEqual(digest, expected))) return true;
+  }
+  return false;
+}
+
+/**
+ * Creates a typed webhook sender
+ *
+ * Each method validates the payload against the webhook's body schema (throwing an error with
+ * `issues` when it is invalid), serializes it as JSON, signs it (see signWebhookPayload) and
+ * delivers it to the given URL.
+ *
+ * @param webhooks - The webhook definitions
+ * @param options - Signing secret, signature header, fetch implementation and default headers
+ * @returns A sender with one method per webhook
+ *
+ * @example
+ * ```typescript
+ * const sender = createWebhookSender(webhooks, { secret: env.WEBHOOK_SECRET });
+ * await sender.userCreated('https://example.com/hooks', { id: '42', email: 'ada@example.com' });
+ * ```
+ */
+export function createWebhookSender<TWebhooks extends WebhookDefinitions>(
+  webhooks: TWebhooks,
+  options: WebhookSenderOptions
+): WebhookSender<TWebhooks> {
+  const doFetch = options.fetch || ((request: Request) => fetch(request));
+  const header = options.header ?? DEFAULT_SIGNATURE_HEADER;
+
+  const sender: Record<string, unknown> = {};
+  for (const [name, webhook] of Object.entries(webhooks)) {
+    sender[name] = async (url: string, payload: unknown, init: { headers?: HeadersInit } = {}) => {
+      const body = JSON.stringify(await validateSchema(webhook.body, payload));
+      const headers = new Headers(options.headers);
+      new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+      headers.set('content-type', 'application/json');
+      headers.set(header, await signWebhookPayload(body, options.secret));
+      return doFetch(new Request(url, { method: webhook.method ?? 'POST', headers, body }));
+    };
+  }
+  return sender as WebhookSender<TWebhooks>;
+}
+
+/**
+ * Middleware factory: Verifies the signature of incoming webhook deliveries
+ *
+ * Use it as per-operation middleware of the operations receiving webhooks (or in the router's
+ * `before` array). The signature is checked against the body bytes read during validation, as
+ * received (byte order marks and invalid UTF-8 included), so verification works for any body,
+ * multipart included; requests without a valid signature are rejected with 401.
+ *
+ * @param options - Secret(s), signature header and tolerance
+ * @returns A middleware function rejecting unsigned or tampered requests
+ *
+ * @example
+ * ```typescript
+ * const router = createRouter({
+ *   contract,
+ *   handlers: {
+ *     receiveUserCreated: {
+ *       middleware: [withWebhookVerification({ secret: env.WEBHOOK_SECRET })],
+ *       handler: async (request) => request.respond({ status: 204, contentType: 'application/json', body: undefined }),
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function withWebhookVerification(
+  options: WebhookVerificationOptions
+): (request: IRequest) => Promise<void> {
+  const header = options.header ?? DEFAULT_SIGNATURE_HEADER;
+  if (options.secret.length === 0) {
+    throw new Error('withWebhookVerification requires a secret');
+  }
+
+  return async (request: IRequest) => {
+    const payload =
+      (request as ContractAugmentedRequest).__rawBody ??
+      (request.bodyUsed ? undefined : new Uint8Array(await request.clone().arrayBuffer()));
+    const valid =
+      payload !== undefined &&
+      (await verifyWebhookSignature(
+        payload,
+        request.headers.get(header),
+        options.secret,
+        options.tolerance
+      ));
+    if (!valid) throw new StatusError(401, 'Invalid webhook signature');
+  };
+}
+
+/**
+ * Compute the hex HMAC-SHA256 digest of `<timestamp>.<payload>`
+ */
+async function computeSignature(
+  payload: string | Uint8Array,
+  secret: string,
+  timestamp: number
+): Promise<string> {
+  const prefix = encoder.encode(`${timestamp}.`);
+  const body = typeof payload === 'string' ? encoder.encode(payload) : payload;
+  const content = new Uint8Array(prefix.byteLength + body.byteLength);
+  content.set(prefix);
+  content.set(body, prefix.byteLength);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, content));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two strings in constant time (for equal lengths)
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+}
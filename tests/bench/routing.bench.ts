@@ -0,0 +1,69 @@
+import { bench, describe } from 'vitest';
+import { RouteMatcher } from '../../src/matcher.js';
+import { createRouter } from '../../src/router.js';
+import type { ContractOperation, HandlersForContract, HttpMethod } from '../../src/types.js';
+import { z } from 'zod';
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE'];
+
+/**
+ * A contract with 300 operations spread over 75 resources
+ */
+const contract: Record<string, ContractOperation> = {};
+for (let i = 0; i < 75; i++) {
+  for (const method of METHODS) {
+    const path = method === 'POST' ? `/resources-${i}/items` : `/resources-${i}/items/:id`;
+    contract[`${method.toLowerCase()}Resource${i}`] = {
+      path,
+      method,
+      responses: { 200: { 'application/json': { body: z.void() } } },
+    };
+  }
+}
+
+const operations = Object.values(contract);
+const matcher = new RouteMatcher<ContractOperation>();
+for (const operation of operations) matcher.add(operation.method, operation.path, operation);
+
+const paths = ['/resources-0/items/1', '/resources-37/items/abc', '/resources-74/items/99'];
+
+/**
+ * The segment-by-segment comparison operations were resolved with before the route matcher
+ */
+function matchesPathPattern(pattern: string, pathname: string): boolean {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = pathname.split('/').filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) return false;
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    if (patternSegments[i].startsWith(':')) continue;
+    if (patternSegments[i] !== pathSegments[i]) return false;
+  }
+  return true;
+}
+
+describe('resolve an operation in a 300-operation contract', () => {
+  bench('linear scan', () => {
+    for (const path of paths) {
+      operations.find(
+        (operation) => operation.method === 'DELETE' && matchesPathPattern(operation.path, path)
+      );
+    }
+  });
+
+  bench('route matcher', () => {
+    for (const path of paths) matcher.match('DELETE', path);
+  });
+});
+
+const handlers: HandlersForContract<typeof contract> = Object.fromEntries(
+  Object.keys(contract).map((key) => [key, async () => new Response('ok')])
+);
+const router = createRouter({ contract, handlers });
+const request = () => new Request('http://localhost/resources-74/items/99', { method: 'DELETE' });
+
+describe('route a request through createRouter', () => {
+  bench('router.fetch', async () => {
+    await router.fetch(request());
+  });
+});
@@ -15,8 +15,28 @@ import type {
   ResponseVariant,
   RawQuery,
   TypedHeaders,
+  ClientRequestOptions,
+  ClientResponse,
+  OperationMiddlewareContext,
+  ContractOperationAuth,
+  ContractOperationCookies,
+  RespondOptions,
+  ServerSentEvent,
+  StreamBody,
 } from '../../src/types.js';
 import { StandardSchemaV1 } from '@standard-schema/spec';
+import * as v from 'valibot';
+import {
+  createContract,
+  mergeContracts,
+  omitOperations,
+  pickOperations,
+  prefixContract,
+} from '../../src/contract.js';
+import { defineSecuritySchemes } from '../../src/security.js';
+import { createTestClient } from '../../src/testing.js';
+import { createRouter } from '../../src/router.js';
+import { createWebhookSender, defineWebhooks } from '../../src/webhooks.js';
 
 test('EmptyObject should be assignable to Record<string, never>', () => {
   expectTypeOf<EmptyObject>().toEqualTypeOf<Record<string, never>>();
@@ -42,6 +62,20 @@ test('ExtractPathParams should handle root path', () => {
   expectTypeOf<Params>().toEqualTypeOf<EmptyObject>();
 });
 
+test('ExtractPathParams should support optional, constrained and rest params', () => {
+  expectTypeOf<ExtractPathParams<'/users/:id(\\d+)'>>().toEqualTypeOf<{ id: string }>();
+  expectTypeOf<ExtractPathParams<'/v:version/items/:id?'>>().toEqualTypeOf<{
+    version: string;
+    id?: string;
+  }>();
+  expectTypeOf<ExtractPathParams<'/assets/:name.:ext'>>().toEqualTypeOf<{
+    name: string;
+    ext: string;
+  }>();
+  expectTypeOf<ExtractPathParams<'/blobs/:path+'>>().toEqualTypeOf<{ path: string }>();
+  expectTypeOf<ExtractPathParams<'/files/*'>>().toEqualTypeOf<EmptyObject>();
+});
+
 test('ContractOperation should accept valid operation structure', () => {
   type Op = ContractOperation<
     undefined,
@@ -449,3 +483,284 @@ test('ContractOperation should accept explicit method', () => {
   };
   expectTypeOf(op.method).toEqualTypeOf<'POST'>();
 });
+
+test('ClientRequestOptions should require path params extracted from a literal path', () => {
+  type Op = ContractOperation<
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    { 200: { 'application/json': { body: StandardSchemaV1 } } },
+    '/users/:id'
+  >;
+  type Options = ClientRequestOptions<Op>;
+  expectTypeOf<Options['pathParams']>().toEqualTypeOf<{ id: string }>();
+  expectTypeOf<Options['body']>().toEqualTypeOf<undefined>();
+});
+
+test('ClientRequestOptions should type query and body from schemas', () => {
+  const contract = createContract({
+    createUser: {
+      path: '/users',
+      method: 'POST',
+      query: v.object({ page: v.string() }),
+      requests: { 'application/json': { body: v.object({ name: v.string() }) } },
+      responses: { 200: { 'application/json': { body: v.object({}) } } },
+    },
+  });
+  type Options = ClientRequestOptions<typeof contract.createUser>;
+  expectTypeOf<Options['query']>().toEqualTypeOf<{ page: string }>();
+  expectTypeOf<Options['body']>().toEqualTypeOf<{ name: string }>();
+  expectTypeOf<Options['contentType']>().toEqualTypeOf<'application/json' | undefined>();
+});
+
+test('ClientResponse should be a discriminated union of declared responses', () => {
+  const contract = createContract({
+    getUser: {
+      path: '/users/:id',
+      method: 'GET',
+      responses: {
+        200: { 'application/json': { body: v.object({ success: v.boolean() }) } },
+        404: { 'application/json': { body: v.object({ error: v.string() }) } },
+      },
+    },
+  });
+  type Response = ClientResponse<typeof contract.getUser>;
+  expectTypeOf<Extract<Response, { status: 200 }>['body']>().toEqualTypeOf<{ success: boolean }>();
+  expectTypeOf<Extract<Response, { status: 404 }>['body']>().toEqualTypeOf<{ error: string }>();
+  expectTypeOf<Response['headers']>().toEqualTypeOf<Headers>();
+});
+
+test('ContractRequest should type preferredContentType as the declared response content types', () => {
+  type Op = ContractOperation<
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    {
+      200: {
+        'application/json': { body: StandardSchemaV1 };
+        'text/html': { body: StandardSchemaV1 };
+      };
+      400: { 'application/problem+json': { body: StandardSchemaV1 } };
+    }
+  > & { method: 'GET' };
+  type Request = ContractRequest<Op>;
+  expectTypeOf<Request['preferredContentType']>().toEqualTypeOf<
+    'application/json' | 'text/html' | 'application/problem+json'
+  >();
+});
+
+test('OperationMiddlewareContext should intersect the fields returned by each middleware', () => {
+  const requireUser = (request: { url: string }) =>
+    request.url ? { user: { id: 'u1' } } : { status: 401 as const, body: { error: 'nope' } };
+  const flags = async () => ({ beta: true });
+  const log = () => {};
+  type Context = OperationMiddlewareContext<[typeof requireUser, typeof flags, typeof log]>;
+  expectTypeOf<Context>().toEqualTypeOf<{ user: { id: string } } & { beta: boolean } & unknown>();
+  expectTypeOf<OperationMiddlewareContext<[]>>().toEqualTypeOf<unknown>();
+});
+
+test('ContractOperationAuth should type the principal from the referenced security schemes', () => {
+  const schemes = defineSecuritySchemes({
+    bearerAuth: {
+      type: 'http',
+      scheme: 'bearer',
+      verify: async (token: string) => (token ? { userId: token } : null),
+    },
+  });
+  const contract = createContract({
+    getMe: {
+      path: '/me',
+      method: 'GET',
+      security: [{ bearerAuth: [] }],
+      responses: { 200: { 'application/json': { body: v.object({ id: v.string() }) } } },
+    },
+    getFeed: {
+      path: '/feed',
+      method: 'GET',
+      security: [{ bearerAuth: [] }, {}],
+      responses: { 200: { 'application/json': { body: v.object({ id: v.string() }) } } },
+    },
+    health: {
+      path: '/health',
+      method: 'GET',
+      responses: { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } },
+    },
+  });
+
+  expectTypeOf<ContractOperationAuth<typeof contract.getMe, typeof schemes>>().toEqualTypeOf<{
+    auth: { userId: string };
+  }>();
+  expectTypeOf<ContractOperationAuth<typeof contract.getFeed, typeof schemes>>().toEqualTypeOf<{
+    auth?: { userId: string };
+  }>();
+  expectTypeOf<
+    ContractOperationAuth<typeof contract.health, typeof schemes>
+  >().toEqualTypeOf<unknown>();
+});
+
+test('ContractOperationCookies and RespondOptions should type request and response cookies', () => {
+  const contract = createContract({
+    login: {
+      path: '/login',
+      method: 'POST',
+      cookies: v.object({ theme: v.optional(v.string()) }),
+      responses: {
+        200: {
+          'application/json': {
+            body: v.object({ ok: v.boolean() }),
+            cookies: v.object({ session: v.string(), theme: v.optional(v.string()) }),
+          },
+        },
+        204: { 'application/json': { body: v.never() } },
+      },
+    },
+    health: {
+      path: '/health',
+      method: 'GET',
+      responses: { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } },
+    },
+  });
+
+  expectTypeOf<ContractOperationCookies<typeof contract.login>>().toEqualTypeOf<{
+    theme?: string | undefined;
+  }>();
+  expectTypeOf<ContractOperationCookies<typeof contract.health>>().toEqualTypeOf<
+    Record<string, string>
+  >();
+
+  type LoginCookies = RespondOptions<typeof contract.login, 200, 'application/json'>['setCookie'];
+  expectTypeOf<{ session: 's'; theme: { value: 'dark'; httpOnly: true } }>().toExtend<
+    NonNullable<LoginCookies>
+  >();
+  expectTypeOf<{ theme: 'dark' }>().not.toExtend<NonNullable<LoginCookies>>();
+  expectTypeOf<
+    RespondOptions<typeof contract.login, 204, 'application/json'>['setCookie']
+  >().toEqualTypeOf<undefined>();
+});
+
+test('createTestClient should type inputs and narrow responses with expectStatus', async () => {
+  const contract = createContract({
+    getUser: {
+      path: '/users/:id',
+      method: 'GET',
+      responses: {
+        200: { 'application/json': { body: v.object({ name: v.string() }) } },
+        404: { 'application/json': { body: v.object({ error: v.string() }) } },
+      },
+    },
+  });
+  const client = createTestClient(createRouter({ contract, handlers: {} }), contract);
+
+  const response = await client.getUser({ pathParams: { id: '1' } });
+  expectTypeOf(response.expectStatus(200).body).toEqualTypeOf<{ name: string }>();
+  expectTypeOf(response.expectStatus(404).body).toEqualTypeOf<{ error: string }>();
+  // @ts-expect-error - 500 is not a declared status
+  response.expectStatus(500);
+});
+
+test('streamed responses should take async iterables of items and be received as iterables', () => {
+  const contract = createContract({
+    events: {
+      path: '/events',
+      method: 'GET',
+      responses: {
+        200: {
+          'text/event-stream': { body: v.object({ n: v.number() }), stream: true },
+          'application/x-ndjson': { body: v.object({ n: v.number() }), stream: true },
+        },
+      },
+    },
+  });
+
+  expectTypeOf<
+    ContractOperationResponseBody<typeof contract.events, 200, 'text/event-stream'>
+  >().toEqualTypeOf<StreamBody<ServerSentEvent<{ n: number }>>>();
+  expectTypeOf<
+    ContractOperationResponseBody<typeof contract.events, 200, 'application/x-ndjson'>
+  >().toEqualTypeOf<StreamBody<{ n: number }>>();
+  expectTypeOf<ClientResponse<typeof contract.events>['body']>().toEqualTypeOf<
+    AsyncIterable<ServerSentEvent<{ n: number }>> | AsyncIterable<{ n: number }>
+  >();
+});
+
+test('contract composition helpers should keep operation types', () => {
+  const users = createContract({
+    getUser: {
+      path: '/users/:id',
+      method: 'GET',
+      responses: { 200: { 'application/json': { body: v.object({ name: v.string() }) } } },
+    },
+  });
+  const products = createContract({
+    getProducts: {
+      path: '/products',
+      method: 'GET',
+      query: v.object({ page: v.number() }),
+      responses: { 200: { 'application/json': { body: v.array(v.string()) } } },
+    },
+  });
+
+  const contract = mergeContracts(prefixContract('/v1', users), products);
+  expectTypeOf<keyof typeof contract>().toEqualTypeOf<'getUser' | 'getProducts'>();
+  expectTypeOf(contract.getUser.path).toEqualTypeOf<`/v1${string}`>();
+  expectTypeOf<ContractOperationQuery<typeof contract.getProducts>>().toEqualTypeOf<{
+    page: number;
+  }>();
+  expectTypeOf<
+    ContractOperationResponseBody<typeof contract.getUser, 200, 'application/json'>
+  >().toEqualTypeOf<{ name: string }>();
+
+  expectTypeOf<
+    keyof ReturnType<typeof pickOperations<typeof contract, 'getUser'>>
+  >().toEqualTypeOf<'getUser'>();
+  expectTypeOf<
+    keyof ReturnType<typeof omitOperations<typeof contract, 'getUser'>>
+  >().toEqualTypeOf<'getProducts'>();
+});
+
+test('operations should accept version ranges, deprecations and OpenAPI metadata', () => {
+  const contract = createContract({
+    getUser: {
+      path: '/users/:id',
+      method: 'GET',
+      versions: { from: 'v2' },
+      deprecated: { sunset: '2026-01-01', replacement: 'getAccount' },
+      deprecatedParams: { headers: ['x-api-token'] },
+      extensions: { 'x-internal': true },
+      responses: {
+        200: {
+          'application/json': {
+            body: v.object({ name: v.string() }),
+            description: 'The user',
+            examples: { ada: { value: { name: 'Ada' } } },
+          },
+        },
+      },
+    },
+  });
+  expectTypeOf(contract.getUser.versions).toEqualTypeOf<{ from: string }>();
+
+  createContract({
+    getUser: {
+      path: '/users/:id',
+      method: 'GET',
+      // @ts-expect-error - versions are names, lists or ranges
+      versions: 2,
+      responses: { 200: { 'application/json': { body: v.object({ name: v.string() }) } } },
+    },
+  });
+});
+
+test('webhook senders should type payloads by webhook', () => {
+  const webhooks = defineWebhooks({
+    userCreated: { body: v.object({ id: v.string() }) },
+  });
+  const sender = createWebhookSender(webhooks, { secret: 'secret' });
+
+  expectTypeOf(sender).toHaveProperty('userCreated');
+  expectTypeOf(sender.userCreated).parameter(1).toEqualTypeOf<{ id: string }>();
+  // @ts-expect-error - payloads must match the webhook's schema
+  void sender.userCreated('https://example.com/hooks', { id: 42 });
+});
@@ -0,0 +1,127 @@
+import { test, expect, describe } from 'vitest';
+import { createContract } from '../../src/contract.js';
+import { createRouter } from '../../src/router.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import * as v from 'valibot';
+
+const Note = v.object({ text: v.string() });
+
+const contract = createContract({
+  createNote: {
+    path: '/notes',
+    method: 'POST',
+    requests: { 'application/json': { body: Note } },
+    responses: { 201: { 'application/json': { body: Note } } },
+  },
+  uploadAttachment: {
+    path: '/attachments',
+    method: 'POST',
+    maxBodySize: 1024,
+    requests: { 'multipart/form-data': { body: v.object({ name: v.string() }) } },
+    responses: { 201: { 'application/json': { body: v.object({ name: v.string() }) } } },
+  },
+});
+
+const router = createRouter({
+  contract,
+  maxBodySize: 32,
+  handlers: {
+    createNote: async (request) =>
+      request.respond({
+        status: 201,
+        contentType: 'application/json',
+        body: request.validatedBody,
+      }),
+    uploadAttachment: async (request) =>
+      request.respond({
+        status: 201,
+        contentType: 'application/json',
+        body: { name: request.validatedBody.name },
+      }),
+  },
+});
+
+const post = (path: string, body: BodyInit, headers: Record<string, string> = {}) =>
+  router.fetch(
+    new Request(`http://localhost${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body,
+      duplex: 'half',
+    } as RequestInit)
+  );
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+      controller.close();
+    },
+  });
+
+describe('maxBodySize', () => {
+  test('should accept bodies within the limit', async () => {
+    const response = await post('/notes', streamOf('{"text":', '"hello"}'));
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ text: 'hello' });
+  });
+
+  test('should reject bodies announcing a larger Content-Length with 413', async () => {
+    const response = await post('/notes', '{"text":"hello"}', { 'content-length': '64' });
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({
+      error: 'Request body exceeds the limit of 32 bytes',
+    });
+  });
+
+  test('should reject streamed bodies exceeding the limit with 413', async () => {
+    const response = await post('/notes', streamOf('{"text":"', 'x'.repeat(40), '"}'));
+    expect(response.status).toBe(413);
+  });
+
+  test('should apply the limit of the operation over the limit of the router', async () => {
+    const form = new FormData();
+    form.set('name', 'x'.repeat(100));
+    const response = await router.fetch(
+      new Request('http://localhost/attachments', { method: 'POST', body: form })
+    );
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ name: 'x'.repeat(100) });
+
+    form.set('name', 'x'.repeat(2048));
+    const tooLarge = await router.fetch(
+      new Request('http://localhost/attachments', { method: 'POST', body: form })
+    );
+    expect(tooLarge.status).toBe(413);
+  });
+
+  test('should reject malformed JSON bodies with 400', async () => {
+    const response = await post('/notes', '{"text":');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Malformed request body' });
+  });
+
+  test('should reject invalid limits', () => {
+    expect(() => createRouter({ contract, maxBodySize: -1, handlers: {} })).toThrow(
+      'maxBodySize must be a non-negative integer'
+    );
+  });
+
+  test('should document the limit in OpenAPI', async () => {
+    const document = await createOpenApiSpecification(contract, {
+      title: 'Notes',
+      maxBodySize: 32,
+      errors: 'problem+json',
+    });
+
+    const createNote = document.paths!['/notes']!.post!;
+    expect(createNote.requestBody).toMatchObject({ 'x-max-body-size': 32 });
+    expect(Object.keys(createNote.responses!)).toEqual(['201', '400', '413', '415', '500']);
+    expect(document.paths!['/attachments']!.post!.requestBody).toMatchObject({
+      'x-max-body-size': 1024,
+    });
+
+    const unlimited = await createOpenApiSpecification(contract, { title: 'Notes' });
+    expect(unlimited.paths!['/notes']!.post!.requestBody).not.toHaveProperty('x-max-body-size');
+  });
+});
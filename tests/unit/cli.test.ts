@@ -0,0 +1,186 @@
+import { test, expect, describe } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from '../../src/cli.js';
+import { lintOpenApiSpecification } from '../../src/openapi/index.js';
+import { stringifyYaml } from '../../src/openapi/yaml.js';
+import type { OpenAPIV3_1 } from 'openapi-types';
+
+const contractModule = join(import.meta.dirname, '../../examples/valibot/contract.ts');
+
+/**
+ * Run the CLI in a temporary directory, collecting its output
+ */
+async function withCli(
+  fn: (
+    run: (...args: string[]) => Promise<number>,
+    dir: string,
+    messages: string[]
+  ) => Promise<void>
+) {
+  const dir = await mkdtemp(join(tmpdir(), 'itty-spec-'));
+  const messages: string[] = [];
+  const output = {
+    stdout: (text: string) => messages.push(text),
+    stderr: (text: string) => messages.push(text),
+  };
+  try {
+    await fn((...args) => runCli(args, output), dir, messages);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('stringifyYaml', () => {
+  test('should write block collections and quote ambiguous strings', () => {
+    expect(
+      stringifyYaml({
+        openapi: '3.1.1',
+        info: { title: 'Test API', version: '1.0.0', description: undefined },
+        paths: { '/users/{id}': { get: { tags: ['users'], responses: { 200: {} } } } },
+        servers: [{ url: 'https://example.com', variables: [] }],
+        required: true,
+        flag: 'yes',
+      })
+    ).toBe(
+      [
+        'openapi: "3.1.1"',
+        'info:',
+        '  title: Test API',
+        '  version: "1.0.0"',
+        'paths:',
+        '  "/users/{id}":',
+        '    get:',
+        '      tags:',
+        '        - users',
+        '      responses:',
+        '        "200": {}',
+        'servers:',
+        '  - url: "https://example.com"',
+        '    variables: []',
+        'required: true',
+        'flag: "yes"',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('lintOpenApiSpecification', () => {
+  test('should report errors before warnings', () => {
+    const document = {
+      openapi: '3.1.1',
+      info: { title: 'Test', version: '1.0.0' },
+      tags: [{ name: 'users' }],
+      paths: {
+        '/users': {
+          get: {
+            operationId: 'getUsers',
+            summary: 'List users',
+            tags: ['users'],
+            responses: { 200: { description: 'OK' } },
+          },
+          post: {
+            operationId: 'getUsers',
+            tags: ['accounts'],
+            security: [{ bearerAuth: [] }],
+            responses: { 400: { description: 'Bad Request' } },
+          },
+        },
+      },
+    } as unknown as OpenAPIV3_1.Document;
+
+    expect(
+      lintOpenApiSpecification(document).map(({ severity, rule }) => `${severity} ${rule}`)
+    ).toEqual([
+      'error operation-success-response',
+      'error operation-id-unique',
+      'error security-scheme-defined',
+      'warning operation-summary',
+      'warning tag-defined',
+    ]);
+  });
+});
+
+describe('itty-spec openapi', () => {
+  test('should write the document as JSON or YAML', async () => {
+    await withCli(async (run, dir) => {
+      expect(
+        await run('openapi', contractModule, '--title', 'Calc', '--out', join(dir, 'a.json'))
+      ).toBe(0);
+      const document = JSON.parse(await readFile(join(dir, 'a.json'), 'utf8'));
+      expect(document.info).toMatchObject({ title: 'Calc', version: '0.0.0' });
+      expect(Object.keys(document.paths).length).toBeGreaterThan(0);
+
+      await writeFile(
+        join(dir, 'config.json'),
+        JSON.stringify({ title: 'Config', version: '2.0.0' })
+      );
+      expect(
+        await run(
+          'openapi',
+          contractModule,
+          '--config',
+          join(dir, 'config.json'),
+          '--out',
+          join(dir, 'a.yaml')
+        )
+      ).toBe(0);
+      const yaml = await readFile(join(dir, 'a.yaml'), 'utf8');
+      expect(yaml).toContain('  title: Config\n  version: "2.0.0"\n');
+    });
+  });
+
+  test('should fail without a title or a contract export', async () => {
+    await withCli(async (run, _dir, messages) => {
+      expect(await run('openapi', contractModule)).toBe(1);
+      expect(messages.pop()).toContain('Missing --title');
+
+      expect(await run('openapi', contractModule, '--title', 'Calc', '--export', 'missing')).toBe(
+        1
+      );
+      expect(messages.pop()).toContain('does not export a contract named "missing"');
+    });
+  });
+});
+
+describe('itty-spec check', () => {
+  test('should fail when the committed document is missing or out of date', async () => {
+    await withCli(async (run, dir, messages) => {
+      const out = join(dir, 'openapi.json');
+      expect(await run('check', contractModule, '--title', 'Calc', '--out', out)).toBe(1);
+      expect(messages.pop()).toContain('does not exist');
+
+      await run('openapi', contractModule, '--title', 'Calc', '--out', out);
+      expect(await run('check', contractModule, '--title', 'Calc', '--out', out)).toBe(0);
+      expect(await run('check', contractModule, '--title', 'Renamed', '--out', out)).toBe(1);
+      expect(messages.pop()).toContain('is out of date');
+    });
+  });
+});
+
+describe('itty-spec lint', () => {
+  test('should print issues and fail on errors, or warnings in strict mode', async () => {
+    await withCli(async (run, dir, messages) => {
+      const module = join(dir, 'contract.mjs');
+      await writeFile(
+        module,
+        `export const contract = { ping: { path: '/ping', method: 'GET', summary: 'Ping', responses: { 200: {} } } };`
+      );
+      expect(await run('lint', module, '--title', 'Ping')).toBe(0);
+      expect(messages.join('')).toContain(
+        'warning GET /ping  Operation has no tags  (operation-tags)'
+      );
+      expect(await run('lint', module, '--title', 'Ping', '--strict')).toBe(1);
+
+      const invalid = join(dir, 'invalid.mjs');
+      await writeFile(
+        invalid,
+        `export default { ping: { path: '/ping', method: 'GET', responses: {} } };`
+      );
+      expect(await run('lint', invalid, '--title', 'Ping')).toBe(1);
+      expect(messages.pop()).toBe('3 problem(s) (1 error(s), 2 warning(s))\n');
+    });
+  });
+});
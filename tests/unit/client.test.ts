@@ -0,0 +1,234 @@
+import { test, expect, describe } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createClient, buildRequestUrl } from '../../src/client.js';
+import * as v from 'valibot';
+
+const contract = createContract({
+  getUser: {
+    operationId: 'getUser',
+    path: '/users/:id',
+    method: 'GET',
+    responses: {
+      200: { 'application/json': { body: v.object({ id: v.string(), name: v.string() }) } },
+      404: { 'application/json': { body: v.object({ error: v.string() }) } },
+    },
+  },
+  listUsers: {
+    operationId: 'listUsers',
+    path: '/users',
+    method: 'GET',
+    query: v.object({ page: v.optional(v.string()), tag: v.optional(v.array(v.string())) }),
+    responses: {
+      200: { 'application/json': { body: v.object({ url: v.string() }) } },
+    },
+  },
+  createUser: {
+    operationId: 'createUser',
+    path: '/users',
+    method: 'POST',
+    headers: v.object({ 'x-api-key': v.string() }),
+    requests: { 'application/json': { body: v.object({ name: v.string() }) } },
+    responses: {
+      201: { 'application/json': { body: v.object({ id: v.string(), name: v.string() }) } },
+    },
+  },
+  deleteUser: {
+    operationId: 'deleteUser',
+    path: '/users/:id',
+    method: 'DELETE',
+    responses: {
+      204: { 'application/json': { body: v.never() } },
+    },
+  },
+  uploadAvatar: {
+    operationId: 'uploadAvatar',
+    path: '/avatars',
+    method: 'POST',
+    requests: {
+      'multipart/form-data': { body: v.object({ name: v.string(), file: v.file() }) },
+    },
+    responses: {
+      200: { 'application/json': { body: v.object({ name: v.string(), size: v.number() }) } },
+    },
+  },
+  getGreeting: {
+    operationId: 'getGreeting',
+    path: '/greeting',
+    method: 'GET',
+    responses: {
+      200: { 'text/plain': { body: v.string() } },
+    },
+  },
+});
+
+const router = createRouter({
+  contract,
+  handlers: {
+    getUser: async (request) => {
+      if (request.validatedParams.id === 'missing') {
+        return request.respond({
+          status: 404,
+          contentType: 'application/json',
+          body: { error: 'Not found' },
+        });
+      }
+      return request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { id: request.validatedParams.id, name: 'Alice' },
+      });
+    },
+    listUsers: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { url: request.url },
+      }),
+    createUser: async (request) =>
+      request.respond({
+        status: 201,
+        contentType: 'application/json',
+        body: {
+          id: request.validatedHeaders.get('x-api-key') ?? '',
+          name: request.validatedBody.name,
+        },
+      }),
+    deleteUser: async (request) =>
+      request.respond({ status: 204, contentType: 'application/json' }),
+    uploadAvatar: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { name: request.validatedBody.name, size: request.validatedBody.file.size },
+      }),
+    getGreeting: async (request) =>
+      request.respond({ status: 200, contentType: 'text/plain', body: 'hello' }),
+  },
+});
+
+const client = createClient(contract, {
+  baseUrl: 'http://localhost:3000',
+  fetch: (request) => router.fetch(request),
+});
+
+describe('createClient', () => {
+  test('should create a method for every operation', () => {
+    expect(Object.keys(client)).toEqual([
+      'getUser',
+      'listUsers',
+      'createUser',
+      'deleteUser',
+      'uploadAvatar',
+      'getGreeting',
+    ]);
+  });
+
+  test('should interpolate path params and parse JSON responses', async () => {
+    const result = await client.getUser({ pathParams: { id: '42' } });
+
+    expect(result.status).toBe(200);
+    if (result.status === 200) {
+      expect(result.body).toEqual({ id: '42', name: 'Alice' });
+    }
+    expect(result.headers.get('content-type')).toBe('application/json');
+  });
+
+  test('should return non-2xx responses as part of the union', async () => {
+    const result = await client.getUser({ pathParams: { id: 'missing' } });
+
+    expect(result.status).toBe(404);
+    if (result.status === 404) {
+      expect(result.body).toEqual({ error: 'Not found' });
+    }
+  });
+
+  test('should serialize query params including arrays', async () => {
+    const result = await client.listUsers({ query: { page: '2', tag: ['a', 'b'] } });
+
+    expect(result.body.url).toBe('http://localhost:3000/users?page=2&tag=a&tag=b');
+  });
+
+  test('should send JSON bodies and headers', async () => {
+    const result = await client.createUser({
+      headers: { 'x-api-key': 'key-1' },
+      body: { name: 'Bob' },
+    });
+
+    expect(result.status).toBe(201);
+    expect(result.body).toEqual({ id: 'key-1', name: 'Bob' });
+  });
+
+  test('should return undefined body for empty responses', async () => {
+    const result = await client.deleteUser({ pathParams: { id: '1' } });
+
+    expect(result.status).toBe(204);
+    expect(result.body).toBeUndefined();
+  });
+
+  test('should send multipart bodies as FormData', async () => {
+    const result = await client.uploadAvatar({
+      body: { name: 'me', file: new File(['12345'], 'me.png', { type: 'image/png' }) },
+    });
+
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual({ name: 'me', size: 5 });
+  });
+
+  test('should return text bodies as strings', async () => {
+    const result = await client.getGreeting();
+
+    expect(result.body).toBe('hello');
+  });
+
+  test('should merge default headers with per-call headers', async () => {
+    const seen: Request[] = [];
+    const recordingClient = createClient(contract, {
+      baseUrl: 'http://localhost:3000/',
+      headers: { 'x-api-key': 'default', 'x-trace': 'abc' },
+      fetch: async (request) => {
+        seen.push(request);
+        return router.fetch(request);
+      },
+    });
+
+    await recordingClient.createUser({ headers: { 'x-api-key': 'override' }, body: { name: 'C' } });
+
+    expect(seen[0].url).toBe('http://localhost:3000/users');
+    expect(seen[0].headers.get('x-api-key')).toBe('override');
+    expect(seen[0].headers.get('x-trace')).toBe('abc');
+    expect(seen[0].headers.get('content-type')).toBe('application/json');
+  });
+});
+
+describe('buildRequestUrl', () => {
+  test('should encode path params', () => {
+    expect(buildRequestUrl('http://api.test', '/files/:name', { name: 'a b/c' })).toBe(
+      'http://api.test/files/a%20b%2Fc'
+    );
+  });
+
+  test('should throw when a path param is missing', () => {
+    expect(() => buildRequestUrl('http://api.test', '/users/:id')).toThrow(
+      'Missing path parameter: id'
+    );
+  });
+
+  test('should leave out optional segments and keep slashes in rest params', () => {
+    expect(buildRequestUrl('http://api.test', '/v:version/items/:id(\\d+)?', { version: 2 })).toBe(
+      'http://api.test/v2/items'
+    );
+    expect(buildRequestUrl('http://api.test', '/items/:id?', { id: 7 })).toBe(
+      'http://api.test/items/7'
+    );
+    expect(buildRequestUrl('http://api.test', '/blobs/:path+', { path: 'a b/c.txt' })).toBe(
+      'http://api.test/blobs/a%20b/c.txt'
+    );
+  });
+
+  test('should skip undefined query values', () => {
+    expect(buildRequestUrl('http://api.test', '/users', {}, { a: undefined, b: 1 })).toBe(
+      'http://api.test/users?b=1'
+    );
+  });
+});
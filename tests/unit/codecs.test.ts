@@ -0,0 +1,141 @@
+import { test, expect, describe } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { jsonCodec, textCodec, matchesMediaType, resolveCodec } from '../../src/codecs.js';
+import type { CodecRegistry } from '../../src/types.js';
+import * as v from 'valibot';
+
+const ndjson: CodecRegistry = {
+  'application/x-ndjson': {
+    parse: (text) =>
+      text
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line)),
+    serialize: (items) => (items as unknown[]).map((item) => JSON.stringify(item)).join('\n'),
+  },
+};
+
+describe('matchesMediaType', () => {
+  test('should match exact media types case-insensitively and ignore parameters', () => {
+    expect(matchesMediaType('application/json', 'Application/JSON; charset=utf-8')).toBe(true);
+    expect(matchesMediaType('application/json', 'application/xml')).toBe(false);
+  });
+
+  test('should match wildcard patterns', () => {
+    expect(matchesMediaType('application/*+json', 'application/problem+json')).toBe(true);
+    expect(matchesMediaType('application/*+json', 'application/json')).toBe(false);
+    expect(matchesMediaType('text/*', 'text/csv')).toBe(true);
+    expect(matchesMediaType('*/*', 'image/png')).toBe(true);
+  });
+});
+
+describe('resolveCodec', () => {
+  test('should fall back to the built-in codecs', () => {
+    expect(resolveCodec(undefined, 'application/json')).toBe(jsonCodec);
+    expect(resolveCodec(undefined, 'application/vnd.api+json')).toBe(jsonCodec);
+    expect(resolveCodec(undefined, 'text/plain')).toBe(textCodec);
+    expect(resolveCodec(undefined, 'application/xml')).toBeUndefined();
+    expect(resolveCodec(undefined, null)).toBeUndefined();
+  });
+
+  test('should prefer registered codecs over built-in ones', () => {
+    const custom = { parse: (text: string) => text.toUpperCase() };
+    expect(resolveCodec({ 'application/json': custom }, 'application/json')).toBe(custom);
+  });
+
+  test('should prefer exact keys over wildcard keys', () => {
+    const wildcard = { parse: () => 'wildcard' };
+    const exact = { parse: () => 'exact' };
+    const codecs: CodecRegistry = { 'application/*': wildcard, 'application/yaml': exact };
+    expect(resolveCodec(codecs, 'application/yaml')).toBe(exact);
+    expect(resolveCodec(codecs, 'application/toml')).toBe(wildcard);
+  });
+});
+
+describe('createRouter codecs', () => {
+  const contract = createContract({
+    importItems: {
+      operationId: 'importItems',
+      path: '/items',
+      method: 'POST',
+      requests: {
+        'application/x-ndjson': { body: v.array(v.object({ id: v.number() })) },
+      },
+      responses: {
+        200: { 'application/x-ndjson': { body: v.array(v.object({ id: v.number() })) } },
+      },
+    },
+    uploadBytes: {
+      operationId: 'uploadBytes',
+      path: '/bytes',
+      method: 'POST',
+      requests: {
+        'application/octet-stream': { body: v.instance(Uint8Array) },
+      },
+      responses: {
+        200: { 'application/json': { body: v.object({ length: v.number() }) } },
+      },
+    },
+  });
+
+  const router = createRouter({
+    contract,
+    codecs: {
+      ...ndjson,
+      'application/octet-stream': { binary: true },
+    },
+    handlers: {
+      importItems: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/x-ndjson',
+          body: request.validatedBody.map((item) => ({ id: item.id * 10 })),
+        }),
+      uploadBytes: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { length: request.validatedBody.byteLength },
+        }),
+    },
+  });
+
+  test('should parse requests and serialize responses with the registered codec', async () => {
+    const response = await router.fetch(
+      new Request('http://localhost/items', {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-ndjson' },
+        body: '{"id":1}\n{"id":2}\n',
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('{"id":10}\n{"id":20}');
+  });
+
+  test('should validate the parsed body', async () => {
+    const response = await router.fetch(
+      new Request('http://localhost/items', {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-ndjson' },
+        body: '{"id":"one"}\n',
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  test('should pass raw bytes to binary codecs', async () => {
+    const response = await router.fetch(
+      new Request('http://localhost/bytes', {
+        method: 'POST',
+        headers: { 'content-type': 'application/octet-stream' },
+        body: new Uint8Array([1, 2, 3, 4]),
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ length: 4 });
+  });
+});
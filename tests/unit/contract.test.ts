@@ -0,0 +1,121 @@
+import { test, expect, describe } from 'vitest';
+import {
+  createContract,
+  mergeContracts,
+  omitOperations,
+  pickOperations,
+  prefixContract,
+  tagContract,
+} from '../../src/contract.js';
+import { createRouter } from '../../src/router.js';
+import * as v from 'valibot';
+
+const ok = { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } };
+
+const users = createContract({
+  getUsers: { path: '/users', method: 'GET', tags: ['Users'], responses: ok },
+  getUser: { path: '/users/:id', method: 'GET', responses: ok },
+});
+
+const products = createContract({
+  getProducts: { path: '/products', method: 'GET', responses: ok },
+});
+
+describe('mergeContracts', () => {
+  test('should merge the operations of every contract', () => {
+    const contract = mergeContracts(users, products);
+    expect(Object.keys(contract)).toEqual(['getUsers', 'getUser', 'getProducts']);
+    expect(contract.getProducts).toBe(products.getProducts);
+  });
+
+  test('should throw on duplicate keys, operationIds and routes', () => {
+    expect(() => mergeContracts(users, createContract({ getUser: products.getProducts }))).toThrow(
+      'Duplicate operation "getUser" in merged contracts'
+    );
+    expect(() =>
+      mergeContracts(
+        users,
+        createContract({ listProducts: { ...products.getProducts, operationId: 'getUsers' } })
+      )
+    ).toThrow('Duplicate operationId "getUsers" (operations "getUsers" and "listProducts")');
+    expect(() =>
+      mergeContracts(
+        users,
+        createContract({ findUser: { path: '/users/:userId', method: 'GET', responses: ok } })
+      )
+    ).toThrow('Operations "getUser" and "findUser" both match GET /users/:userId');
+    expect(() =>
+      mergeContracts(
+        users,
+        createContract({ deleteUser: { path: '/users/:id', method: 'DELETE', responses: ok } })
+      )
+    ).not.toThrow();
+  });
+
+  test('should throw on routes matching the same URLs through optional and rest segments', () => {
+    const merge = (path: string, contract: typeof users | typeof products = users) =>
+      mergeContracts(contract, createContract({ other: { path, method: 'GET', responses: ok } }));
+
+    expect(() => merge('/users/:id?')).toThrow(
+      'Operations "getUser" and "other" both match GET /users/:id?'
+    );
+    expect(() => merge('/products/:id?', products)).toThrow(
+      'Operations "getProducts" and "other" both match GET /products/:id?'
+    );
+    expect(() => merge('/users/:path+')).toThrow(
+      'Operations "getUser" and "other" both match GET /users/:path+'
+    );
+    expect(() => merge('/users/*')).toThrow('both match GET /users/*');
+    expect(() => merge('/users/:id/posts/:postId?')).not.toThrow();
+    expect(() => merge('/users/me')).not.toThrow();
+  });
+});
+
+describe('prefixContract', () => {
+  test('should prefix every path and route requests to it', async () => {
+    const contract = mergeContracts(prefixContract('/v1', users), products);
+    expect(contract.getUser.path).toBe('/v1/users/:id');
+
+    const router = createRouter({
+      contract,
+      handlers: {
+        getUsers: async (request) =>
+          request.respond({ status: 200, contentType: 'application/json', body: { ok: true } }),
+        getUser: async (request) =>
+          request.respond({
+            status: 200,
+            contentType: 'application/json',
+            body: { ok: request.params.id === '7' },
+          }),
+        getProducts: async (request) =>
+          request.respond({ status: 200, contentType: 'application/json', body: { ok: true } }),
+      },
+    });
+    const response = await router.fetch(new Request('http://localhost/v1/users/7'));
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  test('should reject malformed prefixes', () => {
+    expect(() => prefixContract('v1', users)).toThrow('must start with "/" and not end with "/"');
+    expect(() => prefixContract('/v1/', users)).toThrow('must start with "/" and not end with "/"');
+  });
+});
+
+describe('tagContract', () => {
+  test('should add tags and keep existing ones', () => {
+    const contract = tagContract(['Users', 'Admin'], users);
+    expect(contract.getUsers.tags).toEqual(['Users', 'Admin']);
+    expect(contract.getUser.tags).toEqual(['Users', 'Admin']);
+    expect(users.getUser).not.toHaveProperty('tags');
+  });
+});
+
+describe('pickOperations / omitOperations', () => {
+  test('should select operations by key', () => {
+    expect(Object.keys(pickOperations(users, ['getUser']))).toEqual(['getUser']);
+    expect(Object.keys(omitOperations(users, ['getUser']))).toEqual(['getUsers']);
+    expect(() => pickOperations(users, ['missing' as 'getUser'])).toThrow(
+      'Operation "missing" does not exist in the contract'
+    );
+  });
+});
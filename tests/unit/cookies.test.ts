@@ -0,0 +1,147 @@
+import { test, expect, describe } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import { parseCookies, serializeCookie } from '../../src/cookies.js';
+import * as v from 'valibot';
+
+describe('parseCookies', () => {
+  test('should parse and decode cookie pairs', () => {
+    expect(parseCookies('session=abc; theme=dark%20blue; quoted="x"; broken')).toEqual({
+      session: 'abc',
+      theme: 'dark blue',
+      quoted: 'x',
+    });
+    expect(parseCookies(null)).toEqual({});
+  });
+
+  test('should keep the first occurrence of a cookie', () => {
+    expect(parseCookies('a=1; a=2')).toEqual({ a: '1' });
+  });
+});
+
+describe('serializeCookie', () => {
+  test('should serialize values and attributes', () => {
+    expect(serializeCookie('theme', 'dark blue')).toBe('theme=dark%20blue');
+    expect(
+      serializeCookie('session', {
+        value: 'abc',
+        maxAge: 3600,
+        path: '/',
+        httpOnly: true,
+        secure: true,
+        sameSite: 'Lax',
+      })
+    ).toBe('session=abc; Max-Age=3600; Path=/; HttpOnly; Secure; SameSite=Lax');
+  });
+});
+
+const contract = createContract({
+  login: {
+    path: '/login',
+    method: 'POST',
+    cookies: v.object({ theme: v.optional(v.picklist(['light', 'dark'])) }),
+    responses: {
+      200: {
+        'application/json': {
+          body: v.object({ theme: v.string() }),
+          cookies: v.object({ session: v.string(), visits: v.optional(v.string()) }),
+        },
+      },
+    },
+  },
+  whoami: {
+    path: '/whoami',
+    method: 'GET',
+    cookies: v.object({ session: v.string() }),
+    responses: { 200: { 'application/json': { body: v.object({ session: v.string() }) } } },
+  },
+});
+
+const router = createRouter({
+  contract,
+  validateResponses: 'throw',
+  handlers: {
+    login: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { theme: request.validatedCookies.theme ?? 'light' },
+        setCookie: {
+          session: { value: 's-1', httpOnly: true, path: '/' },
+          visits: '1',
+        },
+      }),
+    whoami: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { session: request.validatedCookies.session },
+      }),
+  },
+});
+
+describe('createRouter cookies', () => {
+  test('should validate request cookies and set response cookies', async () => {
+    const response = await router.fetch(
+      new Request('http://localhost/login', { method: 'POST', headers: { cookie: 'theme=dark' } })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ theme: 'dark' });
+    expect(response.headers.getSetCookie()).toEqual(['session=s-1; Path=/; HttpOnly', 'visits=1']);
+  });
+
+  test('should reject invalid request cookies with the cookies location', async () => {
+    const router = createRouter({ contract, errors: 'problem+json', handlers: {} });
+    const response = await router.fetch(new Request('http://localhost/whoami'));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors[0].pointer).toBe('#/cookies/session');
+  });
+
+  test('should validate response cookies against the contract', async () => {
+    const driftingRouter = createRouter({
+      contract,
+      validateResponses: 'throw',
+      handlers: {
+        login: async (request) =>
+          request.respond({
+            status: 200,
+            contentType: 'application/json',
+            body: { theme: 'light' },
+          }),
+      },
+    });
+
+    const response = await driftingRouter.fetch(
+      new Request('http://localhost/login', { method: 'POST' })
+    );
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('OpenAPI cookies', () => {
+  test('should emit cookie parameters and Set-Cookie response headers', async () => {
+    const spec = await createOpenApiSpecification(contract, { title: 'Test', version: '1.0.0' });
+    const login = spec.paths?.['/login']?.post;
+
+    expect(login?.parameters).toEqual([
+      {
+        name: 'theme',
+        in: 'cookie',
+        required: false,
+        schema: { enum: ['light', 'dark'] },
+        description: undefined,
+      },
+    ]);
+    expect((login?.responses?.['200'] as any).headers).toEqual({
+      'Set-Cookie': {
+        description: 'Sets the `session`, `visits` cookies',
+        schema: { type: 'string' },
+      },
+    });
+  });
+});
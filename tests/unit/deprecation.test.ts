@@ -0,0 +1,167 @@
+import { test, expect, describe } from 'vitest';
+import { createContract } from '../../src/contract.js';
+import { createRouter } from '../../src/router.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import type { DeprecatedUsage } from '../../src/types.js';
+import * as v from 'valibot';
+
+const User = v.object({ id: v.string() });
+
+const contract = createContract({
+  getUser: {
+    path: '/users/:id',
+    method: 'GET',
+    deprecated: {
+      since: '2025-01-01T00:00:00Z',
+      sunset: '2026-01-01T00:00:00Z',
+      replacement: 'getAccount',
+    },
+    responses: { 200: { 'application/json': { body: User } } },
+  },
+  getAccount: {
+    path: '/accounts/:id',
+    method: 'GET',
+    query: v.object({
+      page: v.optional(v.string()),
+      filter: v.optional(v.record(v.string(), v.string())),
+    }),
+    headers: v.object({ 'x-api-token': v.optional(v.string()) }),
+    deprecatedParams: { query: ['page', 'filter'], headers: ['x-api-token'] },
+    responses: { 200: { 'application/json': { body: User } } },
+  },
+  listUsers: {
+    path: '/users',
+    method: 'GET',
+    deprecated: true,
+    responses: { 200: { 'application/json': { body: v.array(User) } } },
+  },
+});
+
+const respond = async (request: any) =>
+  request.respond({ status: 200, contentType: 'application/json', body: { id: '1' } });
+
+describe('deprecated operations', () => {
+  test('should add Deprecation, Sunset and Link headers', async () => {
+    const router = createRouter({
+      contract,
+      base: '/api',
+      handlers: { getUser: respond, getAccount: respond, listUsers: respond },
+    });
+
+    const response = await router.fetch(new Request('http://localhost/api/users/7'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('deprecation')).toBe('@1735689600');
+    expect(response.headers.get('sunset')).toBe('Thu, 01 Jan 2026 00:00:00 GMT');
+    expect(response.headers.get('link')).toBe('</api/accounts/7>; rel="successor-version"');
+
+    const encoded = await router.fetch(new Request('http://localhost/api/users/a%20b'));
+    expect(encoded.headers.get('link')).toBe('</api/accounts/a%20b>; rel="successor-version"');
+
+    const undated = await router.fetch(new Request('http://localhost/api/users'));
+    expect(undated.headers.get('deprecation')).toBe('true');
+    expect(undated.headers.has('sunset')).toBe(false);
+
+    const current = await router.fetch(new Request('http://localhost/api/accounts/7'));
+    expect(current.headers.has('deprecation')).toBe(false);
+  });
+
+  test('should prefix Link headers with the version of versioned paths', async () => {
+    const versioned = createContract({
+      getUser: {
+        path: '/users/:id',
+        method: 'GET',
+        versions: ['v1', 'v2'],
+        deprecated: { replacement: 'getAccount' },
+        responses: { 200: { 'application/json': { body: User } } },
+      },
+      getAccount: {
+        path: '/accounts/:id',
+        method: 'GET',
+        versions: { from: 'v2' },
+        responses: { 200: { 'application/json': { body: User } } },
+      },
+    });
+    const createVersionedRouter = (strategies: ('path' | 'header')[]) =>
+      createRouter({
+        contract: versioned,
+        base: '/api',
+        versioning: { versions: ['v1', 'v2', 'v3'], strategies },
+        handlers: { getUser: respond, getAccount: respond },
+      });
+    const router = createVersionedRouter(['path', 'header']);
+
+    const current = await router.fetch(new Request('http://localhost/api/v2/users/7'));
+    expect(current.headers.get('link')).toBe('</api/v2/accounts/7>; rel="successor-version"');
+
+    const older = await router.fetch(new Request('http://localhost/api/v1/users/7'));
+    expect(older.headers.get('link')).toBe('</api/v3/accounts/7>; rel="successor-version"');
+
+    const byHeader = await router.fetch(
+      new Request('http://localhost/api/users/7', { headers: { 'accept-version': 'v2' } })
+    );
+    expect(byHeader.headers.get('link')).toBe('</api/v2/accounts/7>; rel="successor-version"');
+
+    const headerOnly = await createVersionedRouter(['header']).fetch(
+      new Request('http://localhost/api/users/7', { headers: { 'accept-version': 'v2' } })
+    );
+    expect(headerOnly.headers.get('link')).toBe('</api/accounts/7>; rel="successor-version"');
+  });
+
+  test('should report deprecated operations and parameters to the hook', async () => {
+    const usages: Omit<DeprecatedUsage, 'request'>[] = [];
+    const router = createRouter({
+      contract,
+      handlers: { getUser: respond, getAccount: respond, listUsers: respond },
+      onDeprecated: ({ request: _request, ...usage }) => usages.push(usage),
+    });
+
+    await router.fetch(new Request('http://localhost/users/7'));
+    await router.fetch(new Request('http://localhost/accounts/7'));
+    await router.fetch(
+      new Request('http://localhost/accounts/7?filter[status]=active', {
+        headers: { 'x-api-token': 'secret' },
+      })
+    );
+    expect(usages).toEqual([
+      { operation: 'getUser', deprecated: true, parameters: [] },
+      {
+        operation: 'getAccount',
+        deprecated: false,
+        parameters: ['query.filter', 'headers.x-api-token'],
+      },
+    ]);
+  });
+
+  test('should throw for unknown replacements and invalid dates', () => {
+    expect(() =>
+      createRouter({
+        contract: createContract({
+          getUser: { ...contract.getUser, deprecated: { replacement: 'missing' } },
+        }),
+        handlers: {},
+      })
+    ).toThrow('Operation "getUser" is replaced by unknown operation "missing"');
+    expect(() =>
+      createRouter({
+        contract: createContract({
+          getUser: { ...contract.getUser, deprecated: { sunset: 'soon' } },
+        }),
+        handlers: {},
+      })
+    ).toThrow('Invalid date "soon" for operation "getUser"');
+  });
+
+  test('should mark deprecated operations and parameters in OpenAPI', async () => {
+    const document = await createOpenApiSpecification(contract, { title: 'Users' });
+    expect(document.paths!['/users/{id}']!.get!.deprecated).toBe(true);
+    expect(document.paths!['/users']!.get!.deprecated).toBe(true);
+
+    const account = document.paths!['/accounts/{id}']!.get!;
+    expect(account.deprecated).toBeUndefined();
+    expect(
+      (account.parameters as { name: string; deprecated?: boolean }[]).map(
+        ({ name, deprecated }) => `${name}${deprecated ? ' (deprecated)' : ''}`
+      )
+    ).toEqual(['id', 'page (deprecated)', 'filter (deprecated)', 'x-api-token (deprecated)']);
+  });
+});
@@ -0,0 +1,176 @@
+import { test, expect, describe } from 'vitest';
+import { createContract } from '../../src/contract.js';
+import { diffContracts, diffOpenApiSpecifications } from '../../src/openapi/index.js';
+import type { ContractChange } from '../../src/openapi/index.js';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import * as v from 'valibot';
+
+const User = v.object({
+  id: v.string(),
+  name: v.string(),
+  role: v.picklist(['admin', 'member']),
+});
+
+const before = createContract({
+  getUser: {
+    path: '/users/:id',
+    method: 'GET',
+    query: v.object({ expand: v.optional(v.string()) }),
+    responses: {
+      200: { 'application/json': { body: User }, 'text/csv': { body: v.string() } },
+      404: { 'application/json': { body: v.object({ message: v.string() }) } },
+    },
+  },
+  createUser: {
+    path: '/users',
+    method: 'POST',
+    requests: {
+      'application/json': {
+        body: v.object({ name: v.string(), role: v.picklist(['admin', 'member']) }),
+      },
+    },
+    responses: { 201: { 'application/json': { body: User } } },
+  },
+  deleteUser: {
+    path: '/users/:id',
+    method: 'DELETE',
+    responses: { 204: { 'application/json': { body: v.never() } } },
+  },
+});
+
+/**
+ * Summarise changes as `breaking|safe type location`
+ */
+const summarise = (changes: ContractChange[]) =>
+  changes.map(
+    (change) =>
+      `${change.breaking ? 'breaking' : 'safe'} ${change.type} ${change.operation}${change.location ? ` ${change.location}` : ''}`
+  );
+
+describe('diffContracts', () => {
+  test('should report no changes for identical contracts', async () => {
+    expect(await diffContracts(before, before)).toEqual([]);
+  });
+
+  test('should categorise contract changes as breaking or not', async () => {
+    const after = createContract({
+      getUser: {
+        path: '/users/:userId',
+        method: 'GET',
+        query: v.object({ expand: v.optional(v.string()), fields: v.string() }),
+        responses: {
+          200: {
+            'application/json': {
+              body: v.object({
+                id: v.string(),
+                role: v.picklist(['admin', 'member', 'guest']),
+                email: v.optional(v.string()),
+              }),
+            },
+          },
+        },
+      },
+      createUser: {
+        path: '/users',
+        method: 'POST',
+        requests: {
+          'application/json': {
+            body: v.object({
+              name: v.string(),
+              role: v.picklist(['admin']),
+              team: v.optional(v.string()),
+            }),
+          },
+        },
+        responses: {
+          201: { 'application/json': { body: User } },
+          409: { 'application/json': { body: v.object({ message: v.string() }) } },
+        },
+      },
+      listUsers: {
+        path: '/users',
+        method: 'GET',
+        responses: { 200: { 'application/json': { body: v.array(User) } } },
+      },
+    });
+
+    expect(summarise(await diffContracts(before, after))).toEqual([
+      'breaking parameter-added getUser query.fields',
+      'breaking property-removed getUser responses.200.application/json.name',
+      'breaking enum-widened getUser responses.200.application/json.role',
+      'breaking response-content-type-removed getUser responses.200.text/csv',
+      'breaking response-status-removed getUser responses.404',
+      'breaking operation-removed deleteUser',
+      'breaking enum-narrowed createUser body.application/json.role',
+      'safe property-added getUser responses.200.application/json.email',
+      'safe property-added createUser body.application/json.team',
+      'safe response-status-added createUser responses.409',
+      'safe operation-added listUsers',
+    ]);
+  });
+
+  test('should report moved operations', async () => {
+    const after = createContract({
+      ...before,
+      deleteUser: { ...before.deleteUser, method: 'POST', path: '/users/:id/delete' },
+    });
+
+    const [change] = await diffContracts(before, after);
+    expect(change).toEqual({
+      type: 'operation-moved',
+      breaking: true,
+      operation: 'deleteUser',
+      location: undefined,
+      message: 'Operation moved from DELETE /users/{id} to POST /users/{id}/delete',
+    });
+  });
+});
+
+describe('diffOpenApiSpecifications', () => {
+  const document = (schema: OpenAPIV3_1.SchemaObject, required = false) =>
+    ({
+      openapi: '3.1.0',
+      info: { title: 'Test', version: '1.0.0' },
+      paths: {
+        '/items': {
+          post: {
+            parameters: [{ name: 'limit', in: 'query', required, schema: { type: 'integer' } }],
+            requestBody: { content: { 'application/json': { schema } } },
+            responses: { 200: { description: 'OK' } },
+          },
+        },
+      },
+    }) as OpenAPIV3_1.Document;
+
+  test('should follow references and match operations by method and path', () => {
+    const Item = {
+      type: 'object',
+      properties: { tags: { type: 'array', items: { type: 'string' } } },
+    } as const;
+    const oldDocument = {
+      ...document({ $ref: '#/components/schemas/Item' } as any),
+      components: { schemas: { Item } },
+    };
+    const newDocument = {
+      ...document({ $ref: '#/components/schemas/Item' } as any, true),
+      components: {
+        schemas: {
+          Item: { ...Item, properties: { tags: { type: 'array', items: { type: 'number' } } } },
+        },
+      },
+    } as OpenAPIV3_1.Document;
+
+    expect(summarise(diffOpenApiSpecifications(oldDocument, newDocument))).toEqual([
+      'breaking parameter-required POST /items query.limit',
+      'breaking type-changed POST /items body.application/json.tags[]',
+    ]);
+  });
+
+  test('should treat integers as numbers', () => {
+    const widened = diffOpenApiSpecifications(
+      document({ type: 'integer' }),
+      document({ type: 'number' })
+    );
+    expect(summarise(widened)).toEqual(['safe type-changed POST /items body.application/json']);
+  });
+});
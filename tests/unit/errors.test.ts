@@ -0,0 +1,209 @@
+import { test, expect, describe } from 'vitest';
+import { StatusError } from 'itty-router';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import { getIssuePointer, toContractError } from '../../src/errors.js';
+import type { ErrorFormatter } from '../../src/types.js';
+import * as v from 'valibot';
+
+const contract = createContract({
+  createUser: {
+    operationId: 'createUser',
+    path: '/users',
+    method: 'POST',
+    requests: {
+      'application/json': { body: v.object({ name: v.string(), age: v.number() }) },
+    },
+    responses: {
+      201: { 'application/json': { body: v.object({ name: v.string() }) } },
+    },
+  },
+  getUser: {
+    operationId: 'getUser',
+    path: '/users/:id',
+    method: 'GET',
+    responses: {
+      200: { 'application/json': { body: v.object({ name: v.string() }) } },
+      500: { 'application/json': { body: v.object({ reason: v.string() }) } },
+    },
+  },
+});
+
+const handlers = {
+  createUser: async (request: any) =>
+    request.respond({
+      status: 201,
+      contentType: 'application/json',
+      body: { name: request.validatedBody.name },
+    }),
+  getUser: async () => {
+    throw new StatusError(404, 'User not found');
+  },
+};
+
+const postUser = (body: string, contentType = 'application/json') =>
+  new Request('http://localhost/users', {
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body,
+  });
+
+describe('toContractError', () => {
+  test('should normalize validation errors', () => {
+    const error = Object.assign(new Error('Validation failed'), {
+      issues: [{ message: 'Invalid', path: ['name'] }],
+      location: 'body',
+    });
+
+    expect(toContractError(error)).toMatchObject({
+      status: 400,
+      message: 'Validation failed',
+      issues: [{ message: 'Invalid', path: ['name'] }],
+      location: 'body',
+    });
+  });
+
+  test('should use the status of other errors and default to 500', () => {
+    expect(toContractError(new StatusError(409, 'Conflict'))).toMatchObject({
+      status: 409,
+      message: 'Conflict',
+    });
+    expect(toContractError('boom')).toMatchObject({
+      status: 500,
+      message: 'Internal server error',
+    });
+  });
+});
+
+describe('getIssuePointer', () => {
+  test('should build escaped JSON pointers', () => {
+    expect(getIssuePointer({ message: 'x', path: ['items', 0, { key: 'a/b~c' }] }, 'body')).toBe(
+      '#/body/items/0/a~1b~0c'
+    );
+    expect(getIssuePointer({ message: 'x' })).toBe('#');
+  });
+});
+
+describe('createRouter errors option', () => {
+  test('should keep the legacy format by default', async () => {
+    const router = createRouter({ contract, handlers });
+
+    const response = await router.fetch(postUser('{"name":"Ann"}'));
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    const body = await response.json();
+    expect(body.error).toBe('Validation failed');
+    expect(body.details[0].path[0].key).toBe('age');
+  });
+
+  test('should render validation errors as problem+json', async () => {
+    const router = createRouter({ contract, handlers, errors: 'problem+json' });
+
+    const response = await router.fetch(postUser('{"name":"Ann","age":"old"}'));
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('content-type')).toBe('application/problem+json');
+    expect(await response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Validation failed',
+      instance: '/users',
+      errors: [{ detail: expect.any(String), pointer: '#/body/age' }],
+    });
+  });
+
+  test('should render other errors as problem+json', async () => {
+    const router = createRouter({ contract, handlers, errors: 'problem+json' });
+
+    const unsupported = await router.fetch(postUser('<name/>', 'application/xml'));
+    expect(unsupported.status).toBe(415);
+    expect(await unsupported.json()).toMatchObject({
+      title: 'Unsupported Media Type',
+      status: 415,
+      detail: expect.stringContaining('Unsupported Content-Type: application/xml'),
+    });
+
+    const notFound = await router.fetch(new Request('http://localhost/users/1'));
+    expect(await notFound.json()).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'User not found',
+      instance: '/users/1',
+    });
+  });
+
+  test('should use a custom error formatter', async () => {
+    const errors: ErrorFormatter = {
+      contentType: 'application/vnd.error+json',
+      format: (error) => ({ code: error.status, message: error.message }),
+    };
+    const router = createRouter({ contract, handlers, errors });
+
+    const response = await router.fetch(new Request('http://localhost/users/1'));
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe('application/vnd.error+json');
+    expect(await response.json()).toEqual({ code: 404, message: 'User not found' });
+  });
+});
+
+describe('OpenAPI error responses', () => {
+  test('should not add error responses by default', async () => {
+    const spec = await createOpenApiSpecification(contract, { title: 'Test', version: '1.0.0' });
+
+    expect(Object.keys(spec.paths?.['/users']?.post?.responses ?? {})).toEqual(['201']);
+  });
+
+  test('should add problem+json error responses to every operation', async () => {
+    const spec = await createOpenApiSpecification(contract, {
+      title: 'Test',
+      version: '1.0.0',
+      errors: 'problem+json',
+    });
+
+    const post = spec.paths?.['/users']?.post?.responses ?? {};
+    expect(Object.keys(post)).toEqual(['201', '400', '415', '500']);
+    expect(post['400']).toEqual({
+      description: 'Bad Request',
+      content: {
+        'application/problem+json': {
+          schema: { $ref: '#/components/schemas/ProblemDetails' },
+        },
+      },
+    });
+    expect(spec.components?.schemas?.ProblemDetails).toMatchObject({
+      type: 'object',
+      required: ['type', 'title', 'status'],
+    });
+
+    // Operations without a request body get no 415, declared responses are kept
+    const get = spec.paths?.['/users/{id}']?.get?.responses ?? {};
+    expect(Object.keys(get).sort()).toEqual(['200', '400', '500']);
+    expect((get['500'] as any).content['application/json']).toBeDefined();
+  });
+
+  test('should register the schema of a custom error formatter', async () => {
+    const spec = await createOpenApiSpecification(contract, {
+      title: 'Test',
+      version: '1.0.0',
+      errors: {
+        contentType: 'application/json',
+        name: 'ApiError',
+        format: (error) => ({ message: error.message }),
+        schema: v.object({ message: v.string() }),
+      },
+    });
+
+    expect(spec.paths?.['/users']?.post?.responses?.['400']).toMatchObject({
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } },
+    });
+    expect(spec.components?.schemas?.ApiError).toMatchObject({
+      type: 'object',
+      properties: { message: { type: 'string' } },
+    });
+  });
+});
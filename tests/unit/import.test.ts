@@ -0,0 +1,271 @@
+import { test, expect, describe } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { generateContractSource } from '../../src/openapi/index.js';
+import type { OpenApiDocument } from '../../src/openapi/index.js';
+import { runCli } from '../../src/cli.js';
+
+const document = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/pets/{petId}': {
+      parameters: [
+        { name: 'petId', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } },
+      ],
+      get: {
+        operationId: 'get-pet',
+        summary: 'Get a pet',
+        tags: ['pets'],
+        parameters: [
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string', format: 'uuid' } },
+          { name: 'Accept', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'The pet',
+            headers: { 'X-Rate-Limit': { schema: { type: 'integer' }, required: true } },
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+          '4XX': { description: 'Client error' },
+          default: { $ref: '#/components/responses/Error' },
+        },
+      },
+      delete: {
+        security: [],
+        responses: { '204': { description: 'Deleted' } },
+      },
+    },
+    '/owners/{owner-id}/avatar': {
+      put: {
+        operationId: 'uploadAvatar',
+        parameters: [{ name: 'owner-id', in: 'path', required: true, schema: { type: 'integer' } }],
+        requestBody: {
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['file'],
+                properties: {
+                  file: { type: 'string', format: 'binary' },
+                  caption: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: { '204': { description: 'Uploaded' } },
+      },
+    },
+    '/pets': {
+      post: {
+        operationId: 'createPet',
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } }],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                  name: { type: 'string', minLength: 1 },
+                  status: { type: 'string', enum: ['available', 'sold'], default: 'available' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            description: 'Created',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['id', 'name'],
+        properties: {
+          id: { type: 'integer', exclusiveMinimum: true, minimum: 0 },
+          name: { type: 'string', description: 'Display name' },
+          owner: { $ref: '#/components/schemas/owner-info' },
+          birthday: { type: 'string', format: 'date', nullable: true },
+          parent: { $ref: '#/components/schemas/Pet' },
+        },
+      },
+      'owner-info': {
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' } },
+        additionalProperties: true,
+      },
+      Error: {
+        type: 'object',
+        required: ['message'],
+        properties: { message: { type: 'string' } },
+      },
+    },
+    responses: {
+      Error: {
+        description: 'Error',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    },
+  },
+} as unknown as OpenApiDocument;
+
+/**
+ * Write generated source next to the tests and import it (the helpers come from src)
+ */
+async function importGenerated(source: string): Promise<Record<string, any>> {
+  const file = join(import.meta.dirname, `.generated-${Date.now()}.ts`);
+  await writeFile(file, source);
+  try {
+    return await import(file);
+  } finally {
+    await rm(file, { force: true });
+  }
+}
+
+describe('generateContractSource', () => {
+  test('should emit component schemas in dependency order and operations', () => {
+    const source = generateContractSource(document);
+
+    expect(source).toContain(`import { z } from 'zod';`);
+    expect(source.indexOf('export const OwnerInfoSchema')).toBeLessThan(
+      source.indexOf('export const PetSchema')
+    );
+    expect(source).toContain('export type OwnerInfo = z.infer<typeof OwnerInfoSchema>;');
+    expect(source).toContain('export const PetSchema: z.ZodType<Pet> = z.object({');
+    expect(source).toContain('  parent?: Pet;');
+    expect(source).toContain('parent: z.lazy(() => PetSchema).optional(),');
+    expect(source).toContain('birthday: z.iso.date().nullable().optional(),');
+    expect(source).toContain('id: z.number().int().gt(0),');
+    expect(source).toContain(`operationId: 'get-pet',`);
+    expect(source).toContain(`path: '/pets/:petId',`);
+    expect(source).toContain('petId: z.coerce.number().int().min(1),');
+    expect(source).toContain(`'x-request-id': z.uuid().optional(),`);
+    expect(source).not.toContain(`accept:`);
+    expect(source).toContain('// 4XX: status code ranges are not supported');
+    expect(source).toContain(`status: z.enum(['available', 'sold']).default('available'),`);
+    expect(source).toContain('security: [{ bearerAuth: [] }],');
+    expect(source).toContain('security: [],');
+  });
+
+  test('should emit valid names, void bodies and file parts', () => {
+    for (const schemas of ['zod', 'valibot'] as const) {
+      const source = generateContractSource(document, { schemas });
+      const lib = schemas === 'zod' ? 'z' : 'v';
+
+      expect(source).toContain(`path: '/owners/:ownerId/avatar',`);
+      expect(source).toContain('      ownerId: ');
+      expect(source).not.toContain('owner-id');
+      expect(source).toContain(`'application/json': { body: ${lib}.void() },`);
+      expect(source).not.toContain(`${lib}.never()`);
+      expect(source).toContain(schemas === 'zod' ? 'file: z.instanceof(File),' : 'file: v.file(),');
+      expect(source).toContain('export type _Error = ');
+      expect(source).not.toMatch(/export type Error\b/);
+    }
+  });
+
+  test('should emit valibot schemas', () => {
+    const source = generateContractSource(document, { schemas: 'valibot', name: 'pets' });
+
+    expect(source).toContain(`import * as v from 'valibot';`);
+    expect(source).toContain('export type OwnerInfo = v.InferOutput<typeof OwnerInfoSchema>;');
+    expect(source).toContain('export const PetSchema: v.GenericSchema<Pet> = v.object({');
+    expect(source).toContain('export const pets = createContract({');
+    expect(source).toContain(
+      'petId: v.pipe(v.string(), v.toNumber(), v.integer(), v.minValue(1)),'
+    );
+    expect(source).toContain(`status: v.optional(v.picklist(['available', 'sold']), 'available'),`);
+    expect(source).toContain(`name: v.pipe(v.string(), v.description('Display name')),`);
+  });
+
+  test('should generate contracts that validate requests', async () => {
+    for (const schemas of ['zod', 'valibot'] as const) {
+      const { contract } = await importGenerated(
+        generateContractSource(document, { schemas, importPath: '../../src/contract.js' })
+      );
+
+      expect(Object.keys(contract)).toEqual([
+        'getPet',
+        'deletePetsPetId',
+        'uploadAvatar',
+        'createPet',
+      ]);
+      expect(contract.getPet.tags).toEqual(['pets']);
+
+      const pet = contract.getPet.responses[200]['application/json'].body;
+      const valid = await pet['~standard'].validate({
+        id: 1,
+        name: 'Rex',
+        parent: { id: 2, name: 'Max' },
+      });
+      expect(valid.issues).toBeUndefined();
+      const invalid = await pet['~standard'].validate({ id: 0, name: 'Rex' });
+      expect(invalid.issues).toBeDefined();
+
+      const params = await contract.getPet.pathParams['~standard'].validate({ petId: '7' });
+      expect(params.value).toEqual({ petId: 7 });
+
+      const upload = contract.uploadAvatar;
+      expect(upload.path).toBe('/owners/:ownerId/avatar');
+      const ownerParams = await upload.pathParams['~standard'].validate({ ownerId: '3' });
+      expect(ownerParams.value).toEqual({ ownerId: 3 });
+      const form = upload.requests['multipart/form-data'].body;
+      const file = new File(['avatar'], 'avatar.png');
+      expect((await form['~standard'].validate({ file })).issues).toBeUndefined();
+      expect((await form['~standard'].validate({ file: 'avatar' })).issues).toBeDefined();
+      const empty = upload.responses[204]['application/json'].body;
+      expect((await empty['~standard'].validate(undefined)).issues).toBeUndefined();
+    }
+  });
+
+  test('should reject documents that are not OpenAPI 3.0/3.1', () => {
+    expect(() => generateContractSource({ swagger: '2.0' } as any)).toThrow(
+      'Only OpenAPI 3.0 and 3.1 documents can be imported'
+    );
+  });
+});
+
+describe('itty-spec import', () => {
+  test('should write the generated contract', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'itty-spec-'));
+    const messages: string[] = [];
+    const output = {
+      stdout: (text: string) => messages.push(text),
+      stderr: (text: string) => messages.push(text),
+    };
+    try {
+      await writeFile(join(dir, 'openapi.json'), JSON.stringify(document));
+      const code = await runCli(
+        [
+          'import',
+          join(dir, 'openapi.json'),
+          '--schemas',
+          'valibot',
+          '--out',
+          join(dir, 'contract.ts'),
+        ],
+        output
+      );
+
+      expect(code).toBe(0);
+      expect(await readFile(join(dir, 'contract.ts'), 'utf8')).toBe(
+        generateContractSource(document, { schemas: 'valibot' })
+      );
+      expect(await runCli(['import', join(dir, 'openapi.json'), '--schemas', 'yup'], output)).toBe(
+        1
+      );
+      expect(messages[messages.length - 1]).toContain('Unsupported schema library "yup"');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
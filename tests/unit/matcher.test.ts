@@ -0,0 +1,109 @@
+import { test, expect, describe } from 'vitest';
+import { RouteMatcher, matchPathPattern } from '../../src/matcher.js';
+
+describe('RouteMatcher', () => {
+  const matcher = new RouteMatcher<string>()
+    .add('GET', '/users', 'listUsers')
+    .add('POST', '/users', 'createUser')
+    .add('GET', '/users/:id', 'getUser')
+    .add('GET', '/users/:userId/posts/:postId', 'getPost')
+    .add('GET', '/users/me', 'getMe')
+    .add('GET', '/', 'root');
+
+  test('should resolve routes by method and path', () => {
+    expect(matcher.match('GET', '/users')).toEqual({ value: 'listUsers', params: {} });
+    expect(matcher.match('post', '/users')).toEqual({ value: 'createUser', params: {} });
+    expect(matcher.match('GET', '/')).toEqual({ value: 'root', params: {} });
+  });
+
+  test('should extract params in the same pass', () => {
+    expect(matcher.match('GET', '/users/42')).toEqual({ value: 'getUser', params: { id: '42' } });
+    expect(matcher.match('GET', '/users/1/posts/2')).toEqual({
+      value: 'getPost',
+      params: { userId: '1', postId: '2' },
+    });
+  });
+
+  test('should prefer the route registered first', () => {
+    expect(matcher.match('GET', '/users/me')?.value).toBe('getUser');
+
+    const staticFirst = new RouteMatcher<string>()
+      .add('GET', '/users/me', 'getMe')
+      .add('GET', '/users/:id', 'getUser');
+    expect(staticFirst.match('GET', '/users/me')?.value).toBe('getMe');
+    expect(staticFirst.match('GET', '/users/1')?.value).toBe('getUser');
+  });
+
+  test('should ignore empty segments and trailing slashes', () => {
+    expect(matcher.match('GET', '/users/42/')?.params).toEqual({ id: '42' });
+  });
+
+  test('should list the methods of every route matching a path', () => {
+    expect(matcher.methods('/users')).toEqual(['GET', 'POST']);
+    expect(matcher.methods('/users/me')).toEqual(['GET']);
+    expect(matcher.methods('/teams')).toEqual([]);
+  });
+
+  test('should return null when nothing matches', () => {
+    expect(matcher.match('DELETE', '/users/42')).toBeNull();
+    expect(matcher.match('GET', '/users/1/posts')).toBeNull();
+    expect(matcher.match('GET', '/unknown')).toBeNull();
+  });
+});
+
+describe('RouteMatcher path grammar', () => {
+  const matcher = new RouteMatcher<string>()
+    .add('GET', '/users/:id(\\d+)', 'getUserById')
+    .add('GET', '/users/:slug', 'getUserBySlug')
+    .add('GET', '/v:version/items/:id?', 'getItems')
+    .add('GET', '/assets/:name.:ext', 'getAsset')
+    .add('GET', '/blobs/:path+', 'getBlob')
+    .add('GET', '/files/*', 'getFiles');
+
+  test('should check regex constraints', () => {
+    expect(matcher.match('GET', '/users/12')).toEqual({
+      value: 'getUserById',
+      params: { id: '12' },
+    });
+    expect(matcher.match('GET', '/users/alice')).toEqual({
+      value: 'getUserBySlug',
+      params: { slug: 'alice' },
+    });
+  });
+
+  test('should match optional segments when present or absent', () => {
+    expect(matcher.match('GET', '/v2/items')?.params).toEqual({ version: '2' });
+    expect(matcher.match('GET', '/v2/items/9')?.params).toEqual({ version: '2', id: '9' });
+    expect(matcher.match('GET', '/2/items')).toBeNull();
+  });
+
+  test('should extract several params from one segment', () => {
+    expect(matcher.match('GET', '/assets/logo.png')?.params).toEqual({ name: 'logo', ext: 'png' });
+  });
+
+  test('should match the rest of the path with wildcards', () => {
+    expect(matcher.match('GET', '/blobs/a/b/c.txt')?.params).toEqual({ path: 'a/b/c.txt' });
+    expect(matcher.match('GET', '/blobs')).toBeNull();
+    expect(matcher.match('GET', '/files')).toEqual({ value: 'getFiles', params: {} });
+    expect(matcher.match('GET', '/files/a/b')).toEqual({ value: 'getFiles', params: {} });
+  });
+
+  test('should reject malformed patterns', () => {
+    expect(() => new RouteMatcher().add('GET', '/files/*/meta', 1)).toThrow(
+      'Wildcard must be the last path segment'
+    );
+    expect(() => new RouteMatcher().add('GET', '/users/:id(\\d+', 1)).toThrow(
+      'Unclosed path parameter constraint'
+    );
+    expect(() => new RouteMatcher().add('GET', '/files/:name?.txt', 1)).toThrow(
+      'Only whole-segment path parameters can be optional'
+    );
+  });
+});
+
+describe('matchPathPattern', () => {
+  test('should return params for matching paths and null otherwise', () => {
+    expect(matchPathPattern('/files/:name', '/files/a.txt')).toEqual({ name: 'a.txt' });
+    expect(matchPathPattern('/files/:name', '/files/a/b')).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import { test, expect, describe } from 'vitest';
+import { test, expect, describe, vi } from 'vitest';
 import type { IRequest } from 'itty-router';
 import {
   withMatchingContractOperation,
@@ -6,7 +6,10 @@ import {
   withResponseHelpers,
   withContractFormat,
   withContractErrorHandler,
+  withResponseValidation,
+  withContentNegotiation,
 } from '../../src/middleware';
+import { negotiateContentType, parseAcceptHeader } from '../../src/middleware/utils.js';
 import type { ContractOperation } from '../../src/types.js';
 import * as v from 'valibot';
 
@@ -62,6 +65,18 @@ test('withMatchingContractOperation should attach contract operation to request'
   expect((request as any).__contractOperation).toBe(operation);
 });
 
+test('withMatchingContractOperation should resolve operations and params in one match', () => {
+  const responses = { 200: { 'application/json': { body: v.object({ id: v.string() }) } } };
+  const getUser: ContractOperation = { path: '/users/:id', method: 'GET', responses };
+  const deleteUser: ContractOperation = { path: '/users/:id', method: 'DELETE', responses };
+
+  const request = new Request('http://example.com/api/users/42', { method: 'DELETE' }) as IRequest;
+  withMatchingContractOperation({ getUser, deleteUser }, '/api')(request);
+
+  expect((request as any).__contractOperation).toBe(deleteUser);
+  expect((request as any).__contractParams).toEqual({ id: '42' });
+});
+
 describe('withSpecValidation - path params', () => {
   test('should use params from request when no schema provided', async () => {
     const operation: ContractOperation = {
@@ -337,7 +352,7 @@ describe('withSpecValidation - body', () => {
     expect((request as any).validatedBody).toEqual({});
   });
 
-  test('should handle already consumed body', async () => {
+  test('should reject bodies that cannot be read with 400', async () => {
     const operation: ContractOperation<any, any, any, any> = {
       operationId: 'test',
       path: '/test',
@@ -354,10 +369,170 @@ describe('withSpecValidation - body', () => {
       },
     });
     withMatchingContractOperation({ test: operation })(request);
+
+    await expect(withSpecValidation(request)).rejects.toMatchObject({
+      status: 400,
+      message: 'Malformed request body',
+    });
+  });
+});
+
+describe('withSpecValidation - form bodies', () => {
+  test('should parse application/x-www-form-urlencoded bodies into objects', async () => {
+    const operation: ContractOperation<any, any, any, any> = {
+      operationId: 'test',
+      path: '/test',
+      method: 'POST',
+      requests: {
+        'application/x-www-form-urlencoded': {
+          body: v.object({ name: v.string(), tag: v.array(v.string()) }),
+        },
+      },
+      responses: { 200: { 'application/json': { body: v.object({ message: v.string() }) } } },
+    };
+
+    const request = new Request('http://example.com/test', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'name=John+Doe&tag=a&tag=b',
+    }) as IRequest;
+    withMatchingContractOperation({ test: operation })(request);
+
     await withSpecValidation(request);
 
-    // Should handle error gracefully by setting empty body
-    expect((request as any).validatedBody).toEqual({});
+    expect((request as any).validatedBody).toEqual({ name: 'John Doe', tag: ['a', 'b'] });
+  });
+
+  test('should parse multipart/form-data bodies into fields and File objects', async () => {
+    const operation: ContractOperation<any, any, any, any> = {
+      operationId: 'test',
+      path: '/test',
+      method: 'POST',
+      requests: {
+        'multipart/form-data': {
+          body: v.object({ description: v.string(), file: v.file() }),
+        },
+      },
+      responses: { 200: { 'application/json': { body: v.object({ message: v.string() }) } } },
+    };
+
+    const formData = new FormData();
+    formData.append('description', 'avatar');
+    formData.append('file', new File(['hello'], 'hello.txt', { type: 'text/plain' }));
+    const request = new Request('http://example.com/test', {
+      method: 'POST',
+      body: formData,
+    }) as IRequest;
+    withMatchingContractOperation({ test: operation })(request);
+
+    await withSpecValidation(request);
+
+    const body = (request as any).validatedBody;
+    expect(body.description).toBe('avatar');
+    expect(body.file).toBeInstanceOf(File);
+    expect(body.file.name).toBe('hello.txt');
+    expect(await body.file.text()).toBe('hello');
+  });
+
+  test('should reject multipart bodies that fail validation', async () => {
+    const operation: ContractOperation<any, any, any, any> = {
+      operationId: 'test',
+      path: '/test',
+      method: 'POST',
+      requests: {
+        'multipart/form-data': { body: v.object({ file: v.file() }) },
+      },
+      responses: { 200: { 'application/json': { body: v.object({ message: v.string() }) } } },
+    };
+
+    const formData = new FormData();
+    formData.append('file', 'not a file');
+    const request = new Request('http://example.com/test', {
+      method: 'POST',
+      body: formData,
+    }) as IRequest;
+    withMatchingContractOperation({ test: operation })(request);
+
+    await expect(withSpecValidation(request)).rejects.toThrow('Validation failed');
+  });
+});
+
+describe('negotiateContentType', () => {
+  const candidates = ['application/json', 'text/html', 'application/xml'];
+
+  test('should return the first candidate when no Accept header is sent', () => {
+    expect(negotiateContentType(null, candidates)).toBe('application/json');
+    expect(negotiateContentType('', candidates)).toBe('application/json');
+  });
+
+  test('should pick an exact match', () => {
+    expect(negotiateContentType('text/html', candidates)).toBe('text/html');
+  });
+
+  test('should respect q-values', () => {
+    expect(negotiateContentType('application/json;q=0.5, application/xml', candidates)).toBe(
+      'application/xml'
+    );
+  });
+
+  test('should prefer the most specific range for each candidate', () => {
+    expect(negotiateContentType('text/*;q=0.9, */*;q=0.1', candidates)).toBe('text/html');
+    expect(negotiateContentType('*/*, application/json;q=0', candidates)).toBe('text/html');
+  });
+
+  test('should return null when nothing is acceptable', () => {
+    expect(negotiateContentType('image/png', candidates)).toBeNull();
+  });
+
+  test('parseAcceptHeader should parse media ranges and ignore malformed entries', () => {
+    expect(parseAcceptHeader('text/html, application/json;q=0.8, garbage')).toEqual([
+      { type: 'text', subtype: 'html', q: 1 },
+      { type: 'application', subtype: 'json', q: 0.8 },
+    ]);
+  });
+});
+
+describe('withContentNegotiation', () => {
+  const operation: ContractOperation = {
+    operationId: 'test',
+    path: '/test',
+    method: 'GET',
+    responses: {
+      200: {
+        'application/json': { body: v.object({ message: v.string() }) },
+        'text/html': { body: v.string() },
+      },
+      400: { 'application/problem+json': { body: v.object({ error: v.string() }) } },
+    },
+  };
+
+  test('should attach the preferred content type', () => {
+    const request = createMockRequest({
+      url: 'http://example.com/test',
+      headers: { accept: 'text/html,application/xhtml+xml,*/*;q=0.8' },
+    });
+    withMatchingContractOperation({ test: operation })(request);
+    withContentNegotiation(request);
+
+    expect((request as any).preferredContentType).toBe('text/html');
+  });
+
+  test('should default to the first declared success content type', () => {
+    const request = createMockRequest({ url: 'http://example.com/test' });
+    withMatchingContractOperation({ test: operation })(request);
+    withContentNegotiation(request);
+
+    expect((request as any).preferredContentType).toBe('application/json');
+  });
+
+  test('should throw a 406 error when no declared content type is acceptable', () => {
+    const request = createMockRequest({
+      url: 'http://example.com/test',
+      headers: { accept: 'image/png' },
+    });
+    withMatchingContractOperation({ test: operation })(request);
+
+    expect(() => withContentNegotiation(request)).toThrow(expect.objectContaining({ status: 406 }));
   });
 });
 
@@ -440,6 +615,129 @@ describe('withContractFormat', () => {
   });
 });
 
+describe('withResponseValidation', () => {
+  const operation: ContractOperation = {
+    operationId: 'test',
+    path: '/test',
+    method: 'GET',
+    responses: {
+      200: {
+        'application/json': {
+          body: v.object({ message: v.string() }),
+          headers: v.object({ 'x-request-id': v.string() }),
+        },
+      },
+      204: { 'application/json': { body: v.never() } },
+    },
+  };
+
+  function createMatchedRequest() {
+    const request = createMockRequest({ url: 'http://example.com/test' });
+    withMatchingContractOperation({ test: operation })(request);
+    return request;
+  }
+
+  async function readErrorResponse(result: unknown) {
+    expect(result).toBeInstanceOf(Response);
+    expect((result as Response).status).toBe(500);
+    return (await (result as Response).json()) as { error: string; details: unknown[] };
+  }
+
+  test('should pass valid responses through', async () => {
+    const validator = withResponseValidation('throw');
+    const result = await validator(
+      {
+        status: 200,
+        body: { message: 'ok' },
+        headers: new Headers({ 'content-type': 'application/json', 'x-request-id': '1' }),
+      },
+      createMatchedRequest()
+    );
+
+    expect(result).toBeUndefined();
+  });
+
+  test('should allow omitted bodies', async () => {
+    const validator = withResponseValidation('throw');
+    await expect(
+      validator({ status: 204, body: undefined }, createMatchedRequest())
+    ).resolves.toBeUndefined();
+  });
+
+  test('should replace invalid bodies with a 500 error response', async () => {
+    const validator = withResponseValidation('throw');
+    const result = await validator(
+      {
+        status: 200,
+        body: { message: 42 },
+        headers: { 'content-type': 'application/json', 'x-request-id': '1' },
+      },
+      createMatchedRequest()
+    );
+
+    expect(await readErrorResponse(result)).toMatchObject({
+      error: 'Response validation failed',
+      details: [
+        expect.objectContaining({ path: ['body', expect.objectContaining({ key: 'message' })] }),
+      ],
+    });
+  });
+
+  test('should reject invalid headers', async () => {
+    const validator = withResponseValidation('throw');
+    const result = await validator(
+      { status: 200, body: { message: 'ok' }, headers: { 'content-type': 'application/json' } },
+      createMatchedRequest()
+    );
+
+    expect(await readErrorResponse(result)).toMatchObject({
+      details: [expect.objectContaining({ path: ['headers', expect.anything()] })],
+    });
+  });
+
+  test('should reject undeclared status codes', async () => {
+    const validator = withResponseValidation('throw');
+    const result = await validator({ status: 418, body: {} }, createMatchedRequest());
+
+    expect(await readErrorResponse(result)).toMatchObject({
+      details: [{ message: 'Undeclared response status: 418' }],
+    });
+  });
+
+  test('should reject undeclared content types', async () => {
+    const validator = withResponseValidation('throw');
+    const result = await validator(
+      { status: 200, body: 'hi', headers: { 'content-type': 'text/plain' } },
+      createMatchedRequest()
+    );
+
+    expect(await readErrorResponse(result)).toMatchObject({
+      details: [expect.objectContaining({ message: expect.stringContaining('text/plain') })],
+    });
+  });
+
+  test('should only log in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const validator = withResponseValidation('warn');
+
+    const result = await validator({ status: 418, body: {} }, createMatchedRequest());
+
+    expect(result).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(
+      '[itty-spec] Response validation failed for GET /test',
+      expect.any(Array)
+    );
+    warn.mockRestore();
+  });
+
+  test('should do nothing when off', async () => {
+    const validator = withResponseValidation('off');
+    await expect(
+      validator({ status: 418, body: {} }, createMatchedRequest())
+    ).resolves.toBeUndefined();
+  });
+});
+
 describe('withContractErrorHandler', () => {
   test('withContractErrorHandler should handle validation errors', () => {
     const errorHandler = withContractErrorHandler();
@@ -741,7 +1039,7 @@ describe('400 Validation Error Responses', () => {
       }
     });
 
-    test('should throw 400 error for unsupported Content-Type', async () => {
+    test('should throw 415 error for unsupported Content-Type', async () => {
       const operation: ContractOperation<any, any, any, any> = {
         operationId: 'createUser',
         path: '/users',
@@ -766,7 +1064,7 @@ describe('400 Validation Error Responses', () => {
       try {
         await withSpecValidation(request);
       } catch (err: any) {
-        expect(err.status).toBe(400);
+        expect(err.status).toBe(415);
       }
     });
 
@@ -901,8 +1199,8 @@ describe('400 Validation Error Responses', () => {
       });
       withMatchingContractOperation({ createUser: operation })(request);
 
-      // Invalid JSON will be parsed as string, which will fail schema validation
-      await expect(withSpecValidation(request)).rejects.toThrow();
+      // Invalid JSON is rejected before schema validation
+      await expect(withSpecValidation(request)).rejects.toThrow('Malformed request body');
     });
   });
 
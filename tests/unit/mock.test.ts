@@ -0,0 +1,189 @@
+import { test, expect, describe } from 'vitest';
+import { createContract } from '../../src/contract.js';
+import { createMockRouter, createMockValue } from '../../src/mock.js';
+import { defineSecuritySchemes } from '../../src/security.js';
+import * as v from 'valibot';
+
+const User = v.object({
+  id: v.pipe(v.number(), v.integer(), v.minValue(1)),
+  email: v.pipe(v.string(), v.email()),
+  role: v.picklist(['admin', 'member']),
+  tags: v.array(v.string()),
+  nickname: v.nullable(v.string()),
+});
+
+const contract = createContract({
+  listUsers: {
+    path: '/users',
+    method: 'GET',
+    query: v.object({ limit: v.optional(v.number()) }),
+    responses: {
+      200: {
+        'application/json': {
+          body: v.array(User),
+          headers: v.object({ 'x-total-count': v.string() }),
+        },
+        'text/plain': { body: v.string() },
+      },
+      500: { 'application/json': { body: v.object({ error: v.string() }) } },
+    },
+  },
+  createUser: {
+    path: '/users',
+    method: 'POST',
+    requests: { 'application/json': { body: v.object({ email: v.pipe(v.string(), v.email()) }) } },
+    responses: {
+      201: { 'application/json': { body: User } },
+      400: { 'application/json': { body: v.object({ error: v.string() }) } },
+    },
+  },
+  deleteUser: {
+    path: '/users/:id',
+    method: 'DELETE',
+    security: [{ bearer: [] }],
+    responses: { 204: { 'application/json': { body: v.never() } } },
+  },
+});
+
+describe('createMockValue', () => {
+  test('should generate values honouring types, formats and constraints', async () => {
+    expect(await createMockValue(User)).toEqual({
+      id: 1,
+      email: 'user@example.com',
+      role: 'admin',
+      tags: ['string'],
+      nickname: 'string',
+    });
+    expect(await createMockValue(v.pipe(v.string(), v.minLength(8)))).toBe('stringxx');
+    expect(await createMockValue(v.tuple([v.boolean(), v.literal('x')]))).toEqual([true, 'x']);
+  });
+
+  test('should prefer examples and defaults', async () => {
+    expect(await createMockValue(v.pipe(v.string(), v.examples(['Ada'])))).toBe('Ada');
+    expect(await createMockValue(v.optional(v.number(), 5))).toBe(5);
+  });
+});
+
+describe('createMockRouter', () => {
+  test('should answer with generated data for the lowest 2xx status', async () => {
+    const router = createMockRouter(contract);
+
+    const response = await router.fetch(new Request('http://localhost/users'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-total-count')).toBe('string');
+    expect(await response.json()).toEqual([
+      { id: 1, email: 'user@example.com', role: 'admin', tags: ['string'], nickname: 'string' },
+    ]);
+
+    const deleted = await router.fetch(
+      new Request('http://localhost/users/1', { method: 'DELETE' })
+    );
+    expect(deleted.status).toBe(204);
+  });
+
+  test('should pick the content type from the Accept header or options', async () => {
+    const router = createMockRouter(contract);
+    const text = await router.fetch(
+      new Request('http://localhost/users', { headers: { accept: 'text/plain' } })
+    );
+    expect(text.headers.get('content-type')).toBe('text/plain');
+    expect(await text.text()).toBe('string');
+
+    const configured = createMockRouter(contract, {
+      responses: { listUsers: { contentType: 'text/plain' } },
+    });
+    expect(await (await configured.fetch(new Request('http://localhost/users'))).text()).toBe(
+      'string'
+    );
+  });
+
+  test('should validate requests like the real router', async () => {
+    const router = createMockRouter(contract);
+    const response = await router.fetch(
+      new Request('http://localhost/users', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email: 'not-an-email' }),
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+
+  test('should force statuses via options and the status header', async () => {
+    const router = createMockRouter(contract, {
+      responses: { createUser: { status: 400 } },
+    });
+    const request = () =>
+      new Request('http://localhost/users', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email: 'ada@example.com' }),
+      });
+
+    const configured = await router.fetch(request());
+    expect(configured.status).toBe(400);
+    expect(await configured.json()).toEqual({ error: 'string' });
+
+    const forced = await router.fetch(
+      new Request('http://localhost/users', { headers: { 'x-mock-status': '500' } })
+    );
+    expect(forced.status).toBe(500);
+    expect(await forced.json()).toEqual({ error: 'string' });
+
+    const undeclared = await router.fetch(
+      new Request('http://localhost/users', { headers: { 'x-mock-status': '503' } })
+    );
+    expect(undeclared.status).toBe(503);
+  });
+
+  test('should reject forced statuses outside 200-599 with 400', async () => {
+    const router = createMockRouter(contract);
+
+    for (const value of ['abc', '0', '100', '404.5', '600', '1e3']) {
+      const response = await router.fetch(
+        new Request('http://localhost/users', { headers: { 'x-mock-status': value } })
+      );
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: 'Invalid x-mock-status' });
+    }
+  });
+
+  test('should run overrides instead of mocked responses', async () => {
+    const router = createMockRouter(contract, {
+      overrides: {
+        listUsers: async (request) =>
+          request.respond({
+            status: 200,
+            contentType: 'text/plain',
+            body: `limit=${request.validatedQuery.limit}`,
+          }),
+      },
+    });
+    const response = await router.fetch(new Request('http://localhost/users?limit=5'));
+    expect(await response.text()).toBe('limit=5');
+  });
+
+  test('should enforce security only when schemes are given', async () => {
+    const router = createMockRouter(contract, {
+      securitySchemes: defineSecuritySchemes({
+        bearer: {
+          type: 'http',
+          scheme: 'bearer',
+          verify: (token) => (token === 'secret' ? { id: 1 } : null),
+        },
+      }),
+    });
+    const unauthorized = await router.fetch(
+      new Request('http://localhost/users/1', { method: 'DELETE' })
+    );
+    expect(unauthorized.status).toBe(401);
+
+    const authorized = await router.fetch(
+      new Request('http://localhost/users/1', {
+        method: 'DELETE',
+        headers: { authorization: 'Bearer secret' },
+      })
+    );
+    expect(authorized.status).toBe(204);
+  });
+});
@@ -754,4 +754,230 @@ describe('OpenAPI Specification Generation', () => {
     const customFieldSchema = schema?.properties?.customField as OpenAPIV3_1.SchemaObject;
     expect(customFieldSchema?.pattern).toBeDefined();
   });
+
+  test('should emit form request bodies and mark multipart file fields as binary', async () => {
+    const contract = createContract({
+      uploadFile: {
+        path: '/files',
+        method: 'POST',
+        requests: {
+          'application/x-www-form-urlencoded': {
+            body: v.object({ description: v.string() }),
+          },
+          'multipart/form-data': {
+            body: v.object({
+              file: v.file(),
+              attachments: v.array(v.instance(Blob)),
+              description: v.optional(v.string()),
+            }),
+          },
+        },
+        responses: {
+          201: { 'application/json': { body: v.object({ id: v.string() }) } },
+        },
+      },
+    });
+
+    const spec = await createOpenApiSpecification(contract, {
+      title: 'Test API',
+      version: '1.0.0',
+    });
+
+    const content = spec.paths?.['/files']?.post?.requestBody?.content;
+    expect(Object.keys(content ?? {})).toEqual([
+      'application/x-www-form-urlencoded',
+      'multipart/form-data',
+    ]);
+
+    const schemaId = content?.['multipart/form-data']?.schema?.$ref?.replace(
+      '#/components/schemas/',
+      ''
+    );
+    const schema = spec.components?.schemas?.[schemaId!];
+    expect(schema?.properties?.file).toEqual({ type: 'string', format: 'binary' });
+    expect((schema?.properties?.attachments as OpenAPIV3_1.ArraySchemaObject).items).toEqual({
+      type: 'string',
+      format: 'binary',
+    });
+    expect(schema?.properties?.description).toEqual({ type: 'string' });
+  });
+
+  test('should not leak multipart file markers into other uses of the schema', async () => {
+    const Upload = v.object({ file: v.file(), description: v.string() });
+    const multipart = createContract({
+      upload: {
+        path: '/files',
+        method: 'POST',
+        requests: { 'multipart/form-data': { body: Upload } },
+        responses: { 201: { 'application/json': { body: v.object({ id: v.string() }) } } },
+      },
+    });
+    const json = createContract({
+      upload: {
+        path: '/files',
+        method: 'POST',
+        requests: { 'application/json': { body: Upload } },
+        responses: { 201: { 'application/json': { body: v.object({ id: v.string() }) } } },
+      },
+    });
+
+    const first = await createOpenApiSpecification(multipart, { title: 'Test API' });
+    const second = await createOpenApiSpecification(json, { title: 'Test API' });
+
+    const schemaOf = (spec: OpenAPIV3_1.Document, contentType: string) => {
+      const ref = (spec.paths?.['/files']?.post?.requestBody as OpenAPIV3_1.RequestBodyObject)
+        .content[contentType]!.schema as OpenAPIV3_1.ReferenceObject;
+      return spec.components!.schemas![ref.$ref.replace('#/components/schemas/', '')]!;
+    };
+    expect(schemaOf(first, 'multipart/form-data').properties?.file).toEqual({
+      type: 'string',
+      format: 'binary',
+    });
+    expect(schemaOf(second, 'application/json').properties?.file).toEqual({});
+  });
+
+  test('should keep multipart file markers out of JSON uses in the same contract', async () => {
+    const Upload = v.object({ file: v.file(), description: v.string() });
+    const contract = createContract({
+      upload: {
+        path: '/files',
+        method: 'POST',
+        requests: {
+          'multipart/form-data': { body: Upload },
+          'application/json': { body: Upload },
+        },
+        responses: { 201: { 'application/json': { body: Upload } } },
+      },
+    });
+
+    const spec = await createOpenApiSpecification(contract, { title: 'Test API' });
+    const operation = spec.paths?.['/files']?.post;
+    const resolve = (schema: unknown) =>
+      spec.components!.schemas![
+        (schema as OpenAPIV3_1.ReferenceObject).$ref.replace('#/components/schemas/', '')
+      ]!;
+    const content = (operation?.requestBody as OpenAPIV3_1.RequestBodyObject).content;
+    const response = operation?.responses?.[201] as OpenAPIV3_1.ResponseObject;
+
+    expect(resolve(content['multipart/form-data']!.schema).properties?.file).toEqual({
+      type: 'string',
+      format: 'binary',
+    });
+    expect(resolve(content['application/json']!.schema).properties?.file).toEqual({});
+    expect(resolve(response.content!['application/json']!.schema).properties?.file).toEqual({});
+  });
+
+  test('should convert optional, constrained and rest path params', async () => {
+    const contract = createContract({
+      getItem: {
+        operationId: 'getItem',
+        path: '/v:version/items/:id(\\d+)?',
+        method: 'GET',
+        responses: { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } },
+      },
+      getBlob: {
+        operationId: 'getBlob',
+        path: '/blobs/:path+',
+        method: 'GET',
+        responses: { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } },
+      },
+    });
+
+    const spec = await createOpenApiSpecification(contract, { title: 'Test', version: '1.0.0' });
+
+    expect(Object.keys(spec.paths ?? {})).toEqual([
+      '/v{version}/items/{id}',
+      '/v{version}/items',
+      '/blobs/{path}',
+    ]);
+
+    const full = spec.paths?.['/v{version}/items/{id}']?.get;
+    expect(full?.operationId).toBe('getItem');
+    expect(full?.parameters).toEqual([
+      { name: 'version', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^(?:\\d+)$' } },
+    ]);
+
+    const short = spec.paths?.['/v{version}/items']?.get;
+    expect(short?.operationId).toBeUndefined();
+    expect(short?.parameters).toEqual([
+      { name: 'version', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
+  test('should pass operation, response and document metadata through', async () => {
+    const User = v.object({ id: v.string() });
+    const contract = createContract({
+      createUser: {
+        path: '/users',
+        method: 'POST',
+        externalDocs: { url: 'https://example.com/docs/users', description: 'User guide' },
+        callbacks: {
+          onCreated: {
+            '{$request.body#/callbackUrl}': {
+              post: { responses: { 200: { description: 'Callback received' } } },
+            },
+          },
+        },
+        extensions: { 'x-internal': true },
+        requests: {
+          'application/json': {
+            body: v.object({ name: v.string() }),
+            examples: { ada: { summary: 'Ada', value: { name: 'Ada' } } },
+          },
+        },
+        responses: {
+          201: {
+            'application/json': {
+              body: User,
+              description: 'The created user',
+              examples: { created: { value: { id: '1' } } },
+              links: {
+                getUser: { operationId: 'getUser', parameters: { id: '$response.body#/id' } },
+              },
+              extensions: { 'x-cache': 'none' },
+            },
+            'text/plain': { body: v.string(), description: 'Ignored - the first one wins' },
+          },
+          404: { 'application/json': { body: v.object({ error: v.string() }) } },
+        },
+      },
+    });
+
+    const spec = await createOpenApiSpecification(contract, {
+      title: 'Test',
+      externalDocs: { url: 'https://example.com/docs' },
+      extensions: { 'x-logo': { url: 'https://example.com/logo.png' } },
+    });
+    expect(spec.externalDocs).toEqual({ url: 'https://example.com/docs' });
+    expect((spec as Record<string, unknown>)['x-logo']).toEqual({
+      url: 'https://example.com/logo.png',
+    });
+
+    const operation = spec.paths?.['/users']?.post as OpenAPIV3_1.OperationObject &
+      Record<string, unknown>;
+    expect(operation.externalDocs).toEqual({
+      url: 'https://example.com/docs/users',
+      description: 'User guide',
+    });
+    expect(operation.callbacks).toEqual(contract.createUser.callbacks);
+    expect(operation['x-internal']).toBe(true);
+    expect(
+      (operation.requestBody as OpenAPIV3_1.RequestBodyObject).content['application/json'].examples
+    ).toEqual({ ada: { summary: 'Ada', value: { name: 'Ada' } } });
+
+    const created = operation.responses?.['201'] as OpenAPIV3_1.ResponseObject &
+      Record<string, unknown>;
+    expect(created.description).toBe('The created user');
+    expect(created.content?.['application/json'].examples).toEqual({
+      created: { value: { id: '1' } },
+    });
+    expect(created.links).toEqual({
+      getUser: { operationId: 'getUser', parameters: { id: '$response.body#/id' } },
+    });
+    expect(created['x-cache']).toBe('none');
+    expect((operation.responses?.['404'] as OpenAPIV3_1.ResponseObject).description).toBe(
+      'Not Found'
+    );
+  });
 });
@@ -0,0 +1,166 @@
+import { test, expect, describe } from 'vitest';
+import { coerceQuery } from '../../src/query.js';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import * as v from 'valibot';
+import { z } from 'zod';
+
+describe('coerceQuery', () => {
+  test('should coerce numbers, integers and booleans', async () => {
+    const schema = v.object({
+      page: v.pipe(v.number(), v.integer()),
+      ratio: v.number(),
+      active: v.boolean(),
+      name: v.string(),
+    });
+
+    const query = await coerceQuery(schema, {
+      page: '2',
+      ratio: '0.5',
+      active: 'false',
+      name: '42',
+    });
+
+    expect(query).toEqual({ page: 2, ratio: 0.5, active: false, name: '42' });
+  });
+
+  test('should leave values that cannot be coerced untouched', async () => {
+    const schema = v.object({ page: v.number(), active: v.boolean() });
+
+    const query = await coerceQuery(schema, { page: 'abc', active: 'yes' });
+
+    expect(query).toEqual({ page: 'abc', active: 'yes' });
+  });
+
+  test('should collect arrays from repeated and single keys', async () => {
+    const schema = z.object({ tag: z.array(z.string()), id: z.array(z.number()) });
+
+    expect(await coerceQuery(schema, { tag: ['a', 'b'], id: '1' })).toEqual({
+      tag: ['a', 'b'],
+      id: [1],
+    });
+  });
+
+  test('should use the last value for repeated scalar keys', async () => {
+    const schema = v.object({ page: v.number() });
+
+    expect(await coerceQuery(schema, { page: ['1', '3'] })).toEqual({ page: 3 });
+  });
+
+  test('should split delimited arrays according to the declared style', async () => {
+    const schema = v.object({
+      form: v.array(v.number()),
+      space: v.array(v.string()),
+      pipe: v.array(v.string()),
+    });
+
+    const query = await coerceQuery(
+      schema,
+      { form: '1,2,3', space: 'a b', pipe: 'x|y' },
+      {
+        form: { style: 'form', explode: false },
+        space: { style: 'spaceDelimited' },
+        pipe: { style: 'pipeDelimited' },
+      }
+    );
+
+    expect(query).toEqual({ form: [1, 2, 3], space: ['a', 'b'], pipe: ['x', 'y'] });
+  });
+
+  test('should collect deepObject parameters', async () => {
+    const schema = z.object({
+      filter: z.object({ status: z.string(), minPrice: z.number().optional() }).optional(),
+    });
+
+    const query = await coerceQuery(schema, {
+      'filter[status]': 'active',
+      'filter[minPrice]': '10',
+    });
+
+    expect(query).toEqual({ filter: { status: 'active', minPrice: 10 } });
+  });
+
+  test('should keep optional and nullable properties coercible', async () => {
+    const schema = z.object({ limit: z.number().nullable().optional() });
+
+    expect(await coerceQuery(schema, { limit: '5' })).toEqual({ limit: 5 });
+  });
+});
+
+describe('createRouter query coercion', () => {
+  test('should validate coerced query parameters', async () => {
+    const contract = createContract({
+      searchProducts: {
+        operationId: 'searchProducts',
+        path: '/products',
+        method: 'GET',
+        query: v.object({
+          page: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+          tag: v.optional(v.array(v.string())),
+          inStock: v.optional(v.boolean()),
+        }),
+        responses: {
+          200: {
+            'application/json': {
+              body: v.object({
+                page: v.optional(v.number()),
+                tag: v.optional(v.array(v.string())),
+                inStock: v.optional(v.boolean()),
+              }),
+            },
+          },
+        },
+      },
+    });
+
+    const router = createRouter({
+      contract,
+      handlers: {
+        searchProducts: async (request) =>
+          request.respond({
+            status: 200,
+            contentType: 'application/json',
+            body: request.validatedQuery,
+          }),
+      },
+    });
+
+    const ok = await router.fetch(
+      new Request('http://localhost/products?page=2&tag=a&tag=b&inStock=true')
+    );
+    expect(await ok.json()).toEqual({ page: 2, tag: ['a', 'b'], inStock: true });
+
+    const invalid = await router.fetch(new Request('http://localhost/products?page=zero'));
+    expect(invalid.status).toBe(400);
+  });
+});
+
+describe('OpenAPI query styles', () => {
+  test('should emit style and explode for query parameters', async () => {
+    const contract = createContract({
+      searchProducts: {
+        path: '/products',
+        method: 'GET',
+        query: v.object({
+          ids: v.array(v.number()),
+          filter: v.optional(v.object({ status: v.string() })),
+        }),
+        queryStyles: { ids: { style: 'form', explode: false } },
+        responses: { 200: { 'application/json': { body: v.object({}) } } },
+      },
+    });
+
+    const spec = await createOpenApiSpecification(contract, { title: 'Test', version: '1.0.0' });
+    const parameters = spec.paths?.['/products']?.get?.parameters as any[];
+
+    expect(parameters.find((p) => p.name === 'ids')).toMatchObject({
+      style: 'form',
+      explode: false,
+    });
+    expect(parameters.find((p) => p.name === 'filter')).toMatchObject({
+      style: 'deepObject',
+      explode: true,
+    });
+  });
+});
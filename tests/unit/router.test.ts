@@ -1,6 +1,6 @@
 import { test, expect } from 'vitest';
 import { createRouter } from '../../src/router.js';
-import { createContract } from '../../src/contract.js';
+import { createContract, defineOperationMiddleware } from '../../src/contract.js';
 import type { ContractDefinition } from '../../src/types.js';
 import * as v from 'valibot';
 
@@ -123,6 +123,7 @@ test('createRouter should handle missing routes with default 404', async () => {
   const response = await router.fetch(request);
 
   expect(response.status).toBe(404);
+  expect(await response.json()).toEqual({ status: 404, error: 'Not Found' });
 });
 
 test('createRouter should use custom missing handler', async () => {
@@ -230,3 +231,526 @@ test('createRouter should skip operations without handlers', () => {
   expect(router).toBeDefined();
   // Router should still be created even if some handlers are missing
 });
+
+test('createRouter should return 500 when validateResponses is throw and the response drifts', async () => {
+  const contract = createContract({
+    getUsers: {
+      operationId: 'getUsers',
+      path: '/users',
+      method: 'GET',
+      responses: {
+        200: { 'application/json': { body: v.object({ users: v.array(v.string()) }) } },
+      },
+    },
+  });
+
+  const router = createRouter({
+    contract,
+    validateResponses: 'throw',
+    handlers: {
+      getUsers: async () => ({ status: 200, body: { users: [1, 2] } }) as any,
+    },
+  });
+
+  const response = await router.fetch(new Request('http://localhost/users'));
+  const body = await response.json();
+
+  expect(response.status).toBe(500);
+  expect(body.error).toBe('Response validation failed');
+  expect(body.details[0].path[0]).toBe('body');
+});
+
+test('createRouter should run the rest of the finally chain for invalid responses in throw mode', async () => {
+  const contract = createContract({
+    getUsers: {
+      operationId: 'getUsers',
+      path: '/users',
+      method: 'GET',
+      responses: {
+        200: { 'application/json': { body: v.object({ users: v.array(v.string()) }) } },
+      },
+    },
+  });
+
+  const router = createRouter({
+    contract,
+    validateResponses: 'throw',
+    errors: 'problem+json',
+    cors: { origin: 'https://app.example.com' },
+    finally: [
+      (response: Response) => {
+        const headers = new Headers(response.headers);
+        headers.set('x-finally', 'ran');
+        return new Response(response.body, { status: response.status, headers });
+      },
+    ],
+    handlers: {
+      getUsers: async () => ({ status: 200, body: { users: [1, 2] } }) as any,
+    },
+  });
+
+  const response = await router.fetch(
+    new Request('http://localhost/users', { headers: { origin: 'https://app.example.com' } })
+  );
+
+  expect(response.status).toBe(500);
+  expect(response.headers.get('content-type')).toBe('application/problem+json');
+  expect(response.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+  expect(response.headers.get('x-finally')).toBe('ran');
+});
+
+test('createRouter should send valid responses when validateResponses is throw', async () => {
+  const contract = createContract({
+    getUsers: {
+      operationId: 'getUsers',
+      path: '/users',
+      method: 'GET',
+      responses: {
+        200: { 'application/json': { body: v.object({ users: v.array(v.string()) }) } },
+      },
+    },
+  });
+
+  const router = createRouter({
+    contract,
+    validateResponses: 'throw',
+    handlers: {
+      getUsers: async (request) =>
+        request.respond({ status: 200, contentType: 'application/json', body: { users: ['a'] } }),
+    },
+  });
+
+  const response = await router.fetch(new Request('http://localhost/users'));
+
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ users: ['a'] });
+});
+
+test('createRouter should negotiate the response content type from the Accept header', async () => {
+  const contract = createContract({
+    getGreeting: {
+      operationId: 'getGreeting',
+      path: '/greeting',
+      method: 'GET',
+      responses: {
+        200: {
+          'application/json': { body: v.object({ message: v.string() }) },
+          'text/plain': { body: v.string() },
+        },
+      },
+    },
+  });
+
+  const router = createRouter({
+    contract,
+    handlers: {
+      getGreeting: async (request) =>
+        request.preferredContentType === 'text/plain'
+          ? request.respond({ status: 200, contentType: 'text/plain', body: 'hello' })
+          : request.respond({
+              status: 200,
+              contentType: 'application/json',
+              body: { message: 'hello' },
+            }),
+    },
+  });
+
+  const text = await router.fetch(
+    new Request('http://localhost/greeting', { headers: { accept: 'text/plain' } })
+  );
+  expect(await text.text()).toBe('hello');
+
+  const json = await router.fetch(new Request('http://localhost/greeting'));
+  expect(await json.json()).toEqual({ message: 'hello' });
+
+  const notAcceptable = await router.fetch(
+    new Request('http://localhost/greeting', { headers: { accept: 'image/png' } })
+  );
+  expect(notAcceptable.status).toBe(406);
+});
+
+const requireUser = defineOperationMiddleware((request) => {
+  const token = request.headers.get('authorization');
+  if (!token) {
+    return request.respond({
+      status: 401,
+      contentType: 'application/json',
+      body: { error: 'Unauthorized' },
+    });
+  }
+  return { user: { id: token } };
+});
+
+const middlewareContract = createContract({
+  getProfile: {
+    operationId: 'getProfile',
+    path: '/me',
+    method: 'GET',
+    middleware: [requireUser],
+    responses: {
+      200: { 'application/json': { body: v.object({ id: v.string(), beta: v.boolean() }) } },
+      401: { 'application/json': { body: v.object({ error: v.string() }) } },
+      503: { 'application/json': { body: v.object({ error: v.string() }) } },
+    },
+  },
+  getStatus: {
+    operationId: 'getStatus',
+    path: '/status',
+    method: 'GET',
+    responses: {
+      200: { 'application/json': { body: v.object({ ok: v.boolean() }) } },
+    },
+  },
+});
+
+test('createRouter should add middleware fields to the request and run handler middleware in order', async () => {
+  const calls: string[] = [];
+  const router = createRouter({
+    contract: middlewareContract,
+    handlers: {
+      getProfile: {
+        middleware: [
+          () => {
+            calls.push('handler middleware');
+            return { beta: true };
+          },
+        ],
+        handler: async (request) => {
+          calls.push('handler');
+          return request.respond({
+            status: 200,
+            contentType: 'application/json',
+            body: { id: request.user.id, beta: (request as any).beta },
+          });
+        },
+      },
+    },
+  });
+
+  const response = await router.fetch(
+    new Request('http://localhost/me', { headers: { authorization: 'u1' } })
+  );
+
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ id: 'u1', beta: true });
+  expect(calls).toEqual(['handler middleware', 'handler']);
+});
+
+test('createRouter should short-circuit the handler when middleware returns a response', async () => {
+  let handled = false;
+  const router = createRouter({
+    contract: middlewareContract,
+    handlers: {
+      getProfile: async (request) => {
+        handled = true;
+        return request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { id: request.user.id, beta: false },
+        });
+      },
+      getStatus: {
+        middleware: [
+          (request) =>
+            request.respond({ status: 200, contentType: 'application/json', body: { ok: false } }),
+        ],
+        handler: async (request) =>
+          request.respond({ status: 200, contentType: 'application/json', body: { ok: true } }),
+      },
+    },
+  });
+
+  const unauthorized = await router.fetch(new Request('http://localhost/me'));
+  expect(unauthorized.status).toBe(401);
+  expect(await unauthorized.json()).toEqual({ error: 'Unauthorized' });
+  expect(handled).toBe(false);
+
+  const status = await router.fetch(new Request('http://localhost/status'));
+  expect(await status.json()).toEqual({ ok: false });
+});
+
+test('createRouter should add objects with a status field as middleware fields', async () => {
+  const router = createRouter({
+    contract: middlewareContract,
+    handlers: {
+      getProfile: async (request) =>
+        request.respond({
+          status: 503,
+          contentType: 'application/json',
+          body: { error: 'unused' },
+        }),
+      getStatus: {
+        middleware: [() => ({ status: 1, user: 'u1' })],
+        handler: async (request) =>
+          request.respond({
+            status: 200,
+            contentType: 'application/json',
+            body: { ok: (request as any).status === 1 && (request as any).user === 'u1' },
+          }),
+      },
+    },
+  });
+
+  const response = await router.fetch(new Request('http://localhost/status'));
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ ok: true });
+});
+
+test('createRouter should accept raw Response objects from per-operation middleware', async () => {
+  const router = createRouter({
+    contract: middlewareContract,
+    handlers: {
+      getStatus: {
+        middleware: [() => new Response('maintenance', { status: 503 })],
+        handler: async (request) =>
+          request.respond({ status: 200, contentType: 'application/json', body: { ok: true } }),
+      },
+    },
+  });
+
+  const response = await router.fetch(new Request('http://localhost/status'));
+
+  expect(response.status).toBe(503);
+  expect(await response.text()).toBe('maintenance');
+});
+
+test('createRouter should route constrained, optional and rest path params', async () => {
+  const contract = createContract({
+    getUser: {
+      path: '/users/:id(\\d+)',
+      method: 'GET',
+      responses: { 200: { 'application/json': { body: v.object({ id: v.string() }) } } },
+    },
+    listItems: {
+      path: '/items/:page?',
+      method: 'GET',
+      responses: { 200: { 'application/json': { body: v.object({ page: v.string() }) } } },
+    },
+    getBlob: {
+      path: '/blobs/:path+',
+      method: 'GET',
+      responses: { 200: { 'application/json': { body: v.object({ path: v.string() }) } } },
+    },
+  });
+  const router = createRouter({
+    contract,
+    handlers: {
+      getUser: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { id: request.validatedParams.id },
+        }),
+      listItems: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { page: request.validatedParams.page ?? 'first' },
+        }),
+      getBlob: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { path: request.params.path },
+        }),
+    },
+  });
+  const get = async (path: string) => {
+    const response = await router.fetch(new Request(`http://localhost${path}`));
+    return {
+      status: response.status,
+      body: response.status === 200 ? await response.json() : null,
+    };
+  };
+
+  expect(await get('/users/42')).toEqual({ status: 200, body: { id: '42' } });
+  expect((await get('/users/alice')).status).toBe(404);
+  expect(await get('/items')).toEqual({ status: 200, body: { page: 'first' } });
+  expect(await get('/items/3')).toEqual({ status: 200, body: { page: '3' } });
+  expect(await get('/blobs/a/b.txt')).toEqual({ status: 200, body: { path: 'a/b.txt' } });
+});
+
+const methodsContract = createContract({
+  getUser: {
+    path: '/users/:id',
+    method: 'GET',
+    responses: {
+      200: {
+        'application/json': {
+          body: v.object({ id: v.string() }),
+          headers: v.object({ etag: v.string() }),
+        },
+      },
+    },
+  },
+  updateUser: {
+    path: '/users/:id',
+    method: 'PATCH',
+    headers: v.object({ 'If-Match': v.string() }),
+    requests: { 'application/json': { body: v.object({ name: v.string() }) } },
+    security: [{ bearerAuth: [] }],
+    responses: { 200: { 'application/json': { body: v.object({ id: v.string() }) } } },
+  },
+});
+
+const createMethodsRouter = (cors?: Parameters<typeof createRouter>[0]['cors']) =>
+  createRouter({
+    contract: methodsContract,
+    cors,
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', verify: (token: string) => ({ token }) },
+    },
+    handlers: {
+      getUser: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { id: request.params.id },
+          headers: { etag: '"v1"' },
+        }),
+    },
+  });
+
+test('createRouter should answer HEAD from the GET handler without a body', async () => {
+  const response = await createMethodsRouter().fetch(
+    new Request('http://localhost/users/1', { method: 'HEAD' })
+  );
+
+  expect(response.status).toBe(200);
+  expect(response.headers.get('etag')).toBe('"v1"');
+  expect(response.headers.get('content-type')).toBe('application/json');
+  expect(await response.text()).toBe('');
+});
+
+test('createRouter should answer OPTIONS and reject undeclared methods with 405', async () => {
+  const router = createMethodsRouter();
+
+  const options = await router.fetch(
+    new Request('http://localhost/users/1', { method: 'OPTIONS' })
+  );
+  expect(options.status).toBe(204);
+  expect(options.headers.get('allow')).toBe('GET, PATCH, HEAD, OPTIONS');
+
+  const deleted = await router.fetch(new Request('http://localhost/users/1', { method: 'DELETE' }));
+  expect(deleted.status).toBe(405);
+  expect(deleted.headers.get('allow')).toBe('GET, PATCH, HEAD, OPTIONS');
+
+  const missing = await router.fetch(new Request('http://localhost/teams', { method: 'DELETE' }));
+  expect(missing.status).toBe(404);
+});
+
+test('createRouter should render 404 and 405 with the configured error format', async () => {
+  const router = createRouter({
+    contract: createContract({
+      getUser: {
+        path: '/users/:id',
+        method: 'GET',
+        responses: { 200: { 'application/json': { body: v.object({ id: v.string() }) } } },
+      },
+    }),
+    errors: 'problem+json',
+    handlers: {
+      getUser: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/json',
+          body: { id: request.validatedParams.id },
+        }),
+    },
+  });
+
+  const missing = await router.fetch(new Request('http://localhost/teams'));
+  expect(missing.status).toBe(404);
+  expect(missing.headers.get('content-type')).toBe('application/problem+json');
+  expect(await missing.json()).toMatchObject({ status: 404, title: 'Not Found' });
+
+  const notAllowed = await router.fetch(
+    new Request('http://localhost/users/1', { method: 'DELETE' })
+  );
+  expect(notAllowed.status).toBe(405);
+  expect(notAllowed.headers.get('content-type')).toBe('application/problem+json');
+  expect(await notAllowed.json()).toMatchObject({ status: 405 });
+});
+
+test('createRouter should build CORS preflights from the contract', async () => {
+  const router = createMethodsRouter({
+    origin: ['https://app.example.com'],
+    credentials: true,
+    maxAge: 600,
+    exposeHeaders: ['etag'],
+  });
+  const preflight = (origin: string) =>
+    router.fetch(
+      new Request('http://localhost/users/1', {
+        method: 'OPTIONS',
+        headers: { origin, 'access-control-request-method': 'PATCH' },
+      })
+    );
+
+  const allowed = await preflight('https://app.example.com');
+  expect(allowed.status).toBe(204);
+  expect(Object.fromEntries(allowed.headers)).toMatchObject({
+    'access-control-allow-origin': 'https://app.example.com',
+    'access-control-allow-methods': 'GET, PATCH, HEAD, OPTIONS',
+    'access-control-allow-headers': 'content-type, authorization, if-match',
+    'access-control-allow-credentials': 'true',
+    'access-control-max-age': '600',
+    vary: 'Origin',
+  });
+
+  const rejected = await preflight('https://evil.example.com');
+  expect(rejected.status).toBe(204);
+  expect(rejected.headers.has('access-control-allow-origin')).toBe(false);
+
+  const response = await router.fetch(
+    new Request('http://localhost/users/1', { headers: { origin: 'https://app.example.com' } })
+  );
+  expect(response.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+  expect(response.headers.get('access-control-expose-headers')).toBe('etag');
+});
+
+test('createRouter should allow the headers of the required security schemes in preflights', async () => {
+  const router = createRouter({
+    contract: createContract({
+      listReports: {
+        path: '/reports',
+        method: 'GET',
+        security: [{ apiKey: [] }],
+        responses: { 200: { 'application/json': { body: v.array(v.string()) } } },
+      },
+    }),
+    cors: true,
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', verify: (key: string) => key },
+    },
+    handlers: {
+      listReports: async (request) =>
+        request.respond({ status: 200, contentType: 'application/json', body: [] }),
+    },
+  });
+
+  const preflight = await router.fetch(
+    new Request('http://localhost/reports', {
+      method: 'OPTIONS',
+      headers: {
+        origin: 'https://app.example.com',
+        'access-control-request-method': 'GET',
+        'access-control-request-headers': 'x-api-key',
+      },
+    })
+  );
+  expect(preflight.status).toBe(204);
+  expect(preflight.headers.get('access-control-allow-headers')).toBe('x-api-key');
+});
+
+test('createRouter should add CORS headers to error responses', async () => {
+  const response = await createMethodsRouter(true).fetch(
+    new Request('http://localhost/users/1', {
+      method: 'DELETE',
+      headers: { origin: 'https://app.example.com' },
+    })
+  );
+
+  expect(response.status).toBe(405);
+  expect(response.headers.get('access-control-allow-origin')).toBe('*');
+});
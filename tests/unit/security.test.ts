@@ -0,0 +1,224 @@
+import { test, expect, describe } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import { defineSecuritySchemes } from '../../src/security.js';
+import * as v from 'valibot';
+
+const users: Record<string, { id: string; scopes: string[] }> = {
+  'token-reader': { id: 'reader', scopes: ['users:read'] },
+  'token-admin': { id: 'admin', scopes: ['users:read', 'users:write'] },
+};
+
+const securitySchemes = defineSecuritySchemes({
+  bearerAuth: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    verify: async (token) => users[token] ?? null,
+  },
+  basicAuth: {
+    type: 'http',
+    scheme: 'basic',
+    verify: ({ username, password }) =>
+      username === 'admin' && password === 'secret' ? { id: username, scopes: [] } : null,
+  },
+  apiKey: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'x-api-key',
+    verify: (key) => (key === 'key-1' ? { id: 'service', scopes: [] } : null),
+  },
+  sessionCookie: {
+    type: 'apiKey',
+    in: 'cookie',
+    name: 'session',
+    verify: (session) => (session === 's1' ? { id: 'cookie-user', scopes: [] } : null),
+  },
+  queryKey: {
+    type: 'apiKey',
+    in: 'query',
+    name: 'api_key',
+    verify: (key) => (key === 'q1' ? { id: 'query-user', scopes: [] } : null),
+  },
+});
+
+const principalBody = v.object({ id: v.string() });
+
+const contract = createContract({
+  getMe: {
+    operationId: 'getMe',
+    path: '/me',
+    method: 'GET',
+    security: [{ bearerAuth: [] }, { basicAuth: [] }, { sessionCookie: [] }, { queryKey: [] }],
+    responses: { 200: { 'application/json': { body: principalBody } } },
+  },
+  deleteUser: {
+    operationId: 'deleteUser',
+    path: '/users/:id',
+    method: 'DELETE',
+    security: [{ bearerAuth: ['users:write'] }],
+    responses: { 200: { 'application/json': { body: principalBody } } },
+  },
+  internalSync: {
+    operationId: 'internalSync',
+    path: '/internal/sync',
+    method: 'POST',
+    security: [{ apiKey: [] }],
+    responses: { 200: { 'application/json': { body: principalBody } } },
+  },
+  getFeed: {
+    operationId: 'getFeed',
+    path: '/feed',
+    method: 'GET',
+    security: [{ bearerAuth: [] }, {}],
+    responses: { 200: { 'application/json': { body: v.object({ viewer: v.string() }) } } },
+  },
+  health: {
+    operationId: 'health',
+    path: '/health',
+    method: 'GET',
+    responses: { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } },
+  },
+});
+
+const router = createRouter({
+  contract,
+  securitySchemes,
+  handlers: {
+    getMe: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { id: request.auth.id },
+      }),
+    deleteUser: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { id: request.auth.id },
+      }),
+    internalSync: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { id: request.auth.id },
+      }),
+    getFeed: async (request) =>
+      request.respond({
+        status: 200,
+        contentType: 'application/json',
+        body: { viewer: request.auth?.id ?? 'anonymous' },
+      }),
+    health: async (request) =>
+      request.respond({ status: 200, contentType: 'application/json', body: { ok: true } }),
+  },
+});
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const response = await router.fetch(new Request(`http://localhost${url}`, init));
+  return { status: response.status, headers: response.headers, body: await response.json() };
+};
+
+describe('createRouter securitySchemes', () => {
+  test('should inject the principal of a bearer token', async () => {
+    const result = await fetchJson('/me', { headers: { authorization: 'Bearer token-reader' } });
+
+    expect(result.status).toBe(200);
+    expect(result.body).toEqual({ id: 'reader' });
+  });
+
+  test('should accept alternative requirements', async () => {
+    const basic = await fetchJson('/me', {
+      headers: { authorization: `Basic ${btoa('admin:secret')}` },
+    });
+    const cookie = await fetchJson('/me', { headers: { cookie: 'theme=dark; session=s1' } });
+    const query = await fetchJson('/me?api_key=q1');
+
+    expect(basic.body).toEqual({ id: 'admin' });
+    expect(cookie.body).toEqual({ id: 'cookie-user' });
+    expect(query.body).toEqual({ id: 'query-user' });
+  });
+
+  test('should return 401 with a challenge for missing or rejected credentials', async () => {
+    const missing = await fetchJson('/me');
+    const rejected = await fetchJson('/me', { headers: { authorization: 'Bearer nope' } });
+
+    expect(missing.status).toBe(401);
+    expect(missing.body).toEqual({ error: 'Unauthorized', details: [{ message: 'Unauthorized' }] });
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer, Basic');
+    expect(rejected.status).toBe(401);
+  });
+
+  test('should authenticate API keys from headers', async () => {
+    const ok = await fetchJson('/internal/sync', {
+      method: 'POST',
+      headers: { 'x-api-key': 'key-1' },
+    });
+    const missing = await fetchJson('/internal/sync', { method: 'POST' });
+
+    expect(ok.body).toEqual({ id: 'service' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBeNull();
+  });
+
+  test('should return 403 when the principal lacks the required scopes', async () => {
+    const reader = await fetchJson('/users/1', {
+      method: 'DELETE',
+      headers: { authorization: 'Bearer token-reader' },
+    });
+    const admin = await fetchJson('/users/1', {
+      method: 'DELETE',
+      headers: { authorization: 'Bearer token-admin' },
+    });
+
+    expect(reader.status).toBe(403);
+    expect(admin.status).toBe(200);
+  });
+
+  test('should allow anonymous access when a requirement is empty', async () => {
+    expect((await fetchJson('/feed')).body).toEqual({ viewer: 'anonymous' });
+    expect(
+      (await fetchJson('/feed', { headers: { authorization: 'Bearer token-admin' } })).body
+    ).toEqual({ viewer: 'admin' });
+  });
+
+  test('should not check operations without security requirements', async () => {
+    expect((await fetchJson('/health')).status).toBe(200);
+  });
+
+  test('should throw at construction for unknown security schemes', () => {
+    expect(() =>
+      createRouter({
+        contract: {
+          getMe: { ...contract.getMe, security: [{ missingScheme: [] }] },
+        },
+        securitySchemes,
+        handlers: {},
+      })
+    ).toThrow('Operation "getMe" references unknown security scheme "missingScheme"');
+  });
+});
+
+describe('OpenAPI security', () => {
+  test('should emit security schemes and operation requirements', async () => {
+    const spec = await createOpenApiSpecification(contract, {
+      title: 'Test',
+      version: '1.0.0',
+      securitySchemes,
+    });
+
+    expect(spec.components?.securitySchemes).toEqual({
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      basicAuth: { type: 'http', scheme: 'basic' },
+      apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      sessionCookie: { type: 'apiKey', in: 'cookie', name: 'session' },
+      queryKey: { type: 'apiKey', in: 'query', name: 'api_key' },
+    });
+    expect(spec.paths?.['/users/{id}']?.delete?.security).toEqual([
+      { bearerAuth: ['users:write'] },
+    ]);
+    expect(spec.paths?.['/feed']?.get?.security).toEqual([{ bearerAuth: [] }, {}]);
+    expect(spec.paths?.['/health']?.get?.security).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import { test, expect, describe, vi } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createClient } from '../../src/client.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import { formatServerSentEvent, parseStream } from '../../src/streaming.js';
+import * as v from 'valibot';
+
+const Tick = v.object({ n: v.number() });
+
+const contract = createContract({
+  events: {
+    path: '/events',
+    method: 'GET',
+    responses: {
+      200: { 'text/event-stream': { body: Tick, stream: true } },
+    },
+  },
+  export: {
+    path: '/export',
+    method: 'GET',
+    responses: {
+      200: { 'application/x-ndjson': { body: Tick, stream: true } },
+    },
+  },
+  raw: {
+    path: '/raw',
+    method: 'GET',
+    responses: {
+      200: { 'text/plain': { body: v.string(), stream: true } },
+    },
+  },
+});
+
+async function* ticks(count: number, invalidAt?: number) {
+  for (let n = 0; n < count; n++) {
+    yield { n: (n === invalidAt ? 'bad' : n) as number };
+  }
+}
+
+const createStreamingRouter = (validateResponses: 'off' | 'warn' | 'throw' = 'off') =>
+  createRouter({
+    contract,
+    validateResponses,
+    handlers: {
+      events: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'text/event-stream',
+          body: (async function* () {
+            yield { data: { n: 1 }, event: 'tick', id: '1' };
+            for await (const tick of ticks(2, Number(request.query.invalidAt))) {
+              yield { data: tick };
+            }
+          })(),
+        }),
+      export: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'application/x-ndjson',
+          body: ticks(3, Number(request.query.invalidAt)),
+        }),
+      raw: async (request) =>
+        request.respond({
+          status: 200,
+          contentType: 'text/plain',
+          body: new Blob(['hello ', 'world']).stream(),
+        }),
+    },
+  });
+
+describe('formatServerSentEvent', () => {
+  test('should format fields and split multi-line data', () => {
+    expect(formatServerSentEvent({ event: 'tick', id: '7', retry: 1000, data: { n: 1 } })).toBe(
+      'event: tick\nid: 7\nretry: 1000\ndata: {"n":1}\n\n'
+    );
+    expect(formatServerSentEvent({ data: 'a\nb' })).toBe('data: a\ndata: b\n\n');
+  });
+});
+
+describe('parseStream', () => {
+  test('should parse events split across chunks and CRLF line endings', async () => {
+    const chunks = ['event: tick\r', '\ndata: {"n":', '1}\r\n\r\n: comment\n', 'data: plain\n\n'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+        controller.close();
+      },
+    });
+
+    const events = [];
+    for await (const event of parseStream(body, 'text/event-stream')) events.push(event);
+    expect(events).toEqual([{ event: 'tick', data: { n: 1 } }, { data: 'plain' }]);
+  });
+});
+
+describe('streamed responses', () => {
+  test('should send async iterables as Server-Sent Events', async () => {
+    const response = await createStreamingRouter().fetch(new Request('http://localhost/events'));
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(response.headers.get('cache-control')).toBe('no-cache');
+    expect(await response.text()).toBe(
+      'event: tick\nid: 1\ndata: {"n":1}\n\ndata: {"n":0}\n\ndata: {"n":1}\n\n'
+    );
+  });
+
+  test('should send async iterables as NDJSON lines', async () => {
+    const response = await createStreamingRouter().fetch(new Request('http://localhost/export'));
+
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    expect(await response.text()).toBe('{"n":0}\n{"n":1}\n{"n":2}\n');
+  });
+
+  test('should pass ReadableStream bodies through', async () => {
+    const response = await createStreamingRouter().fetch(new Request('http://localhost/raw'));
+    expect(await response.text()).toBe('hello world');
+  });
+
+  test('should validate items as they are streamed', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const warned = await createStreamingRouter('warn').fetch(
+      new Request('http://localhost/export?invalidAt=1')
+    );
+    expect(await warned.text()).toBe('{"n":0}\n{"n":"bad"}\n{"n":2}\n');
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][1]).toMatchObject([{ path: ['body', expect.anything()] }]);
+    warn.mockRestore();
+
+    const thrown = await createStreamingRouter('throw').fetch(
+      new Request('http://localhost/events?invalidAt=1')
+    );
+    expect(thrown.status).toBe(200);
+    await expect(thrown.text()).rejects.toThrow('Response validation failed');
+  });
+
+  test('client should receive streamed items', async () => {
+    const router = createStreamingRouter();
+    const client = createClient(contract, {
+      baseUrl: 'http://localhost',
+      fetch: async (request) => router.fetch(request),
+    });
+
+    const events = await client.events();
+    const received = [];
+    for await (const event of events.body) received.push(event);
+    expect(received).toEqual([
+      { event: 'tick', id: '1', data: { n: 1 } },
+      { data: { n: 0 } },
+      { data: { n: 1 } },
+    ]);
+
+    const lines = [];
+    for await (const line of (await client.export()).body) lines.push(line.n);
+    expect(lines).toEqual([0, 1, 2]);
+  });
+
+  test('should describe item schemas in OpenAPI', async () => {
+    const spec = await createOpenApiSpecification(contract, { title: 'Streams', version: '1.0.0' });
+    const events = spec.paths!['/events']!.get!.responses!['200'] as any;
+    const exported = spec.paths!['/export']!.get!.responses!['200'] as any;
+
+    expect(events.content['text/event-stream'].schema).toBeUndefined();
+    expect(events.content['text/event-stream'].itemSchema).toMatchObject({
+      type: 'object',
+      required: ['data'],
+      properties: {
+        data: { type: 'string', contentMediaType: 'application/json', contentSchema: {} },
+        event: { type: 'string' },
+      },
+    });
+    expect(exported.content['application/x-ndjson'].itemSchema).toBeDefined();
+  });
+});
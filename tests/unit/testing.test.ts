@@ -0,0 +1,104 @@
+import { test, expect, describe } from 'vitest';
+import { createRouter } from '../../src/router.js';
+import { createContract } from '../../src/contract.js';
+import { createTestClient } from '../../src/testing.js';
+import * as v from 'valibot';
+
+const contract = createContract({
+  getUser: {
+    path: '/users/:id',
+    method: 'GET',
+    responses: {
+      200: {
+        'application/json': {
+          body: v.object({ id: v.string(), name: v.string() }),
+          headers: v.object({ 'x-request-id': v.string() }),
+        },
+      },
+      404: { 'application/json': { body: v.object({ error: v.string() }) } },
+    },
+  },
+  createUser: {
+    path: '/users',
+    method: 'POST',
+    requests: { 'application/json': { body: v.object({ name: v.string() }) } },
+    responses: {
+      201: { 'application/json': { body: v.object({ id: v.string(), name: v.string() }) } },
+    },
+  },
+});
+
+const router = createRouter({
+  contract,
+  handlers: {
+    getUser: async (request, env?: { broken?: boolean }) => {
+      if (request.params.id !== '1') {
+        return request.respond({
+          status: 404,
+          contentType: 'application/json',
+          body: { error: 'Not found' },
+        });
+      }
+      return request.respond({
+        status: 200,
+        contentType: 'application/json',
+        // The broken variant violates the contract to exercise expectMatchesContract
+        body: (env?.broken ? { id: 1 } : { id: '1', name: 'Ada' }) as { id: string; name: string },
+        headers: { 'x-request-id': 'abc' },
+      });
+    },
+    createUser: async (request) =>
+      request.respond({
+        status: 201,
+        contentType: 'application/json',
+        body: { id: '2', name: request.validatedBody.name },
+      }),
+  },
+});
+
+describe('createTestClient', () => {
+  test('should call the router with typed inputs and parse responses', async () => {
+    const client = createTestClient(router, contract);
+
+    const user = await client.getUser({ pathParams: { id: '1' } });
+    expect(user.status).toBe(200);
+    expect(user.body).toEqual({ id: '1', name: 'Ada' });
+    expect(user.headers.get('x-request-id')).toBe('abc');
+
+    const created = await client.createUser({ body: { name: 'Grace' } });
+    expect(created.expectStatus(201).body).toEqual({ id: '2', name: 'Grace' });
+  });
+
+  test('expectStatus should report the received status and body', async () => {
+    const client = createTestClient(router, contract);
+    const missing = await client.getUser({ pathParams: { id: '2' } });
+
+    expect(missing.expectStatus(404).body.error).toBe('Not found');
+    expect(() => missing.expectStatus(200)).toThrow(
+      'Expected GET /users/:id to respond with status 200, received 404: {"error":"Not found"}'
+    );
+  });
+
+  test('expectMatchesContract should validate the response against its schemas', async () => {
+    const client = createTestClient(router, contract);
+    const user = await client.getUser({ pathParams: { id: '1' } });
+    await expect(user.expectMatchesContract()).resolves.toBe(user);
+
+    // Extra router arguments (e.g. env) are passed after the request
+    const broken = createTestClient(router, contract, { args: [{ broken: true }] });
+    const invalid = await broken.getUser({ pathParams: { id: '1' } });
+    const error = await invalid.expectMatchesContract().catch((err) => err);
+    expect(error.message).toContain('does not match the contract');
+    expect(error.issues.map((issue: any) => issue.path[0])).toEqual(['body', 'body']);
+  });
+
+  test('expectMatchesContract should reject undeclared statuses', async () => {
+    const client = createTestClient(router, contract);
+    const response = await client.createUser({ body: { name: 1 as unknown as string } });
+
+    expect(response.status).toBe(400);
+    await expect(response.expectMatchesContract()).rejects.toThrow(
+      'Undeclared response status: 400'
+    );
+  });
+});
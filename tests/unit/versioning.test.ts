@@ -0,0 +1,180 @@
+import { test, expect, describe } from 'vitest';
+import { createContract, mergeContracts } from '../../src/contract.js';
+import { createRouter } from '../../src/router.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import { getVersionNames, resolveVersioning } from '../../src/versioning.js';
+import type { VersioningOptions } from '../../src/types.js';
+import * as v from 'valibot';
+
+const versioning: VersioningOptions = {
+  versions: [
+    { name: 'v1', deprecated: '2025-01-01T00:00:00Z', sunset: '2026-01-01T00:00:00Z' },
+    'v2',
+    'v3',
+  ],
+};
+
+const contract = createContract({
+  getUserV1: {
+    path: '/users/:id',
+    method: 'GET',
+    versions: 'v1',
+    responses: { 200: { 'application/json': { body: v.object({ name: v.string() }) } } },
+  },
+  getUser: {
+    path: '/users/:id',
+    method: 'GET',
+    versions: { from: 'v2' },
+    responses: {
+      200: { 'application/json': { body: v.object({ firstName: v.string() }) } },
+    },
+  },
+  deleteUser: {
+    path: '/users/:id',
+    method: 'DELETE',
+    versions: ['v2'],
+    responses: { 204: { 'application/json': { body: v.never() } } },
+  },
+  health: {
+    path: '/health',
+    method: 'GET',
+    responses: { 200: { 'application/json': { body: v.object({ ok: v.boolean() }) } } },
+  },
+});
+
+const router = createRouter({
+  contract,
+  versioning,
+  handlers: {
+    getUserV1: async (request) =>
+      request.respond({ status: 200, contentType: 'application/json', body: { name: 'Ada' } }),
+    getUser: async (request) =>
+      request.respond({ status: 200, contentType: 'application/json', body: { firstName: 'Ada' } }),
+    deleteUser: async (request) =>
+      request.respond({ status: 204, contentType: 'application/json', body: undefined as never }),
+    health: async (request) =>
+      request.respond({ status: 200, contentType: 'application/json', body: { ok: true } }),
+  },
+});
+
+describe('getVersionNames', () => {
+  test('should resolve names, lists and ranges in release order', () => {
+    const resolved = resolveVersioning(versioning);
+    expect(getVersionNames(undefined, resolved)).toEqual(['v1', 'v2', 'v3']);
+    expect(getVersionNames(['v3', 'v1'], resolved)).toEqual(['v1', 'v3']);
+    expect(getVersionNames({ from: 'v2' }, resolved)).toEqual(['v2', 'v3']);
+    expect(getVersionNames({ until: 'v2' }, resolved)).toEqual(['v1', 'v2']);
+    expect(() => getVersionNames('v9', resolved)).toThrow('Unknown API version "v9"');
+  });
+});
+
+describe('versioned router', () => {
+  test('should select the version by URL prefix, header or media type parameter', async () => {
+    const body = async (request: Request) => (await router.fetch(request)).json();
+
+    expect(await body(new Request('http://localhost/v1/users/1'))).toEqual({ name: 'Ada' });
+    expect(await body(new Request('http://localhost/v2/users/1'))).toEqual({ firstName: 'Ada' });
+    expect(
+      await body(new Request('http://localhost/users/1', { headers: { 'accept-version': 'v1' } }))
+    ).toEqual({ name: 'Ada' });
+    expect(
+      await body(
+        new Request('http://localhost/users/1', {
+          headers: { accept: 'application/json; version=v1' },
+        })
+      )
+    ).toEqual({ name: 'Ada' });
+    // Requests without a version get the latest one
+    expect(await body(new Request('http://localhost/users/1'))).toEqual({ firstName: 'Ada' });
+    // Unversioned operations are served in every version
+    expect(await body(new Request('http://localhost/v1/health'))).toEqual({ ok: true });
+  });
+
+  test('should only serve the operations of the selected version', async () => {
+    expect(
+      (await router.fetch(new Request('http://localhost/v2/users/1', { method: 'DELETE' }))).status
+    ).toBe(204);
+
+    const response = await router.fetch(
+      new Request('http://localhost/v3/users/1', { method: 'DELETE' })
+    );
+    expect(response.status).toBe(405);
+    expect(response.headers.get('allow')).toBe('GET, HEAD, OPTIONS');
+  });
+
+  test('should reject unknown versions', async () => {
+    const response = await router.fetch(
+      new Request('http://localhost/users/1', { headers: { 'accept-version': 'v9' } })
+    );
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Unsupported API version "v9"' });
+  });
+
+  test('should add Deprecation and Sunset headers for deprecated versions', async () => {
+    const deprecated = await router.fetch(new Request('http://localhost/v1/users/1'));
+    expect(deprecated.headers.get('deprecation')).toBe('@1735689600');
+    expect(deprecated.headers.get('sunset')).toBe('Thu, 01 Jan 2026 00:00:00 GMT');
+
+    const missing = await router.fetch(new Request('http://localhost/v1/missing'));
+    expect(missing.status).toBe(404);
+    expect(missing.headers.get('deprecation')).toBe('@1735689600');
+
+    const current = await router.fetch(new Request('http://localhost/v2/users/1'));
+    expect(current.headers.has('deprecation')).toBe(false);
+    expect(current.headers.has('sunset')).toBe(false);
+  });
+
+  test('should throw on ambiguous routes and versions without versioning', () => {
+    expect(() =>
+      createRouter({
+        contract: createContract({
+          ...contract,
+          getUserV3: { ...contract.getUser, versions: 'v3' },
+        }),
+        versioning,
+        handlers: {},
+      })
+    ).toThrow('Operations "getUser" and "getUserV3" both match GET /users/:id in API version "v3"');
+    expect(() => createRouter({ contract, handlers: {} })).toThrow(
+      'Operation "getUserV1" declares versions but the router has no versioning option'
+    );
+  });
+
+  test('should let merged contracts share routes across versions', () => {
+    const { getUserV1, getUser } = contract;
+    expect(() =>
+      mergeContracts(createContract({ getUserV1 }), createContract({ getUser }))
+    ).not.toThrow();
+  });
+});
+
+describe('versioned OpenAPI documents', () => {
+  test('should document one version per document', async () => {
+    const v1 = await createOpenApiSpecification(contract, {
+      title: 'Users',
+      versioning,
+      apiVersion: 'v1',
+    });
+    expect(v1.info.version).toBe('v1');
+    expect(Object.keys(v1.paths!)).toEqual(['/v1/users/{id}', '/v1/health']);
+    expect(v1.paths!['/v1/users/{id}']!.get).toMatchObject({
+      operationId: 'getUserV1',
+      deprecated: true,
+    });
+
+    const latest = await createOpenApiSpecification(contract, {
+      title: 'Users',
+      version: '3.0.0',
+      versioning: { ...versioning, strategies: ['header'] },
+    });
+    expect(latest.info.version).toBe('3.0.0');
+    expect(Object.keys(latest.paths!)).toEqual(['/users/{id}', '/health']);
+    expect(latest.paths!['/users/{id}']).toHaveProperty('get.operationId', 'getUser');
+    expect(latest.paths!['/users/{id}']).not.toHaveProperty('delete');
+    expect(latest.paths!['/users/{id}']).not.toHaveProperty('get.deprecated');
+
+    await expect(
+      createOpenApiSpecification(contract, { title: 'Users', versioning, apiVersion: 'v9' })
+    ).rejects.toThrow('Unknown API version "v9"');
+  });
+});
@@ -0,0 +1,235 @@
+import { test, expect, describe } from 'vitest';
+import { createContract } from '../../src/contract.js';
+import { createRouter } from '../../src/router.js';
+import { createOpenApiSpecification } from '../../src/openapi/index.js';
+import {
+  createWebhookSender,
+  defineWebhooks,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  withWebhookVerification,
+} from '../../src/webhooks.js';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import * as v from 'valibot';
+
+const UserCreated = v.object({ id: v.string(), email: v.pipe(v.string(), v.email()) });
+
+const webhooks = defineWebhooks({
+  userCreated: {
+    summary: 'A user signed up',
+    body: UserCreated,
+    examples: { ada: { value: { id: '1', email: 'ada@example.com' } } },
+  },
+  userDeleted: {
+    method: 'PUT',
+    body: v.object({ id: v.string() }),
+    responses: { 204: {} },
+  },
+});
+
+const contract = createContract({
+  receiveUserCreated: {
+    path: '/hooks/users',
+    method: 'POST',
+    requests: { 'application/json': { body: UserCreated } },
+    responses: { 200: { 'application/json': { body: v.object({ received: v.string() }) } } },
+  },
+});
+
+const createReceiver = (secret: string | string[]) =>
+  createRouter({
+    contract,
+    handlers: {
+      receiveUserCreated: {
+        middleware: [withWebhookVerification({ secret })],
+        handler: async (request) =>
+          request.respond({
+            status: 200,
+            contentType: 'application/json',
+            body: { received: request.validatedBody.id },
+          }),
+      },
+    },
+  });
+
+describe('webhook signatures', () => {
+  test('should verify signatures of any of the secrets', async () => {
+    const signature = await signWebhookPayload('{"id":"1"}', 'old-secret');
+    expect(signature).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(
+      await verifyWebhookSignature('{"id":"1"}', signature, ['new-secret', 'old-secret'])
+    ).toBe(true);
+    expect(await verifyWebhookSignature('{"id":"2"}', signature, 'old-secret')).toBe(false);
+    expect(await verifyWebhookSignature('{"id":"1"}', signature, 'new-secret')).toBe(false);
+    expect(await verifyWebhookSignature('{"id":"1"}', null, 'old-secret')).toBe(false);
+  });
+
+  test('should reject signatures outside the tolerance', async () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 600;
+    const signature = await signWebhookPayload('{}', 'secret', timestamp);
+    expect(await verifyWebhookSignature('{}', signature, 'secret')).toBe(false);
+    expect(await verifyWebhookSignature('{}', signature, 'secret', 900)).toBe(true);
+  });
+});
+
+describe('createWebhookSender', () => {
+  test('should validate, sign and deliver payloads', async () => {
+    const receiver = createReceiver('secret');
+    const requests: Request[] = [];
+    const sender = createWebhookSender(webhooks, {
+      secret: 'secret',
+      headers: { 'user-agent': 'itty-spec-webhooks' },
+      fetch: async (request) => {
+        requests.push(request.clone());
+        return receiver.fetch(request);
+      },
+    });
+
+    const response = await sender.userCreated('http://localhost/hooks/users', {
+      id: '42',
+      email: 'ada@example.com',
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: '42' });
+
+    const [request] = requests;
+    expect(request!.method).toBe('POST');
+    expect(request!.headers.get('content-type')).toBe('application/json');
+    expect(request!.headers.get('user-agent')).toBe('itty-spec-webhooks');
+    expect(
+      await verifyWebhookSignature(
+        await request!.text(),
+        request!.headers.get('webhook-signature'),
+        'secret'
+      )
+    ).toBe(true);
+  });
+
+  test('should reject invalid payloads before sending', async () => {
+    let sent = false;
+    const sender = createWebhookSender(webhooks, {
+      secret: 'secret',
+      fetch: async () => {
+        sent = true;
+        return new Response(null);
+      },
+    });
+
+    await expect(
+      sender.userCreated('http://localhost/hooks/users', { id: '42', email: 'not-an-email' })
+    ).rejects.toMatchObject({ issues: expect.any(Array) });
+    expect(sent).toBe(false);
+  });
+});
+
+describe('withWebhookVerification', () => {
+  test('should reject unsigned and tampered deliveries with 401', async () => {
+    const receiver = createReceiver(['secret']);
+    const body = JSON.stringify({ id: '42', email: 'ada@example.com' });
+    const signature = await signWebhookPayload(body, 'secret');
+    const deliver = (payload: string, headers: Record<string, string>) =>
+      receiver.fetch(
+        new Request('http://localhost/hooks/users', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...headers },
+          body: payload,
+        })
+      );
+
+    expect((await deliver(body, { 'webhook-signature': signature })).status).toBe(200);
+    expect((await deliver(body, {})).status).toBe(401);
+    const tampered = JSON.stringify({ id: '43', email: 'ada@example.com' });
+    expect((await deliver(tampered, { 'webhook-signature': signature })).status).toBe(401);
+  });
+
+  test('should verify signatures over the body bytes as received', async () => {
+    const receiver = createReceiver('secret');
+    const json = new TextEncoder().encode(JSON.stringify({ id: '42', email: 'ada@example.com' }));
+    const body = new Uint8Array([0xef, 0xbb, 0xbf, ...json]);
+    const response = await receiver.fetch(
+      new Request('http://localhost/hooks/users', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'webhook-signature': await signWebhookPayload(body, 'secret'),
+        },
+        body,
+      })
+    );
+    expect(response.status).toBe(200);
+  });
+
+  test('should verify signatures of multipart deliveries', async () => {
+    const receiver = createRouter({
+      contract: createContract({
+        receiveUpload: {
+          path: '/hooks/uploads',
+          method: 'POST',
+          requests: { 'multipart/form-data': { body: v.object({ name: v.string() }) } },
+          responses: { 200: { 'application/json': { body: v.object({ name: v.string() }) } } },
+        },
+      }),
+      handlers: {
+        receiveUpload: {
+          middleware: [withWebhookVerification({ secret: 'secret' })],
+          handler: async (request) =>
+            request.respond({
+              status: 200,
+              contentType: 'application/json',
+              body: { name: request.validatedBody.name },
+            }),
+        },
+      },
+    });
+    const form = new FormData();
+    form.set('name', 'report.csv');
+    const encoded = new Request('http://localhost', { method: 'POST', body: form });
+    const body = new Uint8Array(await encoded.arrayBuffer());
+    const deliver = (signature: string) =>
+      receiver.fetch(
+        new Request('http://localhost/hooks/uploads', {
+          method: 'POST',
+          headers: {
+            'content-type': encoded.headers.get('content-type')!,
+            'webhook-signature': signature,
+          },
+          body,
+        })
+      );
+
+    const response = await deliver(await signWebhookPayload(body, 'secret'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ name: 'report.csv' });
+    expect((await deliver(await signWebhookPayload('', 'secret'))).status).toBe(401);
+  });
+
+  test('should require a secret', () => {
+    expect(() => withWebhookVerification({ secret: [] })).toThrow(
+      'withWebhookVerification requires a secret'
+    );
+  });
+});
+
+describe('webhooks in OpenAPI', () => {
+  test('should emit webhooks next to the paths', async () => {
+    const document = await createOpenApiSpecification(contract, { title: 'Users', webhooks });
+
+    const items = document.webhooks as Record<string, OpenAPIV3_1.PathItemObject>;
+    const userCreated = items.userCreated!.post!;
+    expect(userCreated.operationId).toBe('userCreated');
+    expect(userCreated.summary).toBe('A user signed up');
+    const content = (userCreated.requestBody as { content: Record<string, any> }).content;
+    expect(content['application/json'].examples).toEqual(webhooks.userCreated.examples);
+    expect(content['application/json'].schema).toBeDefined();
+    expect(userCreated.responses).toEqual({ 200: { description: 'OK' } });
+
+    const userDeleted = items.userDeleted!.put!;
+    expect(userDeleted.responses).toEqual({ 204: { description: 'No Content' } });
+    expect(Object.keys(document.paths!)).toEqual(['/hooks/users']);
+  });
+
+  test('should leave webhooks out without definitions', async () => {
+    const document = await createOpenApiSpecification(contract, { title: 'Users' });
+    expect(document.webhooks).toBeUndefined();
+  });
+});
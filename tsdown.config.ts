@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsdown';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/router.ts', 'src/contract.ts', 'src/openapi/index.ts'],
+  entry: ['src/index.ts', 'src/router.ts', 'src/contract.ts', 'src/client.ts', 'src/mock.ts', 'src/testing.ts', 'src/openapi/index.ts', 'src/bin.ts'],
   format: ['esm', 'cjs'],
   clean: true,
   sourcemap: false,